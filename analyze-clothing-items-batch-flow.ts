@@ -0,0 +1,169 @@
+
+'use server';
+/**
+ * @fileOverview Batch and multi-item clothing analysis for onboarding (a photographed rail or flat-lay).
+ *
+ * - analyzeClothingItems - Analyzes several photos, each of which may contain several garments.
+ * - AnalyzeClothingItemsInput - The input type for the analyzeClothingItems function.
+ * - AnalyzeClothingItemsOutput - The return type for the analyzeClothingItems function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {CLOTHING_ITEM_ATTRIBUTE_GUIDANCE, ClothingItemAnalysisSchema} from '@/ai/closet-item';
+import {mapSettledWithConcurrency} from '@/ai/concurrency';
+import {assertModelOutput, FlowError, toFlowError} from '@/ai/errors';
+import {analyzeClothingItem} from '@/ai/flows/analyze-clothing-item-flow';
+import {ingestImage} from '@/ai/image-assets';
+import {getLanguageName, Locale, LocaleSchema, resolveLocale} from '@/ai/locale';
+import {callWithResilience} from '@/ai/resilient-call';
+import {z} from 'genkit';
+
+const AnalyzeClothingItemsInputSchema = z.object({
+  photoDataUris: z
+    .array(z.string())
+    .min(1)
+    .max(20)
+    .describe(
+      "Photos of clothing items, each as an image asset reference ('asset://<key>') or as a JPEG, PNG or WebP data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  detectMultiple: z
+    .boolean()
+    .optional()
+    .describe('Defaults to true. When true, every photo may contain several garments (e.g. a clothing rail or a flat-lay outfit) and each one is returned with a bounding box. When false, every photo is treated as a single garment.'),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(5)
+    .optional()
+    .describe('The maximum number of photos analyzed at the same time. Defaults to 2.'),
+  locale: LocaleSchema.optional(),
+});
+export type AnalyzeClothingItemsInput = z.infer<typeof AnalyzeClothingItemsInputSchema>;
+
+const BoundingBoxSchema = z.object({
+  x: z.number().min(0).max(1).describe('Left edge, as a fraction of the image width.'),
+  y: z.number().min(0).max(1).describe('Top edge, as a fraction of the image height.'),
+  width: z.number().min(0).max(1).describe('Width, as a fraction of the image width.'),
+  height: z.number().min(0).max(1).describe('Height, as a fraction of the image height.'),
+});
+
+// Boxes slightly outside the image are clamped by clampBoundingBox instead of failing validation.
+const ModelDetectedClothingItemSchema = ClothingItemAnalysisSchema.extend({
+  boundingBox: z.object({x: z.number(), y: z.number(), width: z.number(), height: z.number()}).describe('Where the garment is in the photo.'),
+});
+
+const DetectedClothingItemSchema = ClothingItemAnalysisSchema.extend({
+  boundingBox: BoundingBoxSchema.optional().describe('Where the garment is in the photo. Omitted when the photo was analyzed as a single garment.'),
+});
+
+const PhotoAnalysisResultSchema = z.object({
+  photoIndex: z.number().int().describe('The index of the photo in photoDataUris.'),
+  status: z.enum(['ok', 'error']),
+  photoRef: z.string().optional().describe("The photo in the image asset store ('asset://<key>'). Omitted when the photo was rejected."),
+  items: z.array(DetectedClothingItemSchema).describe('The garments found in the photo. Empty when status is "error".'),
+  error: z
+    .object({
+      code: z.string().describe("The error code, e.g. 'INVALID_INPUT_IMAGE' or 'MODEL_REFUSED'."),
+      message: z.string(),
+    })
+    .optional(),
+});
+
+const AnalyzeClothingItemsOutputSchema = z.object({
+  results: z.array(PhotoAnalysisResultSchema).describe('One result per photo, in the order of photoDataUris.'),
+  itemCount: z.number().int().describe('The total number of garments found in all photos.'),
+  failedPhotoCount: z.number().int(),
+});
+export type AnalyzeClothingItemsOutput = z.infer<typeof AnalyzeClothingItemsOutputSchema>;
+
+export async function analyzeClothingItems(input: AnalyzeClothingItemsInput): Promise<AnalyzeClothingItemsOutput> {
+  return analyzeClothingItemsFlow(input);
+}
+
+const multiItemPrompt = ai.definePrompt({
+  name: 'analyzeMultipleClothingItemsPrompt',
+  input: {schema: z.object({photoDataUri: z.string(), language: z.string()})},
+  output: {schema: z.object({items: z.array(ModelDetectedClothingItemSchema)})},
+  prompt: `You are an expert fashion AI assistant. The provided image may show several clothing items at once, for example a clothing rail, a pile of clothes or a flat-lay outfit.
+Find every separate clothing item, shoe and accessory in the image. For each one, provide a suggested name (itemName), type (itemType), color (itemColor), style (itemStyle), and a concise overall description (fullDescription).
+Write itemName, itemColor and fullDescription in {{{language}}}.
+Also provide the dominant color of each item as a hex code (itemColorHex, e.g. '#1F2A44'). Sample the fabric itself, not the background, shadows or highlights.
+For each item, give its boundingBox with x, y, width and height as fractions (0 to 1) of the image size, measured from the top-left corner.
+Do not list the same garment twice, and ignore hangers, furniture and people.
+
+${CLOTHING_ITEM_ATTRIBUTE_GUIDANCE}
+
+Image: {{media url=photoDataUri}}
+
+Output the analysis in the specified JSON format.`,
+});
+
+function clampBoundingBox(box: z.infer<typeof ModelDetectedClothingItemSchema>['boundingBox']): z.infer<typeof BoundingBoxSchema> {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const x = clamp(box.x);
+  const y = clamp(box.y);
+  return {x, y, width: clamp(Math.min(box.width, 1 - x)), height: clamp(Math.min(box.height, 1 - y))};
+}
+
+async function detectClothingItems(photoDataUri: string, locale: Locale, abortSignal: AbortSignal) {
+  try {
+    const output = await callWithResilience(
+      async ({signal}) => assertModelOutput('analyzeClothingItemsFlow', await multiItemPrompt(
+        {photoDataUri, language: getLanguageName(locale)},
+        {abortSignal: signal}
+      )),
+      {label: 'analyzeMultipleClothingItemsPrompt', signal: abortSignal}
+    );
+    return output.items.map(item => ({...item, boundingBox: clampBoundingBox(item.boundingBox)}));
+  } catch (error) {
+    throw toFlowError('analyzeClothingItemsFlow', error, {imageField: 'photoDataUris'});
+  }
+}
+
+const analyzeClothingItemsFlow = ai.defineFlow(
+  {
+    name: 'analyzeClothingItemsFlow',
+    inputSchema: AnalyzeClothingItemsInputSchema,
+    outputSchema: AnalyzeClothingItemsOutputSchema,
+  },
+  async (input, {abortSignal}): Promise<AnalyzeClothingItemsOutput> => {
+    const {detectMultiple = true, concurrency = 2} = input;
+    const locale = resolveLocale(input);
+    const settled = await mapSettledWithConcurrency(input.photoDataUris, concurrency, async photoDataUri => {
+      const photo = await ingestImage('analyzeClothingItemsFlow', 'photoDataUris', photoDataUri);
+      if (detectMultiple) {
+        return {photoRef: photo.ref, items: await detectClothingItems(photo.dataUri, locale, abortSignal)};
+      }
+      const {photoRef, itemId, ...item} = await analyzeClothingItem({photoDataUri: photo.ref, locale}, {abortSignal});
+      return {photoRef, items: [item]};
+    });
+    // A cancelled request fails as a whole rather than reporting every pending photo as failed.
+    if (abortSignal.aborted) {
+      throw settled.find(result => result.status === 'rejected')?.reason ?? abortSignal.reason;
+    }
+
+    // A failing photo is reported in its own result instead of failing the whole batch.
+    const results = settled.map((result, photoIndex) => {
+      if (result.status === 'fulfilled') {
+        return {photoIndex, status: 'ok' as const, ...result.value};
+      }
+      const error = result.reason;
+      console.error(`Analyse van foto ${photoIndex} mislukt in analyzeClothingItemsFlow:`, error);
+      return {
+        photoIndex,
+        status: 'error' as const,
+        items: [],
+        error: error instanceof FlowError
+          ? {code: error.code, message: error.getLocalizedMessage(locale)}
+          : {code: 'UNKNOWN_ERROR', message: error instanceof Error ? error.message : String(error)},
+      };
+    });
+
+    return {
+      results,
+      itemCount: results.reduce((count, result) => count + result.items.length, 0),
+      failedPhotoCount: results.filter(result => result.status === 'error').length,
+    };
+  }
+);
@@ -0,0 +1,231 @@
+
+'use server';
+/**
+ * @fileOverview Wardrobe gap analysis with prioritised purchase suggestions.
+ *
+ * The structural gaps (missing categories, too many tops for the bottoms, no neutral coat in the palette)
+ * are found locally. The model proposes purchases in the colours of the user's season; afterwards each
+ * colour is snapped to the nearest recommended colour and the number of new outfits a purchase unlocks
+ * is counted locally, which also decides the priority.
+ *
+ * - analyzeWardrobeGaps - A function that finds wardrobe gaps and suggests what to buy.
+ * - AnalyzeWardrobeGapsInput - The input type for the analyzeWardrobeGaps function.
+ * - AnalyzeWardrobeGapsOutput - The return type for the analyzeWardrobeGaps function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {ClosetItemSchema, getItemCategory} from '@/ai/closet-item';
+import {colorDistance} from '@/ai/color-science';
+import {assertModelOutput, InvalidInputError, toFlowError} from '@/ai/errors';
+import {ItemStyleSchema, ItemTypeSchema} from '@/ai/item-vocabulary';
+import {getLanguageName, LocaleSchema, resolveLocale} from '@/ai/locale';
+import {CLOSET_ITEMS_PROMPT} from '@/ai/outfit-prompt';
+import {callWithResilience} from '@/ai/resilient-call';
+import {getSeasonLabel, normalizeHexColor, SeasonTypeSchema} from '@/ai/seasonal-palettes';
+import {describeStyleProfileForPrompt, loadStyleProfile} from '@/ai/style-profile';
+import {ClosetSelectionSchema, getWardrobeRepository, resolveClosetItems} from '@/ai/wardrobe-store';
+import {countOutfitCombinations, countUnlockedOutfits, findWardrobeGaps, SeasonPalette, WardrobeGapSchema} from '@/ai/wardrobe-gaps';
+
+const PaletteColorSchema = z.object({
+  name: z.string(),
+  hex: z.string().regex(/^#[0-9A-F]{6}$/i, 'Moet een geldige hex-kleurcode zijn (bijv. #FF5733).'),
+});
+
+const AnalyzeWardrobeGapsInputSchema = z.object({
+  closetItems: z
+    .array(ClosetItemSchema)
+    .optional()
+    .describe('The clothing items in the user\'s digital closet, as created from analyzeClothingItem results. May be omitted when a userId is given.'),
+  colorAnalysis: z
+    .object({
+      seasonType: SeasonTypeSchema,
+      recommendedColors: z.array(PaletteColorSchema).min(1),
+      avoidColors: z.array(PaletteColorSchema),
+    })
+    .optional()
+    .describe("The season palette from performColorAnalysis. Defaults to the user's latest stored colour analysis."),
+  stylePreferences: z.string().optional().describe('The user style preferences. With a userId, the preferences learned from earlier ratings are used as well.'),
+  maxSuggestions: z.number().int().min(1).max(10).optional().describe('The maximum number of purchase suggestions. Defaults to 5.'),
+  locale: LocaleSchema.optional(),
+}).merge(ClosetSelectionSchema);
+export type AnalyzeWardrobeGapsInput = z.infer<typeof AnalyzeWardrobeGapsInputSchema>;
+
+const PurchaseSuggestionSchema = z.object({
+  priority: z.number().int().min(1).describe('1 is the most valuable purchase.'),
+  itemType: ItemTypeSchema.describe("The kind of item to buy, as an itemType code of analyzeClothingItem, e.g. 'tailored_trousers', 'trench_coat'."),
+  category: z.enum(['top', 'bottom', 'onePiece', 'outerwear', 'footwear', 'accessory']),
+  colorName: z.string().describe('The name of the recommended colour from the palette.'),
+  colorHex: z.string().describe('The hex code of the recommended colour from the palette.'),
+  style: ItemStyleSchema.describe("The style of the item as an itemStyle code, e.g. 'classic', 'casual'."),
+  reason: z.string().describe('Why this purchase closes a gap, in the requested locale.'),
+  unlockedOutfits: z.number().int().describe('The number of new outfits the purchase makes possible with the current closet, counted locally.'),
+});
+
+const AnalyzeWardrobeGapsOutputSchema = z.object({
+  seasonType: SeasonTypeSchema,
+  currentCombinations: z.number().int().describe('The number of outfits the current closet allows: (tops x bottoms + one-pieces) x shoes x (coats + 1), without items in colours to avoid.'),
+  gaps: z.array(WardrobeGapSchema).describe('The gaps found in the closet; the structural ones first, then the ones the stylist observed.'),
+  purchaseSuggestions: z.array(PurchaseSuggestionSchema).describe('Sorted by priority.'),
+});
+export type AnalyzeWardrobeGapsOutput = z.infer<typeof AnalyzeWardrobeGapsOutputSchema>;
+
+export async function analyzeWardrobeGaps(input: AnalyzeWardrobeGapsInput): Promise<AnalyzeWardrobeGapsOutput> {
+  return analyzeWardrobeGapsFlow(input);
+}
+
+const DEFAULT_MAX_SUGGESTIONS = 5;
+// The model proposes a few more purchases than asked for, so the local unlock count can pick the best.
+const EXTRA_CANDIDATES = 3;
+
+const gapsPrompt = ai.definePrompt({
+  name: 'analyzeWardrobeGapsPrompt',
+  input: {
+    schema: z.object({
+      closetItems: z.array(ClosetItemSchema),
+      season: z.string(),
+      recommendedColors: z.array(PaletteColorSchema),
+      gaps: z.array(z.string()),
+      stylePreferences: z.string().optional(),
+      styleProfile: z.string().optional(),
+      candidateCount: z.number().int(),
+      language: z.string(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      observedGaps: z.array(z.string()).describe('Further gaps you notice that are not in the list of known gaps, e.g. no outfit for a formal occasion. Empty if there are none.'),
+      purchaseSuggestions: z.array(PurchaseSuggestionSchema.pick({itemType: true, colorName: true, colorHex: true, style: true, reason: true})),
+    }),
+  },
+  prompt: `You are a personal AI stylist analysing the gaps in a user's wardrobe.
+
+  User Closet:
+  ${CLOSET_ITEMS_PROMPT}
+
+  The user's colour season is {{{season}}}. Recommended colours:
+  {{#each recommendedColors}}
+  - {{{name}}} ({{{hex}}})
+  {{/each}}
+
+  {{#if gaps}}
+  Known gaps in the closet:
+  {{#each gaps}}
+  - {{{this}}}
+  {{/each}}
+  {{/if}}
+  {{#if stylePreferences}}Style Preferences: {{{stylePreferences}}}{{/if}}
+  {{#if styleProfile}}
+  Learned from the user's ratings of earlier outfits (follow these preferences and avoid what the user disliked):
+  {{{styleProfile}}}
+  {{/if}}
+
+  Suggest up to {{{candidateCount}}} purchases that close the gaps and combine with as many items in the closet as possible.
+  Versatile basics in neutral colours come first, unless the closet already has them.
+  Every purchase must use one of the recommended colours: copy its name and hex code exactly.
+  Suggest one item per purchase, and do not suggest an item the closet already has in the same colour.
+  In observedGaps, only list gaps that are not among the known gaps.
+  For itemType and style, use the codes of the output schema, as in the closet items above.
+  Format the output in JSON according to the schema. Ensure all text is in {{{language}}}.
+  `,
+});
+
+type PaletteColor = z.infer<typeof PaletteColorSchema>;
+
+/** The model is told to copy a palette colour; a colour it renamed or a hex code it altered is matched back. */
+function snapToPalette(color: {colorName: string; colorHex: string}, palette: PaletteColor[]): PaletteColor | undefined {
+  const byName = palette.find(candidate => candidate.name.trim().toLowerCase() === color.colorName.trim().toLowerCase());
+  const hex = normalizeHexColor(color.colorHex);
+  if (byName || !hex) {
+    return byName;
+  }
+  return palette.reduce((nearest, candidate) =>
+    colorDistance(hex, candidate.hex) < colorDistance(hex, nearest.hex) ? candidate : nearest
+  );
+}
+
+async function resolvePalette(input: AnalyzeWardrobeGapsInput): Promise<SeasonPalette> {
+  if (input.colorAnalysis) {
+    return input.colorAnalysis;
+  }
+  const stored = input.userId ? await getWardrobeRepository().getLatestColorAnalysis(input.userId) : undefined;
+  if (!stored || stored.analysis.recommendedColors.length === 0) {
+    throw new InvalidInputError('analyzeWardrobeGapsFlow', 'colorAnalysis', {
+      nl: 'geef een kleuranalyse mee, of een userId met een opgeslagen kleuranalyse waarin een seizoen is bepaald.',
+      en: 'provide a colour analysis, or a userId with a stored colour analysis in which a season was determined.',
+      de: 'gib eine Farbanalyse mit oder eine userId mit einer gespeicherten Farbanalyse, in der eine Jahreszeit bestimmt wurde.',
+    });
+  }
+  return stored.analysis;
+}
+
+const analyzeWardrobeGapsFlow = ai.defineFlow(
+  {
+    name: 'analyzeWardrobeGapsFlow',
+    inputSchema: AnalyzeWardrobeGapsInputSchema,
+    outputSchema: AnalyzeWardrobeGapsOutputSchema,
+  },
+  async (input, {abortSignal}): Promise<AnalyzeWardrobeGapsOutput> => {
+    try {
+      const [closetItems, palette] = await Promise.all([
+        resolveClosetItems('analyzeWardrobeGapsFlow', input),
+        resolvePalette(input),
+      ]);
+      const styleProfile = input.userId ? describeStyleProfileForPrompt(await loadStyleProfile(input.userId)) : undefined;
+      const locale = resolveLocale(input);
+      const gaps = findWardrobeGaps(closetItems, palette, locale);
+      const maxSuggestions = input.maxSuggestions ?? DEFAULT_MAX_SUGGESTIONS;
+
+      const output = await callWithResilience(
+        async ({signal}) => assertModelOutput('analyzeWardrobeGapsFlow', await gapsPrompt({
+          closetItems,
+          season: getSeasonLabel(palette.seasonType, 'en'),
+          recommendedColors: palette.recommendedColors,
+          gaps: gaps.map(gap => gap.message),
+          stylePreferences: input.stylePreferences,
+          styleProfile,
+          candidateCount: maxSuggestions + EXTRA_CANDIDATES,
+          language: getLanguageName(locale),
+        }, {abortSignal: signal})),
+        {label: 'analyzeWardrobeGapsPrompt', signal: abortSignal}
+      );
+
+      const seen = new Set<string>();
+      const candidates = output.purchaseSuggestions.flatMap(suggestion => {
+        const color = snapToPalette(suggestion, palette.recommendedColors);
+        const key = color && `${suggestion.itemType}|${color.hex}`;
+        if (!color || !key || seen.has(key)) {
+          return [];
+        }
+        seen.add(key);
+        return [{
+          itemType: suggestion.itemType,
+          category: getItemCategory(suggestion.itemType),
+          colorName: color.name,
+          colorHex: color.hex,
+          style: suggestion.style,
+          reason: suggestion.reason,
+          unlockedOutfits: countUnlockedOutfits(
+            closetItems,
+            {itemType: suggestion.itemType, itemColor: color.name, itemColorHex: color.hex},
+            palette
+          ),
+        }];
+      });
+      // A stable sort keeps the model's order for purchases that unlock as many outfits.
+      const purchaseSuggestions = candidates
+        .sort((a, b) => b.unlockedOutfits - a.unlockedOutfits)
+        .slice(0, maxSuggestions)
+        .map((suggestion, index) => ({priority: index + 1, ...suggestion}));
+
+      return {
+        seasonType: palette.seasonType,
+        currentCombinations: countOutfitCombinations(closetItems, palette),
+        gaps: [...gaps, ...output.observedGaps.map(message => ({code: 'OBSERVED' as const, message}))],
+        purchaseSuggestions,
+      };
+    } catch (error) {
+      throw toFlowError('analyzeWardrobeGapsFlow', error);
+    }
+  }
+);
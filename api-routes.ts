@@ -0,0 +1,73 @@
+/**
+ * @fileOverview The flows that are reachable over HTTP (api-server.ts) and from the command line (cli.ts).
+ *
+ * Both validate the input with the flow's own Zod input schema, taken from the action in the Genkit
+ * registry, so they accept exactly what the flow accepts.
+ *
+ * - ApiRoute - A flow with its command: `colorme <command>` and `POST /v1/<command>`.
+ * - API_ROUTES - The routes, one per flow.
+ * - findApiRoute - Looks up a route by its command.
+ * - getRouteAction - The registered flow action of a route.
+ * - validateRouteInput - Parses input with the flow's input schema; invalid input becomes an InvalidInputError.
+ */
+
+import {Action, z} from 'genkit';
+import {ai} from '@/ai/genkit';
+import {InvalidInputError} from '@/ai/errors';
+import '@/ai/flows/analyze-clothing-item-flow';
+import '@/ai/flows/analyze-clothing-items-batch-flow';
+import '@/ai/flows/analyze-wardrobe-gaps-flow';
+import '@/ai/flows/generate-outfit-inspiration';
+import '@/ai/flows/generate-outfit-plan-flow';
+import '@/ai/flows/generate-outfit-suggestion';
+import '@/ai/flows/generate-outfit-suggestion-stream-flow';
+import '@/ai/flows/generate-outfit-visualization-flow';
+import '@/ai/flows/generate-packing-list-flow';
+import '@/ai/flows/perform-color-analysis-flow';
+
+export interface ApiRoute {
+  command: string;
+  flowName: string;
+  description: string;
+  /** The input field the CLI fills with the photo files given as arguments. */
+  photoField?: string;
+  /** The photo field is an array, so several photos can be given. */
+  multiplePhotos?: boolean;
+  /** The flow streams chunks; over HTTP they are sent as newline-delimited JSON. */
+  streaming?: boolean;
+}
+
+export const API_ROUTES: ApiRoute[] = [
+  {command: 'analyze-item', flowName: 'analyzeClothingItemFlow', description: 'Analyseert een kledingstuk op een foto.', photoField: 'photoDataUri'},
+  {command: 'analyze-items', flowName: 'analyzeClothingItemsFlow', description: "Analyseert de kledingstukken op een of meer foto's.", photoField: 'photoDataUris', multiplePhotos: true},
+  {command: 'color-analysis', flowName: 'performColorAnalysisFlow', description: 'Bepaalt het kleurtype op een portretfoto.', photoField: 'userDataUri'},
+  {command: 'outfit-suggestion', flowName: 'generateOutfitSuggestionFlow', description: 'Stelt een outfit uit de kledingkast voor, met afbeelding.'},
+  {command: 'outfit-suggestion-stream', flowName: 'generateOutfitSuggestionStreamFlow', description: 'Als outfit-suggestion, maar stuurt de tekst voor de afbeelding.', streaming: true},
+  {command: 'outfit-inspiration', flowName: 'generateOutfitInspirationFlow', description: 'Geeft outfitinspiratie op basis van het kleurtype.'},
+  {command: 'outfit-visualization', flowName: 'generateOutfitVisualizationFlow', description: 'Maakt een afbeelding van een outfit.'},
+  {command: 'outfit-plan', flowName: 'generateOutfitPlanFlow', description: 'Plant outfits voor meerdere dagen.'},
+  {command: 'packing-list', flowName: 'generatePackingListFlow', description: 'Stelt een paklijst voor een reis samen.'},
+  {command: 'wardrobe-gaps', flowName: 'analyzeWardrobeGapsFlow', description: 'Zoekt ontbrekende basisstukken in de kledingkast.'},
+];
+
+export function findApiRoute(command: string): ApiRoute | undefined {
+  return API_ROUTES.find(route => route.command === command);
+}
+
+export async function getRouteAction(route: ApiRoute): Promise<Action> {
+  const action = await ai.registry.lookupAction(`/flow/${route.flowName}`);
+  if (!action) {
+    throw new Error(`Flow ${route.flowName} is niet geregistreerd.`);
+  }
+  return action;
+}
+
+export async function validateRouteInput(route: ApiRoute, input: unknown): Promise<unknown> {
+  const schema: z.ZodTypeAny | undefined = (await getRouteAction(route)).__action.inputSchema;
+  const result = schema ? schema.safeParse(input) : {success: true as const, data: input};
+  if (result.success) {
+    return result.data;
+  }
+  const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`).join('; ');
+  throw new InvalidInputError(route.flowName, result.error.issues[0].path.join('.') || 'input', {nl: issues, en: issues, de: issues});
+}
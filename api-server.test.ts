@@ -0,0 +1,217 @@
+/**
+ * @fileOverview Tests for the HTTP API: flow routes, input validation, payload limits, rate limits and
+ * quotas, the request log and the asset route.
+ *
+ * Run with `npx tsx --test *.test.ts`.
+ */
+
+import {CLOSET, createTestPhoto, modelClothingItem, resetTestState} from '@/ai/test-support';
+import assert from 'node:assert/strict';
+import type {Server} from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {afterEach, beforeEach, describe, test} from 'node:test';
+import {ApiServerOptions, createApiServer, RequestLogEntry} from '@/ai/api-server';
+import {MAX_UPLOAD_BYTES} from '@/ai/image-assets';
+import {mockModelController} from '@/ai/mock-model';
+import {UserRateLimiter} from '@/ai/rate-limiter';
+
+const MILD_WEATHER = {temperatureMinC: 14, temperatureMaxC: 20, precipitationProbability: 10, windSpeedKmh: 12, uvIndex: 4};
+
+const servers: Server[] = [];
+
+async function startServer(options: ApiServerOptions = {}) {
+  const logs: RequestLogEntry[] = [];
+  const server = createApiServer({...options, log: entry => logs.push(entry)});
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${url}${path}`, {method: 'POST', headers: {'Content-Type': 'application/json', ...headers}, body: JSON.stringify(body)});
+  return {url, logs, post};
+}
+
+beforeEach(resetTestState);
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(resolve);
+  })));
+});
+
+describe('flow routes', () => {
+  test('runs the flow and logs the latency and token usage', async () => {
+    mockModelController.enqueue('text', {output: modelClothingItem()});
+    const {post, logs} = await startServer();
+
+    const response = await post('/v1/analyze-item', {photoDataUri: await createTestPhoto()}, {'X-User-Id': 'user-1', 'X-Request-Id': 'req-1'});
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('x-request-id'), 'req-1');
+    assert.equal((await response.json()).itemType, 'jeans');
+    const [entry] = logs;
+    assert.equal(entry.requestId, 'req-1');
+    assert.equal(entry.route, 'analyze-item');
+    assert.equal(entry.userId, 'user-1');
+    assert.equal(entry.status, 200);
+    assert.ok(entry.latencyMs >= 0);
+    assert.equal(entry.usage?.modelCalls, 1);
+    assert.ok(entry.usage!.totalTokens > 258);
+  });
+
+  test('streams the chunks of a streaming flow as newline-delimited JSON', async () => {
+    mockModelController.enqueue('text', {output: {
+      outfitSuggestion: 'A white t-shirt with navy jeans.',
+      reasoning: 'Mild and dry weather.',
+      suggestedShoes: 'White sneakers',
+      suggestedSocks: 'Invisible socks',
+      usedItemIds: ['white-tee', 'navy-jeans', 'white-sneakers'],
+    }});
+    const {post} = await startServer();
+
+    const response = await post('/v1/outfit-suggestion-stream', {closetItems: CLOSET, weather: MILD_WEATHER, fashionTrends: 'Relaxed denim'});
+    const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+
+    assert.match(response.headers.get('content-type') ?? '', /application\/x-ndjson/);
+    assert.deepEqual(lines.slice(0, -1).map(line => line.chunk.type), ['progress', 'text', 'progress', 'image']);
+    assert.equal(lines.at(-1).result.imageStatus, 'ready');
+  });
+
+  test('rejects invalid input with the flow schema, in the language of the request', async () => {
+    const {post} = await startServer();
+
+    const response = await post('/v1/wardrobe-gaps', {closetItems: CLOSET, maxSuggestions: 50}, {'Accept-Language': 'en-GB,en;q=0.8'});
+    const {error} = await response.json();
+
+    assert.equal(response.status, 400);
+    assert.equal(error.code, 'INVALID_INPUT');
+    assert.match(error.message, /^Invalid input in 'maxSuggestions'/);
+    assert.equal(mockModelController.calls.length, 0);
+  });
+
+  test('maps flow errors onto HTTP statuses', async () => {
+    mockModelController.enqueue('image', {blocked: true});
+    const {post} = await startServer();
+
+    const response = await post('/v1/outfit-visualization', {description: 'A red dress', locale: 'de'});
+    const {error} = await response.json();
+
+    assert.equal(response.status, 422);
+    assert.equal(error.code, 'MODEL_REFUSED');
+    assert.match(error.message, /Sicherheitsfiltern/);
+  });
+
+  test('answers 404 for an unknown route and 405 for the wrong method', async () => {
+    const {url, post} = await startServer();
+
+    assert.equal((await post('/v1/unknown', {})).status, 404);
+    const response = await fetch(`${url}/v1/analyze-item`);
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get('allow'), 'POST');
+  });
+
+  test('rejects a userId that differs from the X-User-Id header', async () => {
+    const {post} = await startServer();
+
+    const response = await post('/v1/wardrobe-gaps', {userId: 'user-2'}, {'X-User-Id': 'user-1'});
+
+    assert.equal(response.status, 403);
+  });
+});
+
+describe('payload limits', () => {
+  test('rejects a body above maxBodyBytes', async () => {
+    const {post} = await startServer({maxBodyBytes: 1024});
+
+    const response = await post('/v1/outfit-visualization', {description: 'x'.repeat(2048)});
+
+    assert.equal(response.status, 413);
+    assert.equal((await response.json()).error.code, 'PAYLOAD_TOO_LARGE');
+  });
+
+  test('rejects a data URI above the upload limit and names the field', async () => {
+    const {post} = await startServer();
+    const photo = `data:image/jpeg;base64,${'A'.repeat(Math.ceil(MAX_UPLOAD_BYTES / 3) * 4 + 4)}`;
+
+    const response = await post('/v1/analyze-items', {photoDataUris: [await createTestPhoto(), photo]});
+
+    assert.equal(response.status, 413);
+    assert.match((await response.json()).error.message, /photoDataUris\[1\]/);
+    assert.equal(mockModelController.calls.length, 0);
+  });
+});
+
+describe('rate limits and quotas', () => {
+  test('limits the requests per user and tells when to retry', async () => {
+    const {post} = await startServer({rateLimits: {burst: 2, requestsPerMinute: 6}});
+    const request = (userId: string) => post('/v1/outfit-visualization', {description: 'A red dress'}, {'X-User-Id': userId});
+
+    assert.equal((await request('user-1')).status, 200);
+    assert.equal((await request('user-1')).status, 200);
+    const limited = await request('user-1');
+    assert.equal(limited.status, 429);
+    assert.equal((await limited.json()).error.code, 'RATE_LIMITED');
+    assert.ok(Number(limited.headers.get('retry-after')) > 0);
+    assert.equal((await request('user-2')).status, 200);
+  });
+
+  test('does not count requests with invalid input', async () => {
+    const {post} = await startServer({rateLimits: {burst: 1}});
+    const invalid = {closetItems: CLOSET, maxSuggestions: 50};
+
+    assert.equal((await post('/v1/wardrobe-gaps', invalid, {'X-User-Id': 'user-1'})).status, 400);
+    assert.equal((await post('/v1/wardrobe-gaps', invalid, {'X-User-Id': 'user-1'})).status, 400);
+    assert.equal((await post('/v1/outfit-visualization', {description: 'A red dress'}, {'X-User-Id': 'user-1'})).status, 200);
+  });
+
+  test('limits by client address without the X-User-Id header, whatever userId the input names', async () => {
+    const {post} = await startServer({rateLimits: {burst: 1}});
+    const request = (userId: string) => post('/v1/outfit-visualization', {description: 'A red dress', userId});
+
+    assert.equal((await request('user-1')).status, 200);
+    assert.equal((await request('user-2')).status, 429);
+  });
+
+  test('stops a user once the daily token quota is used up', async () => {
+    mockModelController.enqueue('text', {output: modelClothingItem()});
+    const {post} = await startServer({rateLimits: {dailyTokenQuota: 100}});
+    const photo = await createTestPhoto();
+
+    assert.equal((await post('/v1/analyze-item', {photoDataUri: photo, userId: 'user-1'})).status, 200);
+    const response = await post('/v1/analyze-item', {photoDataUri: photo, userId: 'user-1'});
+
+    assert.equal(response.status, 429);
+    assert.equal((await response.json()).error.code, 'QUOTA_EXCEEDED');
+    assert.equal(mockModelController.calls.length, 1);
+  });
+});
+
+describe('UserRateLimiter', () => {
+  test('drops the users of an earlier day once their bucket is full again', () => {
+    let now = Date.UTC(2026, 9, 19, 23, 59);
+    const limiter = new UserRateLimiter({burst: 1, requestsPerMinute: 1, now: () => now});
+    limiter.tryAcquire('user-1');
+    limiter.tryAcquire('user-2');
+
+    now += 2 * 60 * 1000;
+    limiter.tryAcquire('user-3');
+
+    assert.equal(limiter.size, 1);
+  });
+});
+
+describe('assets', () => {
+  test('serves the image behind an asset reference from the flow output', async () => {
+    mockModelController.enqueue('text', {output: modelClothingItem()});
+    const {url, post} = await startServer();
+    const {photoRef} = await (await post('/v1/analyze-item', {photoDataUri: await createTestPhoto()})).json();
+
+    const response = await fetch(`${url}/v1/assets/${photoRef.slice('asset://'.length)}`);
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type'), 'image/jpeg');
+    assert.ok((await response.arrayBuffer()).byteLength > 0);
+    assert.equal((await fetch(`${url}/v1/assets/unknown.jpg`)).status, 404);
+    assert.equal((await fetch(`${url}/v1/assets/%E0`)).status, 404);
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * @fileOverview A standalone HTTP API for the flows, for services and scripts that do not go through the web app.
+ *
+ * - `POST /v1/<command>` runs the flow of that route (see API_ROUTES) with the JSON body as input.
+ *   Streaming flows answer with newline-delimited JSON: a `{"chunk": ...}` line per chunk and a last
+ *   line with `{"result": ...}` or `{"error": ...}`.
+ * - `GET /v1/assets/<key>` serves an image from the image asset store, for the `asset://<key>` references in flow output.
+ *
+ * The server does not authenticate: it is meant to run behind a gateway that sets the X-User-Id header.
+ * Rate limits and daily quotas apply per header user; without the header they apply per client address,
+ * since a userId in the input is chosen by the caller. An input userId that differs from the header is
+ * rejected. Only requests with valid input count towards the limits.
+ * Request bodies are limited to maxBodyBytes and every data URI in them to MAX_UPLOAD_BYTES. Errors are
+ * returned as `{"error": {code, message, source}}`, with the message in the locale of the input or of
+ * the Accept-Language header. Every request is logged as one JSON line with its latency and token usage.
+ *
+ * - createApiServer - Creates the (not yet listening) HTTP server.
+ * - ApiServerOptions - The limits and the request log of the server.
+ * - RequestLogEntry - A structured request log line.
+ */
+
+import {randomUUID} from 'node:crypto';
+import {createServer, IncomingMessage, Server, ServerResponse} from 'node:http';
+import {ApiRoute, findApiRoute, getRouteAction, validateRouteInput} from '@/ai/api-routes';
+import {FlowError, FlowErrorCode} from '@/ai/errors';
+import {MAX_UPLOAD_BYTES, readImageAsset} from '@/ai/image-assets';
+import {DEFAULT_LOCALE, Locale, LOCALES, LocalizedText} from '@/ai/locale';
+import {RateLimitOptions, UserRateLimiter} from '@/ai/rate-limiter';
+import {createModelUsage, ModelUsage, trackUsage} from '@/ai/usage-meter';
+
+export interface ApiServerOptions {
+  /** The largest accepted request body. Defaults to 25 MB. */
+  maxBodyBytes?: number;
+  rateLimits?: RateLimitOptions;
+  /** Receives a log entry per request. Defaults to a JSON line on stdout. */
+  log?: (entry: RequestLogEntry) => void;
+}
+
+export interface RequestLogEntry {
+  time: string;
+  requestId: string;
+  method: string;
+  path: string;
+  /** The command of the flow route, if the path matched one. */
+  route?: string;
+  /** The X-User-Id header, or else the (unverified) userId of the input. */
+  userId?: string;
+  status: number;
+  latencyMs: number;
+  /** Only for flow requests; also set when the flow failed after calling the model. */
+  usage?: ModelUsage;
+  errorCode?: string;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+type ApiErrorCode = 'NOT_FOUND' | 'METHOD_NOT_ALLOWED' | 'INVALID_JSON' | 'PAYLOAD_TOO_LARGE' | 'FORBIDDEN' | 'RATE_LIMITED' | 'QUOTA_EXCEEDED';
+
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    readonly messages: LocalizedText,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(messages.nl);
+    this.name = 'ApiError';
+  }
+}
+
+const FLOW_ERROR_STATUSES: Record<FlowErrorCode, number> = {
+  INVALID_INPUT: 400,
+  INVALID_INPUT_IMAGE: 400,
+  RECORD_NOT_FOUND: 404,
+  MODEL_REFUSED: 422,
+  WEATHER_UNAVAILABLE: 422,
+  OUTPUT_VALIDATION_FAILED: 502,
+  EMPTY_OUTPUT: 502,
+  QUOTA_EXHAUSTED: 503,
+  SERVICE_UNAVAILABLE: 503,
+  // The client closed the connection; not an outage.
+  CANCELLED: 499,
+};
+
+const notFound = () => new ApiError(404, 'NOT_FOUND', {
+  nl: 'Deze route bestaat niet.',
+  en: 'This route does not exist.',
+  de: 'Diese Route existiert nicht.',
+});
+
+export function createApiServer(options: ApiServerOptions = {}): Server {
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const rateLimiter = new UserRateLimiter(options.rateLimits);
+  const log = options.log ?? (entry => console.log(JSON.stringify(entry)));
+
+  return createServer(async (req, res) => {
+    const startedAt = Date.now();
+    const requestId = headerValue(req, 'x-request-id') ?? randomUUID();
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const entry: Omit<RequestLogEntry, 'time' | 'status' | 'latencyMs'> = {requestId, method: req.method ?? 'GET', path};
+    let locale = localeFromHeader(req);
+    res.setHeader('X-Request-Id', requestId);
+    try {
+      if (path.startsWith('/v1/assets/')) {
+        await serveAsset(req, res, decodeAssetKey(path.slice('/v1/assets/'.length)));
+        return;
+      }
+      const route = path.startsWith('/v1/') ? findApiRoute(path.slice('/v1/'.length)) : undefined;
+      if (!route) {
+        throw notFound();
+      }
+      entry.route = route.command;
+      if (req.method !== 'POST') {
+        throw new ApiError(405, 'METHOD_NOT_ALLOWED', {
+          nl: 'Gebruik POST voor deze route.',
+          en: 'Use POST for this route.',
+          de: 'Verwende POST für diese Route.',
+        }, {Allow: 'POST'});
+      }
+      const input = await readJsonBody(req, maxBodyBytes);
+      locale = localeFromInput(input) ?? locale;
+      assertDataUriSizes(input, '');
+      const caller = resolveCaller(req, input);
+      entry.userId = caller.userId;
+      const validInput = await validateRouteInput(route, input);
+      const decision = rateLimiter.tryAcquire(caller.rateLimitKey);
+      if (!decision.allowed) {
+        throw decision.reason === 'rate_limited'
+          ? new ApiError(429, 'RATE_LIMITED', {
+            nl: `Te veel verzoeken. Probeer het over ${decision.retryAfterSeconds} seconden opnieuw.`,
+            en: `Too many requests. Try again in ${decision.retryAfterSeconds} seconds.`,
+            de: `Zu viele Anfragen. Versuche es in ${decision.retryAfterSeconds} Sekunden erneut.`,
+          }, {'Retry-After': String(decision.retryAfterSeconds)})
+          : new ApiError(429, 'QUOTA_EXCEEDED', {
+            nl: 'Het dagquotum voor deze gebruiker is op. Morgen kan het weer.',
+            en: 'The daily quota for this user has been used up. Try again tomorrow.',
+            de: 'Das Tageskontingent für diesen Benutzer ist aufgebraucht. Versuche es morgen erneut.',
+          }, {'Retry-After': String(decision.retryAfterSeconds)});
+      }
+      entry.usage = createModelUsage();
+      try {
+        await runFlow(route, validInput, res, entry.usage);
+      } finally {
+        rateLimiter.recordTokens(caller.rateLimitKey, entry.usage.totalTokens);
+      }
+    } catch (error) {
+      const {status, body, headers} = toErrorResponse(error, locale);
+      entry.errorCode = body.error.code;
+      if (status === 500) {
+        console.error(`Onverwachte fout bij ${entry.method} ${path}:`, error);
+      }
+      if (res.headersSent) {
+        res.end(`${JSON.stringify(body)}\n`);
+      } else {
+        sendJson(res, status, body, headers);
+      }
+    } finally {
+      log({time: new Date(startedAt).toISOString(), ...entry, status: res.statusCode, latencyMs: Date.now() - startedAt});
+    }
+  });
+}
+
+async function runFlow(route: ApiRoute, input: unknown, res: ServerResponse, usage: ModelUsage): Promise<void> {
+  const action = await getRouteAction(route);
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+  if (!route.streaming) {
+    const {result} = await trackUsage(usage, () => action.run(input, {abortSignal: abort.signal}));
+    sendJson(res, 200, result);
+    return;
+  }
+  res.writeHead(200, {'Content-Type': 'application/x-ndjson; charset=utf-8'});
+  const {result} = await trackUsage(usage, () => action.run(input, {
+    abortSignal: abort.signal,
+    onChunk: chunk => res.write(`${JSON.stringify({chunk})}\n`),
+  }));
+  res.end(`${JSON.stringify({result})}\n`);
+}
+
+async function serveAsset(req: IncomingMessage, res: ServerResponse, key: string): Promise<void> {
+  if (req.method !== 'GET') {
+    throw new ApiError(405, 'METHOD_NOT_ALLOWED', {
+      nl: 'Gebruik GET voor afbeeldingen.',
+      en: 'Use GET for images.',
+      de: 'Verwende GET für Bilder.',
+    }, {Allow: 'GET'});
+  }
+  const asset = key ? await readImageAsset(`asset://${key}`) : undefined;
+  if (!asset) {
+    throw notFound();
+  }
+  // Keys are content hashes, so an asset never changes.
+  res.writeHead(200, {'Content-Type': asset.mimeType, 'Content-Length': asset.bytes.length, 'Cache-Control': 'public, max-age=31536000, immutable'});
+  res.end(asset.bytes);
+}
+
+const payloadTooLarge = (what: LocalizedText, maxBytes: number) => {
+  const megabytes = Math.round(maxBytes / 1024 / 1024);
+  return new ApiError(413, 'PAYLOAD_TOO_LARGE', {
+    nl: `${what.nl} is groter dan ${megabytes} MB.`,
+    en: `${what.en} is larger than ${megabytes} MB.`,
+    de: `${what.de} ist größer als ${megabytes} MB.`,
+  }, {Connection: 'close'});
+};
+
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const requestBody = {nl: 'De request body', en: 'The request body', de: 'Der Request-Body'};
+  if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+    req.resume();
+    throw payloadTooLarge(requestBody, maxBytes);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      req.resume();
+      throw payloadTooLarge(requestBody, maxBytes);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new ApiError(400, 'INVALID_JSON', {
+      nl: 'De request body is geen geldige JSON.',
+      en: 'The request body is not valid JSON.',
+      de: 'Der Request-Body ist kein gültiges JSON.',
+    });
+  }
+}
+
+/** Checks the decoded size of every data URI in the input; `path` is the field path for the message. */
+function assertDataUriSizes(value: unknown, path: string): void {
+  if (typeof value === 'string') {
+    const base64Length = value.startsWith('data:') ? value.length - value.indexOf(',') - 1 : 0;
+    if (base64Length * 3 / 4 > MAX_UPLOAD_BYTES) {
+      throw payloadTooLarge({nl: `De afbeelding in '${path}'`, en: `The image in '${path}'`, de: `Das Bild in '${path}'`}, MAX_UPLOAD_BYTES);
+    }
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      assertDataUriSizes(child, Array.isArray(value) ? `${path}[${key}]` : path ? `${path}.${key}` : key);
+    }
+  }
+}
+
+/** A malformed escape sequence cannot name an asset, so it becomes the empty (unknown) key. */
+function decodeAssetKey(encoded: string): string {
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    return '';
+  }
+}
+
+/** `userId` is logged; `rateLimitKey` only trusts the gateway header, and otherwise uses the client address. */
+function resolveCaller(req: IncomingMessage, input: unknown): {userId?: string; rateLimitKey: string} {
+  const headerUserId = headerValue(req, 'x-user-id');
+  const inputUserId = input && typeof input === 'object' && 'userId' in input && typeof input.userId === 'string' ? input.userId : undefined;
+  if (headerUserId && inputUserId && headerUserId !== inputUserId) {
+    throw new ApiError(403, 'FORBIDDEN', {
+      nl: 'De userId in de invoer hoort niet bij de aangemelde gebruiker.',
+      en: 'The userId in the input does not belong to the signed-in user.',
+      de: 'Die userId in der Eingabe gehört nicht zum angemeldeten Benutzer.',
+    });
+  }
+  const address = `address:${req.socket.remoteAddress ?? 'unknown'}`;
+  return headerUserId ? {userId: headerUserId, rateLimitKey: `user:${headerUserId}`} : {userId: inputUserId, rateLimitKey: address};
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+function localeFromInput(input: unknown): Locale | undefined {
+  const locale = input && typeof input === 'object' && 'locale' in input ? input.locale : undefined;
+  return isLocale(locale) ? locale : undefined;
+}
+
+function localeFromHeader(req: IncomingMessage): Locale {
+  const languages = (req.headers['accept-language'] ?? '').split(',').map(tag => tag.trim().slice(0, 2).toLowerCase());
+  return languages.find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+function toErrorResponse(error: unknown, locale: Locale): {status: number; body: {error: {code: string; message: string; source?: string}}; headers?: Record<string, string>} {
+  if (error instanceof ApiError) {
+    return {status: error.status, body: {error: {code: error.code, message: error.messages[locale]}}, headers: error.headers};
+  }
+  if (error instanceof FlowError) {
+    return {status: FLOW_ERROR_STATUSES[error.code], body: {error: {code: error.code, message: error.getLocalizedMessage(locale), source: error.source}}};
+  }
+  // Genkit rejects input that does not match the flow's input schema with INVALID_ARGUMENT.
+  if (error && typeof error === 'object' && (error as {status?: unknown}).status === 'INVALID_ARGUMENT') {
+    return {status: 400, body: {error: {code: 'INVALID_INPUT', message: (error as Error).message}}};
+  }
+  const internal = {
+    nl: 'Er ging iets mis op de server.',
+    en: 'Something went wrong on the server.',
+    de: 'Auf dem Server ist etwas schiefgelaufen.',
+  };
+  return {status: 500, body: {error: {code: 'INTERNAL', message: internal[locale]}}};
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  const json = JSON.stringify(body);
+  res.writeHead(status, {...headers, 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(json)});
+  res.end(json);
+}
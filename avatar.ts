@@ -0,0 +1,99 @@
+/**
+ * @fileOverview The avatar in which outfits are visualized, so every visualization shows the same person.
+ *
+ * An avatar combines what the caller sends, the avatar saved for the user and the characteristics from the
+ * user's latest colour analysis, in that order of precedence. A reference photo, when available, is sent to
+ * the image model along with the description.
+ *
+ * - AVATAR_POSES - The supported poses and how they are described to the image model.
+ * - AvatarSchema - Body type, skin tone, hair and eye colour, pose and an optional reference photo.
+ * - saveAvatar - Stores a user's avatar, with the reference photo in the image asset store.
+ * - resolveAvatar - Returns the avatar for a flow input, or undefined when nothing is known.
+ * - describeAvatarForPrompt - The avatar as lines for an image prompt.
+ */
+
+import {z} from 'genkit';
+import {ingestImage, IngestedImage} from '@/ai/image-assets';
+import {UNDETERMINED_LABELS} from '@/ai/seasonal-palettes';
+import {getWardrobeRepository, StoredAvatar} from '@/ai/wardrobe-store';
+
+export const AVATAR_POSES = {
+  standing_front: 'standing upright and facing the camera, arms relaxed, the full body visible from head to toe',
+  standing_three_quarter: 'standing in a three-quarter view, one hand in a pocket or on the hip, the full body visible from head to toe',
+  walking: 'walking towards the camera in mid-stride, the full body visible from head to toe',
+} as const;
+export type AvatarPose = keyof typeof AVATAR_POSES;
+
+/** Used when no pose is given, so visualizations of different outfits are comparable. */
+const DEFAULT_POSE: AvatarPose = 'standing_front';
+
+export const AvatarSchema = z.object({
+  bodyType: z.string().optional().describe('The body type, e.g. apple, pear, hourglass, rectangle (as in generateOutfitInspiration).'),
+  skinTone: z.string().optional().describe('Defaults to the skin tone from the latest colour analysis.'),
+  hairColor: z.string().optional().describe('Defaults to the hair colour from the latest colour analysis.'),
+  eyeColor: z.string().optional().describe('Defaults to the eye colour from the latest colour analysis.'),
+  pose: z.enum(Object.keys(AVATAR_POSES) as [AvatarPose, ...AvatarPose[]]).optional().describe(`Defaults to '${DEFAULT_POSE}'.`),
+  referencePhotoUrl: z
+    .string()
+    .optional()
+    .describe("A photo of the person, as an image asset reference ('asset://<key>') or a data URI. A full-body photo gives the most consistent result."),
+});
+export type Avatar = z.infer<typeof AvatarSchema>;
+
+export interface ResolvedAvatar {
+  avatar: Avatar & {pose: AvatarPose};
+  referencePhoto?: IngestedImage;
+}
+
+// The colour analysis uses the 'undetermined' label of its locale for characteristics it could not see.
+const UNDETERMINED = Object.values(UNDETERMINED_LABELS).map(label => label.toLowerCase());
+
+function definedFields<T extends object>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(Object.entries(value ?? {}).filter(([, field]) => field !== undefined && field !== '')) as Partial<T>;
+}
+
+export async function saveAvatar(userId: string, avatar: Avatar): Promise<StoredAvatar> {
+  const referencePhoto = avatar.referencePhotoUrl
+    ? await ingestImage('avatar', 'referencePhotoUrl', avatar.referencePhotoUrl)
+    : undefined;
+  return getWardrobeRepository().saveAvatar(userId, {...definedFields(avatar), referencePhotoUrl: referencePhoto?.ref});
+}
+
+/**
+ * Merges the avatar sent with a flow input over the user's saved avatar and colour analysis. Returns
+ * undefined when none of them says anything about the person, so the model may render anyone.
+ */
+export async function resolveAvatar(
+  source: string,
+  input: {avatar?: Avatar; userId?: string}
+): Promise<ResolvedAvatar | undefined> {
+  const repository = getWardrobeRepository();
+  const [stored, colorAnalysis] = input.userId
+    ? await Promise.all([repository.getAvatar(input.userId), repository.getLatestColorAnalysis(input.userId)])
+    : [undefined, undefined];
+
+  const fromColorAnalysis = Object.fromEntries(
+    Object.entries(colorAnalysis?.analysis.characteristics ?? {}).filter(([, value]) => !UNDETERMINED.includes(value.trim().toLowerCase()))
+  ) as Pick<Avatar, 'skinTone' | 'hairColor' | 'eyeColor'>;
+  const merged: Avatar = {...definedFields(fromColorAnalysis), ...definedFields(stored?.avatar), ...definedFields(input.avatar)};
+  if (Object.keys(merged).length === 0) {
+    return undefined;
+  }
+
+  const photoField = input.avatar?.referencePhotoUrl ? 'avatar.referencePhotoUrl' : 'userId';
+  return {
+    avatar: {...merged, pose: merged.pose ?? DEFAULT_POSE},
+    referencePhoto: merged.referencePhotoUrl ? await ingestImage(source, photoField, merged.referencePhotoUrl) : undefined,
+  };
+}
+
+export function describeAvatarForPrompt({avatar}: ResolvedAvatar): string {
+  const lines = [
+    avatar.bodyType && `Body type: ${avatar.bodyType}`,
+    avatar.skinTone && `Skin tone: ${avatar.skinTone}`,
+    avatar.hairColor && `Hair: ${avatar.hairColor}`,
+    avatar.eyeColor && `Eyes: ${avatar.eyeColor}`,
+    `Pose: ${AVATAR_POSES[avatar.pose]}`,
+  ];
+  return lines.filter(Boolean).join('\n');
+}
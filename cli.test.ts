@@ -0,0 +1,67 @@
+/**
+ * @fileOverview Tests for the command-line interface: photo arguments, extra input and exit codes.
+ *
+ * Run with `npx tsx --test *.test.ts`.
+ */
+
+import {createTestPhoto, modelClothingItem, resetTestState} from '@/ai/test-support';
+import assert from 'node:assert/strict';
+import {mkdtempSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {beforeEach, describe, mock, test} from 'node:test';
+import {runCli} from '@/ai/cli';
+import {mockModelController} from '@/ai/mock-model';
+
+const photoDir = mkdtempSync(join(tmpdir(), 'colorme-cli-'));
+
+async function writePhoto(name: string): Promise<string> {
+  const dataUri = await createTestPhoto();
+  const path = join(photoDir, name);
+  writeFileSync(path, Buffer.from(dataUri.slice(dataUri.indexOf(',') + 1), 'base64'));
+  return path;
+}
+
+/** Runs the CLI and returns its exit code and what it printed on stdout and stderr. */
+async function run(args: string[]) {
+  const stdout = mock.method(console, 'log', () => {});
+  const stderr = mock.method(console, 'error', () => {});
+  try {
+    const exitCode = await runCli(args);
+    const printed = (calls: typeof stdout.mock.calls) => calls.map(call => call.arguments.join(' ')).join('\n');
+    return {exitCode, stdout: printed(stdout.mock.calls), stderr: printed(stderr.mock.calls)};
+  } finally {
+    stdout.mock.restore();
+    stderr.mock.restore();
+  }
+}
+
+beforeEach(resetTestState);
+
+describe('colorme <command>', () => {
+  test('analyze-item sends the photo file with the other options and prints the result', async () => {
+    mockModelController.enqueue('text', {output: modelClothingItem({itemName: 'Dunkle Jeans'})});
+
+    const {exitCode, stdout, stderr} = await run(['analyze-item', await writePhoto('jeans.jpg'), '--locale', 'de', '--verbose']);
+
+    assert.equal(exitCode, 0);
+    assert.equal(JSON.parse(stdout).itemName, 'Dunkle Jeans');
+    assert.match(mockModelController.calls[0].prompt, /German/);
+    assert.equal(mockModelController.calls[0].mediaCount, 1);
+    assert.match(stderr, /1 modelaanroep\(en\)/);
+  });
+
+  test('exits with 2 for input the flow does not accept', async () => {
+    const {exitCode, stderr} = await run(['wardrobe-gaps', '--json', '{"maxSuggestions": 50}']);
+
+    assert.equal(exitCode, 2);
+    assert.match(stderr, /^INVALID_INPUT: /);
+    assert.equal(mockModelController.calls.length, 0);
+  });
+
+  test('exits with 2 for an unknown command or photos for a command without photo', async () => {
+    assert.equal((await run(['analyse'])).exitCode, 2);
+    assert.equal((await run(['packing-list', await writePhoto('extra.jpg')])).exitCode, 2);
+    assert.equal((await run(['help'])).exitCode, 0);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @fileOverview Command-line access to the flows and the HTTP API, e.g. `colorme analyze-item photo.jpg`
+ * or `colorme color-analysis selfie.jpg --locale en`.
+ *
+ * Run with `npx tsx cli.ts <command> [photo ...] [options]`. The commands are those of API_ROUTES;
+ * photo files fill the route's photo field and the other input comes from `--input <file.json>`,
+ * `--json '<json>'`, `--user` and `--locale`. The input is validated with the flow's input schema. The
+ * result is printed as JSON on stdout (for streaming flows one line per chunk, then the result); with
+ * `--verbose` the model calls, tokens and duration follow on stderr. `colorme serve [--port 3400]`
+ * starts the HTTP API of api-server.ts. Exit code 1 means the flow failed, 2 that the command or its
+ * input was invalid.
+ *
+ * - runCli - Runs a command with its arguments and returns the exit code.
+ */
+
+import 'dotenv/config';
+import {readFile} from 'node:fs/promises';
+import {extname} from 'node:path';
+import {parseArgs} from 'node:util';
+import {API_ROUTES, ApiRoute, findApiRoute, getRouteAction, validateRouteInput} from '@/ai/api-routes';
+import {createApiServer} from '@/ai/api-server';
+import {FlowError} from '@/ai/errors';
+import {DEFAULT_LOCALE, Locale, LOCALES} from '@/ai/locale';
+import {createModelUsage, trackUsage} from '@/ai/usage-meter';
+
+const PHOTO_MIME_TYPES: Record<string, string> = {'.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png', '.webp': 'image/webp'};
+
+const DEFAULT_PORT = 3400;
+
+const USAGE = `Gebruik: colorme <command> [foto ...] [--input bestand.json] [--json '{...}'] [--user id] [--locale nl|en|de] [--verbose]
+       colorme serve [--port ${DEFAULT_PORT}] [--host 127.0.0.1] [--requests-per-minute 30] [--daily-requests 500] [--daily-tokens 500000]
+
+Commands:
+${API_ROUTES.map(route => `  ${route.command.padEnd(26)}${route.description}`).join('\n')}`;
+
+class CliUsageError extends Error {}
+
+async function loadPhoto(file: string): Promise<string> {
+  const mimeType = PHOTO_MIME_TYPES[extname(file).toLowerCase()];
+  if (!mimeType) {
+    throw new CliUsageError(`${file} is geen JPEG-, PNG- of WebP-bestand.`);
+  }
+  return `data:${mimeType};base64,${(await readFile(file)).toString('base64')}`;
+}
+
+async function buildInput(route: ApiRoute, photos: string[], values: {input?: string; json?: string; user?: string; locale?: string}): Promise<Record<string, unknown>> {
+  const input: Record<string, unknown> = {
+    ...values.input ? JSON.parse(await readFile(values.input, 'utf8')) : {},
+    ...values.json ? JSON.parse(values.json) : {},
+  };
+  if (photos.length > 0) {
+    if (!route.photoField) {
+      throw new CliUsageError(`${route.command} neemt geen foto's.`);
+    }
+    if (photos.length > 1 && !route.multiplePhotos) {
+      throw new CliUsageError(`${route.command} neemt één foto.`);
+    }
+    const dataUris = await Promise.all(photos.map(loadPhoto));
+    input[route.photoField] = route.multiplePhotos ? dataUris : dataUris[0];
+  }
+  if (values.user) {
+    input.userId = values.user;
+  }
+  if (values.locale) {
+    input.locale = values.locale;
+  }
+  return input;
+}
+
+async function runFlowCommand(route: ApiRoute, args: string[]): Promise<number> {
+  const {values, positionals} = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      input: {type: 'string'},
+      json: {type: 'string'},
+      user: {type: 'string'},
+      locale: {type: 'string'},
+      verbose: {type: 'boolean', default: false},
+    },
+  });
+  const locale: Locale = LOCALES.includes(values.locale as Locale) ? values.locale as Locale : DEFAULT_LOCALE;
+  const startedAt = Date.now();
+  const usage = createModelUsage();
+  try {
+    const input = await validateRouteInput(route, await buildInput(route, positionals, values));
+    const action = await getRouteAction(route);
+    const {result} = await trackUsage(usage, () => action.run(input, route.streaming ? {onChunk: chunk => console.log(JSON.stringify({chunk}))} : {}));
+    console.log(JSON.stringify(route.streaming ? {result} : result, null, route.streaming ? undefined : 2));
+    return 0;
+  } catch (error) {
+    if (error instanceof CliUsageError || error instanceof SyntaxError || (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      console.error((error as Error).message);
+      return 2;
+    }
+    if (error instanceof FlowError) {
+      console.error(`${error.code}: ${error.getLocalizedMessage(locale)}`);
+      return error.code === 'INVALID_INPUT' || error.code === 'INVALID_INPUT_IMAGE' ? 2 : 1;
+    }
+    console.error(error);
+    return 1;
+  } finally {
+    if (values.verbose) {
+      console.error(`${usage.modelCalls} modelaanroep(en), ${usage.inputTokens} + ${usage.outputTokens} tokens, ${Date.now() - startedAt} ms`);
+    }
+  }
+}
+
+function serve(args: string[]): number {
+  const {values} = parseArgs({
+    args,
+    options: {
+      port: {type: 'string', default: String(DEFAULT_PORT)},
+      host: {type: 'string', default: '127.0.0.1'},
+      'requests-per-minute': {type: 'string'},
+      'daily-requests': {type: 'string'},
+      'daily-tokens': {type: 'string'},
+    },
+  });
+  const optionalNumber = (value: string | undefined) => value === undefined ? undefined : Number(value);
+  const server = createApiServer({
+    rateLimits: {
+      requestsPerMinute: optionalNumber(values['requests-per-minute']),
+      dailyRequestQuota: optionalNumber(values['daily-requests']),
+      dailyTokenQuota: optionalNumber(values['daily-tokens']),
+    },
+  });
+  server.listen(Number(values.port), values.host, () => {
+    console.error(`ColorME API luistert op http://${values.host}:${values.port}/v1/`);
+  });
+  return 0;
+}
+
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  try {
+    if (command === 'serve') {
+      return serve(args);
+    }
+    const route = command ? findApiRoute(command) : undefined;
+    if (!route) {
+      console.error(command && command !== 'help' ? `Onbekend command: ${command}\n\n${USAGE}` : USAGE);
+      return command && command !== 'help' ? 2 : 0;
+    }
+    return await runFlowCommand(route, args);
+  } catch (error) {
+    // parseArgs rejects unknown options and missing option values.
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(exitCode => {
+    process.exitCode = exitCode;
+  });
+}
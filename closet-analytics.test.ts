@@ -0,0 +1,28 @@
+/**
+ * @fileOverview Tests for the closet analytics: the underused items preferred by the outfit flows.
+ *
+ * Run with `npx tsx --test *.test.ts`.
+ */
+
+import {CLOSET} from '@/ai/test-support';
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {findUnderusedItemIds} from '@/ai/closet-analytics';
+import type {WearStats} from '@/ai/wear-log';
+
+const wornTimes = (...counts: number[]) =>
+  new Map<string, WearStats>(CLOSET.map((item, index) => [item.id, {wearCount: counts[index] ?? 0, lastWornOn: '2026-05-01'}]));
+
+describe('findUnderusedItemIds', () => {
+  test('returns the items worn less often than the median, least worn first', () => {
+    assert.deepEqual(findUnderusedItemIds(CLOSET, wornTimes(5, 1, 6, 2, 7, 8, 9)), ['blue-blouse', 'black-trousers', 'white-tee']);
+  });
+
+  test('returns the never-worn items when most of the closet was never worn', () => {
+    assert.deepEqual(findUnderusedItemIds(CLOSET, wornTimes(0, 0, 0, 0, 3, 4, 5)), ['white-tee', 'blue-blouse', 'navy-jeans', 'black-trousers']);
+  });
+
+  test('returns nothing when every item is worn equally often', () => {
+    assert.deepEqual(findUnderusedItemIds(CLOSET, wornTimes(2, 2, 2, 2, 2, 2, 2)), []);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @fileOverview Closet analytics computed locally from the wardrobe store and the wear log.
+ *
+ * - analyzeCloset - Cost-per-wear, never-worn items, colour and style distributions and season fit for a user.
+ * - findUnderusedItemIds - The closet items that are worn least, least worn first.
+ * - ClosetAnalyticsSchema - The result of analyzeCloset.
+ * - ClosetAnalytics - The type of that result.
+ */
+
+import {z} from 'genkit';
+import type {ClosetItem} from '@/ai/closet-item';
+import {scoreColorCompatibility} from '@/ai/color-compatibility';
+import {SeasonTypeSchema} from '@/ai/seasonal-palettes';
+import {getWardrobeRepository} from '@/ai/wardrobe-store';
+import {summarizeWearLog, WearStats} from '@/ai/wear-log';
+
+const DistributionEntrySchema = z.object({
+  label: z.string(),
+  count: z.number().int(),
+  percentage: z.number().min(0).max(100),
+});
+
+export const ClosetAnalyticsSchema = z.object({
+  itemCount: z.number().int(),
+  totalWears: z.number().int().describe('The number of item wears in the log (one item on one day counts as one).'),
+  items: z.array(
+    z.object({
+      itemId: z.string(),
+      itemName: z.string(),
+      wearCount: z.number().int(),
+      lastWornOn: z.string().optional(),
+      purchasePrice: z.number().optional(),
+      costPerWear: z.number().optional().describe('purchasePrice / wearCount, rounded to cents. Omitted without a price or when never worn.'),
+    })
+  ).describe('Per item, most worn first.'),
+  neverWornItemIds: z.array(z.string()),
+  colorDistribution: z.array(DistributionEntrySchema).describe('Items per itemColor, most common first.'),
+  styleDistribution: z.array(DistributionEntrySchema).describe('Items per itemStyle code, most common first.'),
+  seasonFit: z.object({
+    seasonType: SeasonTypeSchema,
+    fittingPercentage: z.number().min(0).max(100).describe("The share of the closet whose colour fits the season (verdict 'fits')."),
+    avoidPercentage: z.number().min(0).max(100).describe("The share of the closet in colours the season should avoid."),
+  }).nullable().describe('Null when the user has no stored colour analysis.'),
+});
+export type ClosetAnalytics = z.infer<typeof ClosetAnalyticsSchema>;
+
+function percentage(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 100);
+}
+
+// Labels from the model differ in case and spacing ('Casual' vs 'casual '); the first spelling wins.
+function distribution(labels: string[]): z.infer<typeof DistributionEntrySchema>[] {
+  const counts = new Map<string, {label: string; count: number}>();
+  for (const label of labels) {
+    const key = label.trim().toLowerCase();
+    const entry = counts.get(key) ?? {label: label.trim(), count: 0};
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return Array.from(counts.values())
+    .map(entry => ({...entry, percentage: percentage(entry.count, labels.length)}))
+    .sort((a, b) => b.count - a.count);
+}
+
+export async function analyzeCloset(userId: string): Promise<ClosetAnalytics> {
+  const repository = getWardrobeRepository();
+  const [items, wearLog, colorAnalysis] = await Promise.all([
+    repository.listItems(userId),
+    repository.listWearLog(userId),
+    repository.getLatestColorAnalysis(userId),
+  ]);
+  const stats = summarizeWearLog(wearLog);
+
+  const itemStats = items
+    .map(item => {
+      const {wearCount = 0, lastWornOn} = stats.get(item.id) ?? {};
+      return {
+        itemId: item.id,
+        itemName: item.itemName,
+        wearCount,
+        lastWornOn,
+        purchasePrice: item.purchasePrice,
+        costPerWear: item.purchasePrice !== undefined && wearCount > 0
+          ? Math.round((item.purchasePrice / wearCount) * 100) / 100
+          : undefined,
+      };
+    })
+    .sort((a, b) => b.wearCount - a.wearCount);
+
+  let seasonFit: ClosetAnalytics['seasonFit'] = null;
+  if (colorAnalysis) {
+    const verdicts = items.map(item => scoreColorCompatibility(item, colorAnalysis.analysis).verdict);
+    seasonFit = {
+      seasonType: colorAnalysis.analysis.seasonType,
+      fittingPercentage: percentage(verdicts.filter(verdict => verdict === 'fits').length, items.length),
+      avoidPercentage: percentage(verdicts.filter(verdict => verdict === 'avoid').length, items.length),
+    };
+  }
+
+  return {
+    itemCount: items.length,
+    totalWears: itemStats.reduce((total, item) => total + item.wearCount, 0),
+    items: itemStats,
+    neverWornItemIds: itemStats.filter(item => item.wearCount === 0).map(item => item.itemId),
+    colorDistribution: distribution(items.map(item => item.itemColor)),
+    styleDistribution: distribution(items.map(item => item.itemStyle)),
+    seasonFit,
+  };
+}
+
+/**
+ * Returns the never-worn items and the items worn less often than the closet's median item, least
+ * worn (and longest ago) first. Never-worn items count even when most of the closet was never worn
+ * and the median is 0. When all items are worn equally often there is nothing to prefer and the
+ * result is empty.
+ */
+export function findUnderusedItemIds(closetItems: ClosetItem[], stats: Map<string, WearStats>): string[] {
+  const withStats = closetItems.map(item => ({id: item.id, wearCount: 0, lastWornOn: '', ...stats.get(item.id)}));
+  const counts = withStats.map(item => item.wearCount).sort((a, b) => a - b);
+  if (counts[0] === counts.at(-1)) {
+    return [];
+  }
+  const median = counts[Math.floor(counts.length / 2)];
+  return withStats
+    .filter(item => item.wearCount === 0 || item.wearCount < median)
+    .sort((a, b) => a.wearCount - b.wearCount || (a.lastWornOn ?? '').localeCompare(b.lastWornOn ?? ''))
+    .map(item => item.id);
+}
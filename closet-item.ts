@@ -0,0 +1,105 @@
+/**
+ * @fileOverview Shared closet item model used by the clothing analysis and outfit flows.
+ *
+ * - ClothingItemAnalysisSchema - The structured attributes returned by analyzeClothingItem. itemType and itemStyle
+ *   are canonical codes (see item-vocabulary); name, colour and description are in the language of the request.
+ * - CLOTHING_ITEM_ATTRIBUTE_GUIDANCE - Prompt instructions for those attributes.
+ * - ClosetItemSchema - A clothing item analysis with a stable id, as stored in the user's closet.
+ * - createClosetItem - Creates a ClosetItem from an analyzeClothingItem result.
+ * - filterKnownItemIds - Keeps only the item ids that exist in the given closet.
+ * - getItemCategory - Maps an itemType code, or a free-text item type, onto a coarse garment category (top, bottom, footwear, ...).
+ * - ITEM_CATEGORY_LABELS - Display labels for those categories.
+ * - normalizeItemType - Maps a code or a label in any language onto an itemType code.
+ */
+
+import {z} from 'genkit';
+import {findItemTypeByLabel, isItemType, ITEM_STYLES, ITEM_TYPES, ItemStyleSchema, ItemType, ItemTypeSchema} from '@/ai/item-vocabulary';
+import type {LocalizedText} from '@/ai/locale';
+
+export const ClothingItemAnalysisSchema = z.object({
+  itemName: z.string().describe('A suggested name for the clothing item. Example: "Blue cotton T-shirt", "Gold necklace"'),
+  itemType: ItemTypeSchema.describe("The type of clothing item, as a language-neutral code. Use the most specific code that fits, e.g. 'long_sleeve_t_shirt' rather than 't_shirt', 'necklace' rather than 'jewellery'."),
+  itemColor: z.string().describe('The primary color of the clothing item. Example: "Navy blue", "Gold"'),
+  itemColorHex: z.string().regex(/^#[0-9A-F]{6}$/i, 'Moet een geldige hex-kleurcode zijn (bijv. #1F2A44).').describe('The dominant color of the clothing item as a hex code, matching itemColor. Example: "#1F2A44"'),
+  itemStyle: ItemStyleSchema.describe("The style of the clothing item, as a language-neutral code, e.g. 'casual', 'business', 'bohemian', 'edgy', 'elegant'."),
+  fullDescription: z.string().describe('A concise description of the clothing item including its characteristics, suitable for notes.'),
+});
+export type ClothingItemAnalysis = z.infer<typeof ClothingItemAnalysisSchema>;
+
+/** Prompt instructions for the itemType, itemStyle and fullDescription attributes, shared by the clothing analysis prompts. */
+export const CLOTHING_ITEM_ATTRIBUTE_GUIDANCE = `For itemType, use exactly one of these codes (the English name follows the code):
+${Object.entries(ITEM_TYPES).map(([code, {labels}]) => `- ${code}: ${labels.en}`).join('\n')}
+Be specific: for tops, pick the exact kind of top; for jewellery and headwear, only use 'jewellery' or 'headwear' when the specific kind is unclear.
+
+For itemStyle, use exactly one of these codes: ${Object.keys(ITEM_STYLES).join(', ')}.
+The fullDescription should be suitable for a notes field in a digital closet app.`;
+
+export const ClosetItemSchema = ClothingItemAnalysisSchema.extend({
+  id: z.string().min(1).describe('A stable identifier for the item in the closet. Outfit suggestions refer to items by this id.'),
+});
+export type ClosetItem = z.infer<typeof ClosetItemSchema>;
+
+export function createClosetItem(analysis: ClothingItemAnalysis, id: string = crypto.randomUUID()): ClosetItem {
+  return {id, ...ClothingItemAnalysisSchema.parse(analysis)};
+}
+
+/**
+ * The model may echo ids that are not in the closet (typos, invented items).
+ * Only ids that actually exist are returned, in their original order and without duplicates.
+ */
+export function filterKnownItemIds(itemIds: string[] | undefined, closetItems: ClosetItem[]): string[] {
+  const knownIds = new Set(closetItems.map(item => item.id));
+  return Array.from(new Set(itemIds ?? [])).filter(id => knownIds.has(id));
+}
+
+export type ItemCategory = 'top' | 'bottom' | 'onePiece' | 'outerwear' | 'footwear' | 'accessory';
+
+export const ITEM_CATEGORY_LABELS: Record<ItemCategory, LocalizedText> = {
+  top: {nl: 'Bovenstuk', en: 'Top', de: 'Oberteil'},
+  bottom: {nl: 'Broek of rok', en: 'Trousers or skirt', de: 'Hose oder Rock'},
+  onePiece: {nl: 'Jurk of jumpsuit', en: 'Dress or jumpsuit', de: 'Kleid oder Jumpsuit'},
+  outerwear: {nl: 'Jas', en: 'Jacket', de: 'Jacke'},
+  footwear: {nl: 'Schoenen', en: 'Shoes', de: 'Schuhe'},
+  accessory: {nl: 'Accessoire', en: 'Accessory', de: 'Accessoire'},
+};
+
+// For free-text item types (shopping lists, items stored before the codes). Checked in order:
+// 'Bodywarmer' must match outerwear before 'Body' matches a top.
+const ITEM_CATEGORY_KEYWORDS: Array<[ItemCategory, string[]]> = [
+  ['outerwear', ['jas', 'jack', 'coat', 'blazer', 'colbert', 'mantel', 'parka', 'trenchcoat', 'bodywarmer', 'gilet', 'poncho']],
+  ['onePiece', ['jurk', 'dress', 'kleid', 'jumpsuit', 'overall', 'playsuit']],
+  ['footwear', ['schoen', 'shoe', 'schuh', 'sneaker', 'laars', 'laarzen', 'boot', 'stiefel', 'sandaal', 'sandal', 'pump', 'slipper', 'loafer', 'instapper', 'espadrille']],
+  ['bottom', ['jeans', 'broek', 'trouser', 'hose', 'rok', 'skirt', 'short', 'legging', 'pantalon', 'chino']],
+  ['top', ['shirt', 'polo', 'top', 'hemd', 'blouse', 'bluse', 'sweater', 'hoodie', 'trui', 'jumper', 'pullover', 'cardigan', 'spencer', 'body', 'vest', 'coltrui', 'tuniek']],
+];
+
+export function getItemCategory(itemType: string): ItemCategory {
+  if (isItemType(itemType)) {
+    return ITEM_TYPES[itemType].category;
+  }
+  const normalized = itemType.trim().toLowerCase();
+  for (const [category, keywords] of ITEM_CATEGORY_KEYWORDS) {
+    if (keywords.some(keyword => normalized.includes(keyword))) {
+      return category;
+    }
+  }
+  return 'accessory';
+}
+
+/** The fallback per category for labels that match no item type exactly. */
+const CATEGORY_DEFAULT_TYPES: Record<ItemCategory, ItemType> = {
+  top: 'top',
+  bottom: 'trousers',
+  onePiece: 'dress',
+  outerwear: 'jacket',
+  footwear: 'shoes',
+  accessory: 'accessory',
+};
+
+/** E.g. 'Trui' and 'Pullover' become 'jumper'; an unknown label like 'Spijkerjasje' the default of its category. */
+export function normalizeItemType(value: string): ItemType {
+  if (isItemType(value)) {
+    return value;
+  }
+  return findItemTypeByLabel(value) ?? CATEGORY_DEFAULT_TYPES[getItemCategory(value)];
+}
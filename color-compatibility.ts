@@ -0,0 +1,129 @@
+/**
+ * @fileOverview Local garment-vs-season colour compatibility scoring.
+ *
+ * Connects the dominant colour of a closet item (analyzeClothingItem) to a stored colour analysis
+ * (performColorAnalysis) using the CIEDE2000 colour distance. No model call is involved.
+ *
+ * - COLOR_VERDICTS - The language-neutral verdict codes with their labels.
+ * - scoreColorCompatibility - Scores a closet item against a colour-analysis result, explained in a locale.
+ * - ColorCompatibilitySchema - The result of scoreColorCompatibility.
+ * - ColorCompatibility - The type of that result.
+ */
+
+import {z} from 'genkit';
+import type {ClosetItem} from '@/ai/closet-item';
+import {colorDistance} from '@/ai/color-science';
+import type {PerformColorAnalysisOutput} from '@/ai/flows/perform-color-analysis-flow';
+import {DEFAULT_LOCALE, Locale, LocalizedText} from '@/ai/locale';
+import {getSeasonLabel} from '@/ai/seasonal-palettes';
+
+/** Below this distance a garment colour counts as (nearly) the same colour as a palette colour. */
+const MATCH_DISTANCE = 12;
+/** The distance at which the score drops to 0. */
+const MAX_SCORED_DISTANCE = 50;
+
+export const COLOR_VERDICTS = {
+  fits: {nl: 'Past goed', en: 'Fits well', de: 'Passt gut'},
+  neutral: {nl: 'Neutraal', en: 'Neutral', de: 'Neutral'},
+  avoid: {nl: 'Vermijden', en: 'Avoid', de: 'Vermeiden'},
+} satisfies Record<string, LocalizedText>;
+
+const NearestColorSchema = z.object({
+  name: z.string(),
+  hex: z.string(),
+  distance: z.number().describe('The CIEDE2000 distance between the item colour and this colour.'),
+});
+
+export const ColorCompatibilitySchema = z.object({
+  score: z.number().min(0).max(100).describe('0 (clashes with the season) to 100 (exactly a recommended colour).'),
+  verdict: z.enum(['fits', 'neutral', 'avoid']).describe('The verdict as a language-neutral code.'),
+  verdictLabel: z.string().describe('The verdict in the requested locale, e.g. "Past goed".'),
+  nearestRecommended: NearestColorSchema.nullable(),
+  nearestAvoid: NearestColorSchema.nullable(),
+  explanation: z.string().describe('A short explanation of the verdict in the requested locale.'),
+});
+export type ColorCompatibility = z.infer<typeof ColorCompatibilitySchema>;
+
+type NearestColor = z.infer<typeof NearestColorSchema>;
+
+function findNearest(hex: string, colors: Array<{name: string; hex: string}>): NearestColor | null {
+  let nearest: NearestColor | null = null;
+  for (const color of colors) {
+    const distance = colorDistance(hex, color.hex);
+    if (!nearest || distance < nearest.distance) {
+      nearest = {name: color.name, hex: color.hex, distance: Math.round(distance * 10) / 10};
+    }
+  }
+  return nearest;
+}
+
+export function scoreColorCompatibility(
+  item: Pick<ClosetItem, 'itemColor' | 'itemColorHex'>,
+  analysis: Pick<PerformColorAnalysisOutput, 'seasonType' | 'recommendedColors' | 'avoidColors'>,
+  locale: Locale = DEFAULT_LOCALE
+): ColorCompatibility {
+  const season = getSeasonLabel(analysis.seasonType, locale);
+  const itemColor = item.itemColor;
+  const nearestRecommended = findNearest(item.itemColorHex, analysis.recommendedColors);
+  const nearestAvoid = findNearest(item.itemColorHex, analysis.avoidColors);
+
+  if (!nearestRecommended) {
+    return {
+      score: 50,
+      verdict: 'neutral',
+      verdictLabel: COLOR_VERDICTS.neutral[locale],
+      nearestRecommended: null,
+      nearestAvoid,
+      explanation: {
+        nl: `Er zijn geen aanbevolen kleuren voor seizoen '${season}', dus ${itemColor.toLowerCase()} kan niet beoordeeld worden.`,
+        en: `There are no recommended colours for season '${season}', so ${itemColor.toLowerCase()} cannot be rated.`,
+        de: `Für die Jahreszeit '${season}' gibt es keine empfohlenen Farben, daher kann ${itemColor} nicht bewertet werden.`,
+      }[locale],
+    };
+  }
+
+  const score = Math.round(Math.max(0, Math.min(100, 100 * (1 - nearestRecommended.distance / MAX_SCORED_DISTANCE))));
+
+  if (nearestAvoid && nearestAvoid.distance < MATCH_DISTANCE && nearestAvoid.distance < nearestRecommended.distance) {
+    return {
+      score: Math.min(score, 25),
+      verdict: 'avoid',
+      verdictLabel: COLOR_VERDICTS.avoid[locale],
+      nearestRecommended,
+      nearestAvoid,
+      explanation: {
+        nl: `${itemColor} ligt dicht bij ${nearestAvoid.name.toLowerCase()}, een kleur die ${season} beter kan vermijden.`,
+        en: `${itemColor} is close to ${nearestAvoid.name.toLowerCase()}, a colour ${season} should rather avoid.`,
+        de: `${itemColor} liegt nah an ${nearestAvoid.name}, einer Farbe, die ${season} besser meiden sollte.`,
+      }[locale],
+    };
+  }
+
+  if (nearestRecommended.distance < MATCH_DISTANCE) {
+    return {
+      score,
+      verdict: 'fits',
+      verdictLabel: COLOR_VERDICTS.fits[locale],
+      nearestRecommended,
+      nearestAvoid,
+      explanation: {
+        nl: `${itemColor} ligt dicht bij ${nearestRecommended.name.toLowerCase()}, een aanbevolen kleur voor ${season}.`,
+        en: `${itemColor} is close to ${nearestRecommended.name.toLowerCase()}, a recommended colour for ${season}.`,
+        de: `${itemColor} liegt nah an ${nearestRecommended.name}, einer empfohlenen Farbe für ${season}.`,
+      }[locale],
+    };
+  }
+
+  return {
+    score,
+    verdict: 'neutral',
+    verdictLabel: COLOR_VERDICTS.neutral[locale],
+    nearestRecommended,
+    nearestAvoid,
+    explanation: {
+      nl: `${itemColor} zit niet in het palet van ${season}; de dichtstbijzijnde aanbevolen kleur is ${nearestRecommended.name.toLowerCase()}.`,
+      en: `${itemColor} is not in the palette of ${season}; the nearest recommended colour is ${nearestRecommended.name.toLowerCase()}.`,
+      de: `${itemColor} ist nicht in der Palette von ${season}; die nächste empfohlene Farbe ist ${nearestRecommended.name}.`,
+    }[locale],
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * @fileOverview Local colour conversions and perceptual colour distance.
+ *
+ * - hexToRgb - Parses a '#RRGGBB' hex code.
+ * - rgbToLab - Converts sRGB to CIE L*a*b* (D65).
+ * - ciede2000 - The CIEDE2000 colour difference between two L*a*b* colours.
+ * - colorDistance - The CIEDE2000 difference between two hex colours.
+ */
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export function hexToRgb(hex: string): Rgb {
+  const match = hex.trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!match) {
+    throw new Error(`Ongeldige hex-kleurcode: '${hex}'.`);
+  }
+  const value = parseInt(match[1], 16);
+  return {r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff};
+}
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+export function rgbToLab({r, g, b}: Rgb): Lab {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  // sRGB -> XYZ, normalized to the D65 reference white.
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175;
+  const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / 1.08883;
+
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+  return {l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz)};
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * CIEDE2000 (Sharma, Wu & Dalal, 2005) with the parametric factors kL = kC = kH = 1.
+ * A difference below ~2 is barely perceptible, above ~10 the colours read as clearly different.
+ */
+export function ciede2000(lab1: Lab, lab2: Lab): number {
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cBar7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + Math.pow(25, 7))));
+
+  const a1 = (1 + g) * lab1.a;
+  const a2 = (1 + g) * lab2.a;
+  const c1p = Math.hypot(a1, lab1.b);
+  const c2p = Math.hypot(a2, lab2.b);
+  const hue = (a: number, b: number) => {
+    if (a === 0 && b === 0) {
+      return 0;
+    }
+    const h = toDegrees(Math.atan2(b, a));
+    return h >= 0 ? h : h + 360;
+  };
+  const h1p = hue(a1, lab1.b);
+  const h2p = hue(a2, lab2.b);
+
+  const deltaLp = lab2.l - lab1.l;
+  const deltaCp = c2p - c1p;
+  let deltahp = 0;
+  if (c1p * c2p !== 0) {
+    deltahp = h2p - h1p;
+    if (deltahp > 180) {
+      deltahp -= 360;
+    } else if (deltahp < -180) {
+      deltahp += 360;
+    }
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(deltahp / 2));
+
+  const lBarP = (lab1.l + lab2.l) / 2;
+  const cBarP = (c1p + c2p) / 2;
+  let hBarP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) {
+      hBarP = (h1p + h2p) / 2;
+    } else {
+      hBarP = h1p + h2p < 360 ? (h1p + h2p + 360) / 2 : (h1p + h2p - 360) / 2;
+    }
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(hBarP - 30)) +
+    0.24 * Math.cos(toRadians(2 * hBarP)) +
+    0.32 * Math.cos(toRadians(3 * hBarP + 6)) -
+    0.2 * Math.cos(toRadians(4 * hBarP - 63));
+  const deltaTheta = 30 * Math.exp(-Math.pow((hBarP - 275) / 25, 2));
+  const cBarP7 = Math.pow(cBarP, 7);
+  const rc = 2 * Math.sqrt(cBarP7 / (cBarP7 + Math.pow(25, 7)));
+  const sl = 1 + (0.015 * Math.pow(lBarP - 50, 2)) / Math.sqrt(20 + Math.pow(lBarP - 50, 2));
+  const sc = 1 + 0.045 * cBarP;
+  const sh = 1 + 0.015 * cBarP * t;
+  const rt = -Math.sin(toRadians(2 * deltaTheta)) * rc;
+
+  return Math.sqrt(
+    Math.pow(deltaLp / sl, 2) +
+      Math.pow(deltaCp / sc, 2) +
+      Math.pow(deltaHp / sh, 2) +
+      rt * (deltaCp / sc) * (deltaHp / sh)
+  );
+}
+
+export function colorDistance(hex1: string, hex2: string): number {
+  return ciede2000(rgbToLab(hexToRgb(hex1)), rgbToLab(hexToRgb(hex2)));
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileOverview Bounded-concurrency helpers for running several model calls at once.
+ *
+ * - mapSettledWithConcurrency - Maps over a list with at most `limit` tasks in flight, isolating failures.
+ */
+
+/**
+ * Like `Promise.allSettled(items.map(task))`, but never runs more than `limit` tasks at the same time.
+ * Results keep the order of `items`; a failing task never affects the others.
+ */
+export async function mapSettledWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = {status: 'fulfilled', value: await task(items[index], index)};
+      } catch (reason) {
+        results[index] = {status: 'rejected', reason};
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({length: workerCount}, worker));
+  return results;
+}
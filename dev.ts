@@ -4,7 +4,12 @@ config();
 
 import '@/ai/flows/generate-outfit-inspiration.ts';
 import '@/ai/flows/generate-outfit-suggestion.ts';
+import '@/ai/flows/generate-outfit-suggestion-stream-flow.ts';
+import '@/ai/flows/generate-outfit-plan-flow.ts';
+import '@/ai/flows/generate-packing-list-flow.ts';
+import '@/ai/flows/analyze-wardrobe-gaps-flow.ts';
 import '@/ai/flows/analyze-clothing-item-flow.ts';
+import '@/ai/flows/analyze-clothing-items-batch-flow.ts';
 import '@/ai/flows/generate-outfit-visualization-flow.ts';
 import '@/ai/flows/perform-color-analysis-flow.ts';
 
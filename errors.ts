@@ -0,0 +1,258 @@
+/**
+ * @fileOverview Typed, localized errors thrown by the Genkit flows.
+ *
+ * Every error carries a stable machine-readable `code` and its message in Dutch, English and German,
+ * so callers can branch on the code instead of pattern-matching message text.
+ *
+ * - FlowError - Base class of all flow errors.
+ * - OutputValidationError - The model output did not match the output schema.
+ * - ModelRefusalError - The model refused the request or the response was safety-blocked.
+ * - QuotaExhaustedError - The API quota or rate limit stayed exhausted after all retries.
+ * - InvalidInputImageError - An input image is missing, malformed or could not be processed.
+ * - EmptyOutputError - The model answered without usable output.
+ * - WeatherUnavailableError - No forecast could be found for the requested location and date.
+ * - InvalidInputError - A (non-image) input field is missing or inconsistent.
+ * - RecordNotFoundError - An item, outfit or colour analysis id does not exist in the wardrobe store.
+ * - assertImageDataUri - Validates an image data URI before it is sent to the model.
+ * - assertModelOutput - Turns a blocked or empty model response into the matching error, and records its token usage.
+ * - assertModelMedia - The same for image generation responses.
+ * - toFlowError - Maps an arbitrary error thrown inside a flow onto the taxonomy.
+ */
+
+import {GenerationBlockedError, GenerationUsage} from 'genkit';
+import {ValidationError} from 'genkit/schema';
+import {ZodError} from 'zod';
+import {DEFAULT_LOCALE, Locale, LocalizedText} from '@/ai/locale';
+import {recordModelUsage} from '@/ai/usage-meter';
+
+export type LocalizedMessages = LocalizedText;
+
+export type FlowErrorCode =
+  | 'OUTPUT_VALIDATION_FAILED'
+  | 'MODEL_REFUSED'
+  | 'QUOTA_EXHAUSTED'
+  | 'INVALID_INPUT_IMAGE'
+  | 'EMPTY_OUTPUT'
+  | 'SERVICE_UNAVAILABLE'
+  | 'CANCELLED'
+  | 'WEATHER_UNAVAILABLE'
+  | 'INVALID_INPUT'
+  | 'RECORD_NOT_FOUND';
+
+export class FlowError extends Error {
+  readonly code: FlowErrorCode;
+  /** The flow or model call that failed, e.g. 'analyzeClothingItemFlow'. */
+  readonly source: string;
+  readonly messages: LocalizedMessages;
+
+  constructor(code: FlowErrorCode, source: string, messages: LocalizedMessages, options?: {cause?: unknown}) {
+    super(messages.nl, options);
+    this.name = 'FlowError';
+    this.code = code;
+    this.source = source;
+    this.messages = messages;
+  }
+
+  getLocalizedMessage(locale: Locale = DEFAULT_LOCALE): string {
+    return this.messages[locale] ?? this.messages.nl;
+  }
+
+  toJSON(): {code: FlowErrorCode; source: string; messages: LocalizedMessages} {
+    return {code: this.code, source: this.source, messages: this.messages};
+  }
+}
+
+export class OutputValidationError extends FlowError {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[], cause?: unknown) {
+    super('OUTPUT_VALIDATION_FAILED', source, {
+      nl: `AI-output validatiefout: De data van de AI voldoet niet aan het verwachte formaat. Details: ${issues.join('; ')}`,
+      en: `AI output validation error: the data returned by the AI does not match the expected format. Details: ${issues.join('; ')}`,
+      de: `Validierungsfehler der KI-Ausgabe: Die Daten der KI entsprechen nicht dem erwarteten Format. Details: ${issues.join('; ')}`,
+    }, {cause});
+    this.name = 'OutputValidationError';
+    this.issues = issues;
+  }
+}
+
+export class ModelRefusalError extends FlowError {
+  readonly finishMessage?: string;
+
+  constructor(source: string, options: {finishMessage?: string; cause?: unknown} = {}) {
+    super('MODEL_REFUSED', source, {
+      nl: 'De AI heeft het verzoek geweigerd of het antwoord is door de veiligheidsfilters tegengehouden. Probeer een andere foto of beschrijving.',
+      en: 'The AI declined the request or the response was blocked by the safety filters. Try a different photo or description.',
+      de: 'Die KI hat die Anfrage abgelehnt oder die Antwort wurde von den Sicherheitsfiltern blockiert. Versuche es mit einem anderen Foto oder einer anderen Beschreibung.',
+    }, {cause: options.cause});
+    this.name = 'ModelRefusalError';
+    this.finishMessage = options.finishMessage;
+  }
+}
+
+export class QuotaExhaustedError extends FlowError {
+  readonly attempts: number;
+
+  constructor(source: string, attempts: number, cause?: unknown) {
+    super('QUOTA_EXHAUSTED', source, {
+      nl: `Het AI-quotum of de rate limit is bereikt (na ${attempts} pogingen). Probeer het later opnieuw.`,
+      en: `The AI quota or rate limit has been reached (after ${attempts} attempts). Please try again later.`,
+      de: `Das KI-Kontingent oder Ratenlimit ist erreicht (nach ${attempts} Versuchen). Bitte versuche es später erneut.`,
+    }, {cause});
+    this.name = 'QuotaExhaustedError';
+    this.attempts = attempts;
+  }
+}
+
+export class InvalidInputImageError extends FlowError {
+  /** The input field that holds the offending image, e.g. 'photoDataUri'. */
+  readonly field: string;
+
+  constructor(source: string, field: string, problem: LocalizedMessages, cause?: unknown) {
+    super('INVALID_INPUT_IMAGE', source, {
+      nl: `Ongeldige afbeelding in '${field}': ${problem.nl}`,
+      en: `Invalid image in '${field}': ${problem.en}`,
+      de: `Ungültiges Bild in '${field}': ${problem.de}`,
+    }, {cause});
+    this.name = 'InvalidInputImageError';
+    this.field = field;
+  }
+}
+
+export class EmptyOutputError extends FlowError {
+  constructor(source: string) {
+    super('EMPTY_OUTPUT', source, {
+      nl: 'De AI antwoordde, maar de output was leeg of niet in het verwachte formaat.',
+      en: 'The AI responded, but the output was empty or not in the expected format.',
+      de: 'Die KI hat geantwortet, aber die Ausgabe war leer oder nicht im erwarteten Format.',
+    });
+    this.name = 'EmptyOutputError';
+  }
+}
+
+export class WeatherUnavailableError extends FlowError {
+  constructor(location: string, date: string, cause?: unknown) {
+    super('WEATHER_UNAVAILABLE', 'weatherProvider', {
+      nl: `Er is geen weersverwachting beschikbaar voor ${location} op ${date}.`,
+      en: `No weather forecast is available for ${location} on ${date}.`,
+      de: `Für ${location} am ${date} ist keine Wettervorhersage verfügbar.`,
+    }, {cause});
+    this.name = 'WeatherUnavailableError';
+  }
+}
+
+export class InvalidInputError extends FlowError {
+  readonly field: string;
+
+  constructor(source: string, field: string, problem: LocalizedMessages) {
+    super('INVALID_INPUT', source, {
+      nl: `Ongeldige invoer in '${field}': ${problem.nl}`,
+      en: `Invalid input in '${field}': ${problem.en}`,
+      de: `Ungültige Eingabe in '${field}': ${problem.de}`,
+    });
+    this.name = 'InvalidInputError';
+    this.field = field;
+  }
+}
+
+export type RecordKind = 'item' | 'outfit' | 'colorAnalysis';
+
+const RECORD_KIND_LABELS: Record<RecordKind, LocalizedMessages> = {
+  item: {nl: 'Kledingstuk', en: 'Clothing item', de: 'Kleidungsstück'},
+  outfit: {nl: 'Outfit', en: 'Outfit', de: 'Outfit'},
+  colorAnalysis: {nl: 'Kleuranalyse', en: 'Colour analysis', de: 'Farbanalyse'},
+};
+
+export class RecordNotFoundError extends FlowError {
+  readonly kind: RecordKind;
+  readonly recordId: string;
+
+  constructor(source: string, kind: RecordKind, recordId: string) {
+    super('RECORD_NOT_FOUND', source, {
+      nl: `${RECORD_KIND_LABELS[kind].nl} '${recordId}' bestaat niet (meer) voor deze gebruiker.`,
+      en: `${RECORD_KIND_LABELS[kind].en} '${recordId}' does not exist (anymore) for this user.`,
+      de: `${RECORD_KIND_LABELS[kind].de} '${recordId}' existiert für diesen Benutzer nicht (mehr).`,
+    });
+    this.name = 'RecordNotFoundError';
+    this.kind = kind;
+    this.recordId = recordId;
+  }
+}
+
+const IMAGE_DATA_URI_PATTERN = /^data:image\/[a-z0-9.+-]+;base64,[A-Za-z0-9+/=\s]+$/i;
+
+export function assertImageDataUri(source: string, field: string, value: string): void {
+  if (!IMAGE_DATA_URI_PATTERN.test(value)) {
+    throw new InvalidInputImageError(source, field, {
+      nl: "verwacht een Base64 data URI van een afbeelding ('data:image/<type>;base64,<data>').",
+      en: "expected a Base64 image data URI ('data:image/<type>;base64,<data>').",
+      de: "erwartet eine Base64-Data-URI eines Bildes ('data:image/<type>;base64,<data>').",
+    });
+  }
+}
+
+/**
+ * Checks a Genkit response (from a prompt or `ai.generate`) and returns its output.
+ * A safety-blocked response becomes a ModelRefusalError, a missing output an EmptyOutputError.
+ * The token usage of the response is recorded for trackUsage either way.
+ */
+export function assertModelOutput<T>(
+  source: string,
+  response: {output?: T | null; finishReason?: string; finishMessage?: string; usage?: GenerationUsage}
+): T {
+  recordModelUsage(response);
+  if (response.finishReason === 'blocked') {
+    throw new ModelRefusalError(source, {finishMessage: response.finishMessage});
+  }
+  if (response.output === undefined || response.output === null) {
+    throw new EmptyOutputError(source);
+  }
+  return response.output;
+}
+
+/**
+ * Like assertModelOutput, for image generation: returns the URL of the generated media.
+ */
+export function assertModelMedia(
+  source: string,
+  response: {media?: {url: string} | null; finishReason?: string; finishMessage?: string; usage?: GenerationUsage}
+): string {
+  recordModelUsage(response);
+  if (response.finishReason === 'blocked') {
+    throw new ModelRefusalError(source, {finishMessage: response.finishMessage});
+  }
+  if (!response.media?.url) {
+    throw new EmptyOutputError(source);
+  }
+  return response.media.url;
+}
+
+/**
+ * Maps errors thrown inside a flow onto the taxonomy. When `imageField` is given, a rejected
+ * request (HTTP 400 / INVALID_ARGUMENT) is attributed to that input image. Errors that do not
+ * fit the taxonomy are returned unchanged.
+ */
+export function toFlowError(source: string, error: unknown, options: {imageField?: string} = {}): unknown {
+  if (error instanceof FlowError) {
+    return error;
+  }
+  if (error instanceof ZodError) {
+    return new OutputValidationError(source, error.errors.map(e => `${e.path.join('.') || 'root'}: ${e.message}`), error);
+  }
+  if (error instanceof ValidationError) {
+    // Genkit validates structured model output against the prompt's output schema itself.
+    return new OutputValidationError(source, [error.originalMessage], error);
+  }
+  if (error instanceof GenerationBlockedError) {
+    return new ModelRefusalError(source, {cause: error});
+  }
+  const status = error && typeof error === 'object' ? (error as {status?: unknown}).status : undefined;
+  if (options.imageField && (status === 'INVALID_ARGUMENT' || status === 400)) {
+    return new InvalidInputImageError(source, options.imageField, {
+      nl: 'de AI kon deze afbeelding niet verwerken.',
+      en: 'the AI could not process this image.',
+      de: 'die KI konnte dieses Bild nicht verarbeiten.',
+    }, error);
+  }
+  return error;
+}
@@ -0,0 +1,338 @@
+/**
+ * @fileOverview Golden-set evaluation of the prompts: runs fixed cases through the flows and scores the
+ * results with deterministic checks, so a prompt or model change can be compared with a baseline.
+ *
+ * Run with `npx tsx eval-golden-set.ts [--out report.json] [--baseline report.json] [--tolerance 0.05] [--case <filter>]`.
+ * The cases run against the configured provider (Google AI, or the mock models with AI_MODEL_PROVIDER=mock
+ * and fixtures in MOCK_MODEL_FIXTURES_PATH). Labelled photos are added from GOLDEN_SET_PHOTO_DIR:
+ * `seasons/<seasonCode>/<photo>` for the colour analysis and `items/<itemType>/<photo>` for the item analysis.
+ * The process exits with code 1 when a case scores lower than in the baseline by more than the tolerance.
+ *
+ * - GOLDEN_CASES - The text-only golden cases.
+ * - loadPhotoCases - Creates the photo cases from GOLDEN_SET_PHOTO_DIR.
+ * - runGoldenSet - Runs cases and returns the scored report.
+ * - compareWithBaseline - Lists the cases that scored lower than in a baseline report.
+ */
+
+import {readdir, readFile, writeFile} from 'node:fs/promises';
+import {extname, join} from 'node:path';
+import {parseArgs} from 'node:util';
+import {ClosetItem, getItemCategory} from '@/ai/closet-item';
+import {analyzeClothingItem} from '@/ai/flows/analyze-clothing-item-flow';
+import {analyzeWardrobeGaps} from '@/ai/flows/analyze-wardrobe-gaps-flow';
+import {generateOutfitInspiration} from '@/ai/flows/generate-outfit-inspiration';
+import {generateOutfitPlan} from '@/ai/flows/generate-outfit-plan-flow';
+import {generateOutfitSuggestion} from '@/ai/flows/generate-outfit-suggestion';
+import {generatePackingList} from '@/ai/flows/generate-packing-list-flow';
+import {performColorAnalysis} from '@/ai/flows/perform-color-analysis-flow';
+import {TEXT_MODEL} from '@/ai/genkit';
+import {isItemType} from '@/ai/item-vocabulary';
+import {OutfitViolation} from '@/ai/outfit-validator';
+import {findSeasonalPalette, SEASON_TYPES, SeasonType} from '@/ai/seasonal-palettes';
+
+export interface GoldenCheck {
+  name: string;
+  passed: boolean;
+  /** Partial credit between 0 and 1; defaults to 1 when passed and 0 otherwise. */
+  score?: number;
+  detail?: string;
+}
+
+export interface GoldenCase {
+  name: string;
+  run(): Promise<GoldenCheck[]>;
+}
+
+export interface GoldenCaseResult {
+  name: string;
+  /** The mean score of the checks, 0 when the case failed with an error. */
+  score: number;
+  checks: GoldenCheck[];
+  error?: string;
+  durationMs: number;
+}
+
+export interface GoldenSetReport {
+  model: string;
+  createdAt: string;
+  score: number;
+  cases: GoldenCaseResult[];
+}
+
+const check = (name: string, passed: boolean, detail?: string): GoldenCheck => ({name, passed, detail});
+
+const item = (id: string, itemType: ClosetItem['itemType'], itemColor: string, itemColorHex: string, itemStyle: ClosetItem['itemStyle']): ClosetItem => ({
+  id,
+  itemName: `${itemColor} ${itemType.replace(/_/g, ' ')}`,
+  itemType,
+  itemColor,
+  itemColorHex,
+  itemStyle,
+  fullDescription: `A ${itemColor.toLowerCase()} ${itemType.replace(/_/g, ' ')} in a ${itemStyle.replace(/_/g, ' ')} style.`,
+});
+
+const GOLDEN_CLOSET: ClosetItem[] = [
+  item('white-tee', 't_shirt', 'White', '#F5F5F5', 'casual'),
+  item('striped-longsleeve', 'long_sleeve_t_shirt', 'Navy and white striped', '#2B3A67', 'casual'),
+  item('blue-shirt', 'shirt', 'Light blue', '#A7C7E7', 'business'),
+  item('grey-jumper', 'jumper', 'Grey', '#8E8E8E', 'classic'),
+  item('navy-jeans', 'jeans', 'Navy', '#1F2A44', 'casual'),
+  item('black-trousers', 'tailored_trousers', 'Black', '#111111', 'business'),
+  item('green-dress', 'dress', 'Emerald green', '#009B77', 'elegant'),
+  item('navy-blazer', 'blazer', 'Navy', '#1B2340', 'business'),
+  item('yellow-rain-jacket', 'rain_jacket', 'Yellow', '#F2C230', 'casual'),
+  item('white-sneakers', 'sneakers', 'White', '#FAFAFA', 'casual'),
+  item('black-ankle-boots', 'ankle_boots', 'Black', '#151515', 'classic'),
+  item('black-pumps', 'pumps', 'Black', '#0F0F0F', 'elegant'),
+];
+
+const MILD_WEATHER = {temperatureMinC: 15, temperatureMaxC: 21, precipitationProbability: 10, windSpeedKmh: 10, uvIndex: 5};
+const RAINY_WEATHER = {temperatureMinC: 7, temperatureMaxC: 11, precipitationProbability: 90, windSpeedKmh: 35, uvIndex: 1};
+
+function outfitChecks(closet: ClosetItem[], itemIds: string[], violations: OutfitViolation[] = []): GoldenCheck[] {
+  const unknown = itemIds.filter(id => !closet.some(closetItem => closetItem.id === id));
+  const categories = itemIds.flatMap(id => {
+    const closetItem = closet.find(candidate => candidate.id === id);
+    return closetItem ? [getItemCategory(closetItem.itemType)] : [];
+  });
+  return [
+    check('only closet items', unknown.length === 0, unknown.join(', ') || undefined),
+    check('complete outfit', (categories.includes('top') && categories.includes('bottom')) || categories.includes('onePiece'), categories.join(', ')),
+    check('no violations', violations.length === 0, violations.map(violation => violation.code).join(', ') || undefined),
+  ];
+}
+
+export const GOLDEN_CASES: GoldenCase[] = [
+  {
+    name: 'suggestion/mild-casual',
+    async run() {
+      const result = await generateOutfitSuggestion({
+        closetItems: GOLDEN_CLOSET, weather: MILD_WEATHER, fashionTrends: 'Relaxed basics', stylePreferences: 'Casual', locale: 'en',
+      });
+      return outfitChecks(GOLDEN_CLOSET, result.usedItemIds, result.violations);
+    },
+  },
+  {
+    name: 'suggestion/rainy-cold',
+    async run() {
+      const result = await generateOutfitSuggestion({closetItems: GOLDEN_CLOSET, weather: RAINY_WEATHER, fashionTrends: 'Layering', locale: 'en'});
+      return [
+        ...outfitChecks(GOLDEN_CLOSET, result.usedItemIds, result.violations),
+        check('rain jacket worn', result.usedItemIds.includes('yellow-rain-jacket')),
+        check('no sneakers in the rain', !result.usedItemIds.includes('white-sneakers')),
+      ];
+    },
+  },
+  {
+    name: 'suggestion/job-interview',
+    async run() {
+      const result = await generateOutfitSuggestion({
+        closetItems: GOLDEN_CLOSET, weather: MILD_WEATHER, fashionTrends: 'Minimalism', occasion: {preset: 'job_interview'}, locale: 'nl',
+      });
+      return [
+        ...outfitChecks(GOLDEN_CLOSET, result.usedItemIds, result.violations),
+        check('blazer worn', result.usedItemIds.includes('navy-blazer')),
+      ];
+    },
+  },
+  {
+    name: 'inspiration/wedding-guest',
+    async run() {
+      const result = await generateOutfitInspiration({
+        bodyType: 'hourglass', clothingItems: GOLDEN_CLOSET, occasion: {preset: 'wedding_cocktail'}, locale: 'en',
+      });
+      return [
+        check('at least one outfit', result.inspiredOutfits.length > 0),
+        ...result.inspiredOutfits.flatMap((outfit, index) =>
+          outfitChecks(GOLDEN_CLOSET, outfit.itemIds, outfit.dressCodeViolations)
+            .map(outfitCheck => ({...outfitCheck, name: `outfit ${index + 1}: ${outfitCheck.name}`}))
+        ),
+        check('no white for a wedding guest', result.inspiredOutfits.every(outfit => !outfit.itemIds.includes('white-tee'))),
+      ];
+    },
+  },
+  {
+    name: 'plan/three-days',
+    async run() {
+      const days = [
+        {date: '2026-05-04', occasion: 'Office', weather: MILD_WEATHER},
+        {date: '2026-05-05', occasion: 'City walk', weather: RAINY_WEATHER},
+        {date: '2026-05-06', occasion: 'Dinner with friends', weather: MILD_WEATHER},
+      ];
+      const result = await generateOutfitPlan({closetItems: GOLDEN_CLOSET, days, locale: 'en'});
+      const repeatedTops = result.schedule.slice(1).filter((day, index) => day.usedItemIds.some(id =>
+        result.schedule[index].usedItemIds.includes(id) && getItemCategory(GOLDEN_CLOSET.find(closetItem => closetItem.id === id)?.itemType ?? '') === 'top'
+      ));
+      return [
+        check('one outfit per day', result.schedule.length === days.length),
+        ...result.schedule.flatMap(day => outfitChecks(GOLDEN_CLOSET, day.usedItemIds)
+          .filter(outfitCheck => outfitCheck.name !== 'no violations')
+          .map(outfitCheck => ({...outfitCheck, name: `${day.date}: ${outfitCheck.name}`}))),
+        check('no top on two days in a row', repeatedTops.length === 0, repeatedTops.map(day => day.date).join(', ') || undefined),
+      ];
+    },
+  },
+  {
+    name: 'packing/weekend-lisbon',
+    async run() {
+      const result = await generatePackingList({
+        closetItems: GOLDEN_CLOSET, destination: 'Lisbon', climate: MILD_WEATHER, tripLengthDays: 3, activities: ['City walk', 'Dinner in a restaurant'], locale: 'en',
+      });
+      return [
+        check('covers the trip', result.coversTrip, `${result.possibleCombinations} combinations`),
+        check('no rain jacket for dry weather', !result.packedItemIds.includes('yellow-rain-jacket')),
+        check('outfits only use packed items', result.outfitCombinations.every(outfit => outfit.itemIds.every(id => result.packedItemIds.includes(id)))),
+      ];
+    },
+  },
+  {
+    name: 'gaps/no-shoes',
+    async run() {
+      const palette = findSeasonalPalette('deep_winter')!;
+      const closet = GOLDEN_CLOSET.filter(closetItem => getItemCategory(closetItem.itemType) !== 'footwear');
+      const result = await analyzeWardrobeGaps({
+        closetItems: closet,
+        colorAnalysis: {seasonType: palette.code, recommendedColors: palette.recommendedColors, avoidColors: palette.avoidColors},
+        locale: 'en',
+      });
+      return [
+        check('suggests footwear first', result.purchaseSuggestions[0]?.category === 'footwear', result.purchaseSuggestions[0]?.itemType),
+        check('every purchase unlocks outfits', result.purchaseSuggestions.every(suggestion => suggestion.unlockedOutfits > 0)),
+      ];
+    },
+  },
+];
+
+const PHOTO_MIME_TYPES: Record<string, string> = {'.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png', '.webp': 'image/webp'};
+
+async function listPhotos(dir: string): Promise<Array<{label: string; file: string}>> {
+  const labels = await readdir(dir, {withFileTypes: true}).catch(() => []);
+  const photos = await Promise.all(labels.filter(entry => entry.isDirectory()).map(async entry =>
+    (await readdir(join(dir, entry.name)))
+      .filter(file => PHOTO_MIME_TYPES[extname(file).toLowerCase()])
+      .map(file => ({label: entry.name, file: join(dir, entry.name, file)}))
+  ));
+  return photos.flat();
+}
+
+async function readPhoto(file: string): Promise<string> {
+  return `data:${PHOTO_MIME_TYPES[extname(file).toLowerCase()]};base64,${(await readFile(file)).toString('base64')}`;
+}
+
+/**
+ * A colour analysis scores 1 for the labelled season and 0.5 for another season of the same family
+ * (e.g. soft_summer for light_summer); an item analysis scores 1 for the labelled itemType.
+ */
+export async function loadPhotoCases(dir = process.env.GOLDEN_SET_PHOTO_DIR): Promise<GoldenCase[]> {
+  if (!dir) {
+    return [];
+  }
+  const seasonPhotos = (await listPhotos(join(dir, 'seasons'))).filter(({label}) => SEASON_TYPES.includes(label as SeasonType));
+  const itemPhotos = (await listPhotos(join(dir, 'items'))).filter(({label}) => isItemType(label));
+  return [
+    ...seasonPhotos.map(({label, file}): GoldenCase => ({
+      name: `color-analysis/${label}/${file.slice(file.lastIndexOf('/') + 1)}`,
+      async run() {
+        const result = await performColorAnalysis({userDataUri: await readPhoto(file), locale: 'en'});
+        const sameFamily = findSeasonalPalette(result.seasonType)?.family === findSeasonalPalette(label)?.family;
+        const passed = result.seasonType === label;
+        return [{name: 'season', passed, score: passed ? 1 : sameFamily ? 0.5 : 0, detail: result.seasonType}];
+      },
+    })),
+    ...itemPhotos.map(({label, file}): GoldenCase => ({
+      name: `item-analysis/${label}/${file.slice(file.lastIndexOf('/') + 1)}`,
+      async run() {
+        const result = await analyzeClothingItem({photoDataUri: await readPhoto(file), locale: 'en'});
+        return [check('itemType', result.itemType === label, result.itemType)];
+      },
+    })),
+  ];
+}
+
+function scoreChecks(checks: GoldenCheck[]): number {
+  if (checks.length === 0) {
+    return 0;
+  }
+  return checks.reduce((sum, goldenCheck) => sum + (goldenCheck.score ?? (goldenCheck.passed ? 1 : 0)), 0) / checks.length;
+}
+
+/** Runs the cases one by one, so rate limits do not distort the results. */
+export async function runGoldenSet(cases: GoldenCase[]): Promise<GoldenSetReport> {
+  const results: GoldenCaseResult[] = [];
+  for (const goldenCase of cases) {
+    const started = Date.now();
+    try {
+      const checks = await goldenCase.run();
+      results.push({name: goldenCase.name, score: scoreChecks(checks), checks, durationMs: Date.now() - started});
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({name: goldenCase.name, score: 0, checks: [], error: message, durationMs: Date.now() - started});
+    }
+  }
+  return {
+    model: TEXT_MODEL,
+    createdAt: new Date().toISOString(),
+    score: results.length ? results.reduce((sum, result) => sum + result.score, 0) / results.length : 0,
+    cases: results,
+  };
+}
+
+export function compareWithBaseline(
+  report: GoldenSetReport,
+  baseline: GoldenSetReport,
+  tolerance = 0
+): Array<{name: string; score: number; baselineScore: number}> {
+  return report.cases.flatMap(result => {
+    const baselineScore = baseline.cases.find(candidate => candidate.name === result.name)?.score;
+    return baselineScore !== undefined && result.score < baselineScore - tolerance
+      ? [{name: result.name, score: result.score, baselineScore}]
+      : [];
+  });
+}
+
+const formatScore = (score: number) => score.toFixed(2);
+
+async function main(): Promise<void> {
+  const {values} = parseArgs({
+    options: {
+      out: {type: 'string'},
+      baseline: {type: 'string'},
+      tolerance: {type: 'string', default: '0'},
+      case: {type: 'string'},
+    },
+  });
+  const cases = [...GOLDEN_CASES, ...await loadPhotoCases()].filter(goldenCase => !values.case || goldenCase.name.includes(values.case));
+  const report = await runGoldenSet(cases);
+  const baseline: GoldenSetReport | undefined = values.baseline ? JSON.parse(await readFile(values.baseline, 'utf8')) : undefined;
+
+  for (const result of report.cases) {
+    const baselineScore = baseline?.cases.find(candidate => candidate.name === result.name)?.score;
+    const comparison = baselineScore === undefined ? '' : ` (baseline ${formatScore(baselineScore)})`;
+    console.log(`${formatScore(result.score)}  ${result.name}${comparison}`);
+    for (const failed of result.checks.filter(goldenCheck => !goldenCheck.passed)) {
+      console.log(`      ✗ ${failed.name}${failed.detail ? `: ${failed.detail}` : ''}`);
+    }
+    if (result.error) {
+      console.log(`      ✗ fout: ${result.error.split('\n')[0]}`);
+    }
+  }
+  console.log(`\nTotaalscore ${formatScore(report.score)} over ${report.cases.length} cases met ${report.model}.`);
+
+  if (values.out) {
+    await writeFile(values.out, JSON.stringify(report, null, 2));
+  }
+  if (baseline) {
+    const regressions = compareWithBaseline(report, baseline, Number(values.tolerance));
+    if (regressions.length > 0) {
+      console.error(`Achteruitgang ten opzichte van de baseline in ${regressions.length} case(s): ${regressions.map(regression => regression.name).join(', ')}`);
+      process.exitCode = 1;
+    }
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Golden-set evaluatie mislukt:', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,294 @@
+/**
+ * @fileOverview Happy-path tests for every flow, run against the mock models.
+ *
+ * Run with `npx tsx --test *.test.ts`.
+ */
+
+import {createPortraitPhoto, createTestPhoto, CLOSET, modelClothingItem, modelColorAnalysis, resetTestState} from '@/ai/test-support';
+import assert from 'node:assert/strict';
+import {beforeEach, describe, test} from 'node:test';
+import {analyzeClothingItem} from '@/ai/flows/analyze-clothing-item-flow';
+import {analyzeClothingItems} from '@/ai/flows/analyze-clothing-items-batch-flow';
+import {analyzeWardrobeGaps} from '@/ai/flows/analyze-wardrobe-gaps-flow';
+import {generateOutfitInspiration} from '@/ai/flows/generate-outfit-inspiration';
+import {generateOutfitPlan} from '@/ai/flows/generate-outfit-plan-flow';
+import {generateOutfitSuggestion} from '@/ai/flows/generate-outfit-suggestion';
+import {OutfitSuggestionStreamChunk, streamOutfitSuggestion} from '@/ai/flows/generate-outfit-suggestion-stream-flow';
+import {generateOutfitVisualization} from '@/ai/flows/generate-outfit-visualization-flow';
+import {generatePackingList} from '@/ai/flows/generate-packing-list-flow';
+import {performColorAnalysis} from '@/ai/flows/perform-color-analysis-flow';
+import {isAssetRef} from '@/ai/image-assets';
+import {mockModelController} from '@/ai/mock-model';
+import {getWardrobeRepository} from '@/ai/wardrobe-store';
+
+const MILD_WEATHER = {temperatureMinC: 14, temperatureMaxC: 20, precipitationProbability: 10, windSpeedKmh: 12, uvIndex: 4};
+
+const CASUAL_OUTFIT = {
+  outfitSuggestion: 'A white t-shirt with navy jeans.',
+  reasoning: 'Mild and dry weather: one light layer is enough.',
+  suggestedShoes: 'White sneakers',
+  suggestedSocks: 'Invisible socks',
+  usedItemIds: ['white-tee', 'navy-jeans', 'white-sneakers'],
+};
+
+beforeEach(resetTestState);
+
+describe('analyzeClothingItem', () => {
+  test('analyzes the photo and stores the item for the user', async () => {
+    mockModelController.enqueue('text', {output: modelClothingItem()});
+
+    const result = await analyzeClothingItem({photoDataUri: await createTestPhoto(), userId: 'user-1'});
+
+    assert.equal(result.itemType, 'jeans');
+    assert.ok(isAssetRef(result.photoRef));
+    assert.ok(result.itemId);
+    const stored = await getWardrobeRepository().getItem('user-1', result.itemId);
+    assert.equal(stored?.photoRef, result.photoRef);
+    assert.equal(mockModelController.calls[0].mediaCount, 1);
+  });
+});
+
+describe('analyzeClothingItems', () => {
+  test('returns the garments of every photo with clamped bounding boxes', async () => {
+    mockModelController.enqueue(
+      'text',
+      {output: {items: [
+        {...modelClothingItem(), boundingBox: {x: 0.5, y: -0.1, width: 0.8, height: 0.6}},
+        {...modelClothingItem({itemName: 'White t-shirt', itemType: 't_shirt', itemColor: 'White', itemColorHex: '#F5F5F5'}), boundingBox: {x: 0, y: 0, width: 0.5, height: 0.5}},
+      ]}},
+      {output: {items: [{...modelClothingItem({itemType: 'sneakers', itemName: 'Sneakers'}), boundingBox: {x: 0.1, y: 0.1, width: 0.3, height: 0.3}}]}}
+    );
+
+    const result = await analyzeClothingItems({photoDataUris: [await createTestPhoto(), await createTestPhoto('#334455')], concurrency: 1});
+
+    assert.equal(result.itemCount, 3);
+    assert.equal(result.failedPhotoCount, 0);
+    assert.deepEqual(result.results[0].items[0].boundingBox, {x: 0.5, y: 0, width: 0.5, height: 0.6});
+    assert.equal(result.results[1].items[0].itemType, 'sneakers');
+  });
+});
+
+describe('performColorAnalysis', () => {
+  test('returns the season with a complete palette and stores it for the user', async () => {
+    mockModelController.enqueue('text', {output: modelColorAnalysis()});
+
+    const result = await performColorAnalysis({userDataUri: await createPortraitPhoto(), userId: 'user-1', locale: 'en'});
+
+    assert.equal(result.seasonType, 'deep_winter');
+    assert.ok(result.recommendedColors.length >= 5);
+    assert.ok(result.analysisId);
+    const stored = await getWardrobeRepository().getLatestColorAnalysis('user-1');
+    assert.equal(stored?.id, result.analysisId);
+  });
+});
+
+describe('generateOutfitSuggestion', () => {
+  test('returns a validated outfit with a stored image', async () => {
+    mockModelController.enqueue('text', {output: CASUAL_OUTFIT});
+
+    const result = await generateOutfitSuggestion({closetItems: CLOSET, weather: MILD_WEATHER, fashionTrends: 'Relaxed denim', locale: 'en'});
+
+    assert.deepEqual(result.usedItemIds, CASUAL_OUTFIT.usedItemIds);
+    assert.deepEqual(result.violations, []);
+    assert.ok(isAssetRef(result.outfitImageUrl));
+    assert.deepEqual(mockModelController.calls.map(call => call.model), ['text', 'image']);
+    assert.match(mockModelController.calls[1].prompt, /white t-shirt with navy jeans/i);
+  });
+});
+
+describe('streamOutfitSuggestion', () => {
+  test('streams the text before the image and reports an image failure instead of throwing', async () => {
+    mockModelController.enqueue('text', {output: CASUAL_OUTFIT}).enqueue('image', {blocked: true});
+
+    const {stream, output} = streamOutfitSuggestion({closetItems: CLOSET, weather: MILD_WEATHER, fashionTrends: 'Relaxed denim', locale: 'en'});
+    const chunks: OutfitSuggestionStreamChunk[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    const result = await output;
+
+    assert.deepEqual(chunks.map(chunk => chunk.type), ['progress', 'text', 'progress', 'image']);
+    assert.equal(result.imageStatus, 'failed');
+    assert.equal(result.imageError?.code, 'MODEL_REFUSED');
+    assert.deepEqual(result.usedItemIds, CASUAL_OUTFIT.usedItemIds);
+  });
+});
+
+describe('generateOutfitInspiration', () => {
+  test('drops item ids that are not in the closet', async () => {
+    mockModelController.enqueue('text', {output: {inspiredOutfits: [
+      {description: 'Blouse with tailored trousers and loafers.', itemIds: ['blue-blouse', 'black-trousers', 'black-loafers', 'red-skirt']},
+    ]}});
+
+    const result = await generateOutfitInspiration({bodyType: 'hourglass', clothingItems: CLOSET, locale: 'en'});
+
+    assert.deepEqual(result.inspiredOutfits[0].itemIds, ['blue-blouse', 'black-trousers', 'black-loafers']);
+  });
+
+  test('checks the dress code by item type, not by words in the description', async () => {
+    const closet = CLOSET.map(item => item.id === 'blue-blouse' ? {...item, fullDescription: 'A short-sleeved denim-blue blouse.'} : item);
+    mockModelController.enqueue('text', {output: {inspiredOutfits: [
+      {description: 'Blouse with tailored trousers and loafers.', itemIds: ['blue-blouse', 'black-trousers', 'black-loafers']},
+      {description: 'T-shirt with jeans and sneakers.', itemIds: ['white-tee', 'navy-jeans', 'white-sneakers']},
+    ]}});
+
+    const result = await generateOutfitInspiration({bodyType: 'hourglass', clothingItems: closet, occasion: {dressCode: 'business_formal'}, locale: 'en'});
+
+    assert.deepEqual(result.inspiredOutfits[0].dressCodeViolations, []);
+    assert.deepEqual(result.inspiredOutfits[1].dressCodeViolations?.[0].itemIds, ['white-tee', 'navy-jeans', 'white-sneakers']);
+  });
+});
+
+describe('generateOutfitVisualization', () => {
+  test('stores the generated image and sends the item photos along', async () => {
+    const result = await generateOutfitVisualization({
+      description: 'A camel trench coat over a white t-shirt and navy jeans',
+      items: [{description: 'Camel trench coat', imageUrl: await createTestPhoto('#C19A6B')}],
+    });
+
+    assert.ok(isAssetRef(result.visualizationUrl));
+    assert.ok(result.visualizationThumbnailUrl && isAssetRef(result.visualizationThumbnailUrl));
+    assert.equal(mockModelController.calls[0].mediaCount, 1);
+  });
+});
+
+describe('generateOutfitPlan', () => {
+  test('plans one outfit per day and leaves out the items worn the day before', async () => {
+    mockModelController.enqueue(
+      'text',
+      {output: {...CASUAL_OUTFIT, missingItems: []}},
+      {output: {
+        outfitSuggestion: 'A light blue blouse with black tailored trousers.',
+        reasoning: 'Mild weather.',
+        suggestedShoes: 'Black loafers',
+        usedItemIds: ['blue-blouse', 'black-trousers', 'black-loafers'],
+        missingItems: [],
+      }}
+    );
+
+    const result = await generateOutfitPlan({
+      closetItems: CLOSET,
+      days: [
+        {date: '2026-05-04', occasion: 'City walk', weather: MILD_WEATHER},
+        {date: '2026-05-05', occasion: 'Office', weather: MILD_WEATHER},
+      ],
+      locale: 'en',
+    });
+
+    assert.deepEqual(result.schedule.map(day => day.date), ['2026-05-04', '2026-05-05']);
+    assert.deepEqual(result.missingItems, []);
+    assert.doesNotMatch(mockModelController.calls[1].prompt, /\[white-tee\]/);
+  });
+
+  test('only leaves out the key pieces of the previous entry when it was the day before', async () => {
+    mockModelController.enqueue('text', {output: {...CASUAL_OUTFIT, missingItems: []}}, {output: {...CASUAL_OUTFIT, missingItems: []}});
+
+    const result = await generateOutfitPlan({
+      closetItems: CLOSET,
+      days: [
+        {date: '2026-05-08', occasion: 'City walk', weather: MILD_WEATHER},
+        {date: '2026-05-11', occasion: 'City walk', weather: MILD_WEATHER},
+      ],
+      locale: 'en',
+    });
+
+    assert.ok(result.schedule[1].usedItemIds.includes('navy-jeans'));
+    assert.match(mockModelController.calls[1].prompt, /\[navy-jeans\]/);
+  });
+});
+
+describe('generatePackingList', () => {
+  test('counts the packed pieces and checks that they cover the trip', async () => {
+    mockModelController.enqueue('text', {output: {
+      packedItemIds: ['white-tee', 'blue-blouse', 'navy-jeans', 'white-sneakers', 'unknown-item'],
+      outfitCombinations: [{description: 'T-shirt with jeans', itemIds: ['white-tee', 'navy-jeans', 'white-sneakers']}],
+      shoppingList: [],
+      reasoning: 'Two tops and one pair of jeans give two outfits.',
+    }});
+
+    const result = await generatePackingList({
+      closetItems: CLOSET,
+      destination: 'Lisbon',
+      climate: MILD_WEATHER,
+      tripLengthDays: 2,
+      activities: ['City walk'],
+      locale: 'en',
+    });
+
+    assert.ok(!result.packedItemIds.includes('unknown-item'));
+    assert.equal(result.possibleCombinations, 2);
+    assert.equal(result.coversTrip, true);
+    assert.deepEqual(result.piecesPerItemType.find(pieces => pieces.itemType === 'jeans'), {itemType: 'jeans', count: 1});
+    assert.equal(result.outfitCombinations.length, 2);
+  });
+
+  test('lists an outfit for every day when items are added to the packing list', async () => {
+    mockModelController.enqueue('text', {output: {
+      packedItemIds: ['white-tee', 'navy-jeans', 'white-sneakers'],
+      outfitCombinations: [{description: 'T-shirt with jeans', itemIds: ['white-tee', 'navy-jeans', 'white-sneakers']}],
+      shoppingList: [],
+      reasoning: 'One outfit for a short trip.',
+    }});
+
+    const result = await generatePackingList({
+      closetItems: CLOSET,
+      destination: 'Lisbon',
+      climate: MILD_WEATHER,
+      tripLengthDays: 3,
+      activities: ['City walk'],
+      locale: 'en',
+    });
+
+    assert.equal(result.coversTrip, true);
+    assert.equal(result.outfitCombinations.length, 3);
+    assert.ok(result.outfitCombinations.every(combination => combination.itemIds.every(id => result.packedItemIds.includes(id))));
+  });
+});
+
+describe('analyzeWardrobeGaps', () => {
+  test('combines the local gaps with the purchase suggestions of the model', async () => {
+    const analysis = modelColorAnalysis();
+    mockModelController.enqueue('text', {output: {
+      observedGaps: [],
+      purchaseSuggestions: [
+        {itemType: 'jumper', colorName: 'Emerald green', colorHex: '#009B77', style: 'casual', reason: 'A warm layer in a palette colour.'},
+      ],
+    }});
+
+    const result = await analyzeWardrobeGaps({
+      closetItems: CLOSET,
+      colorAnalysis: {seasonType: 'deep_winter', recommendedColors: analysis.recommendedColors, avoidColors: analysis.avoidColors},
+      locale: 'en',
+    });
+
+    assert.equal(result.seasonType, 'deep_winter');
+    // The camel trench coat is in the avoid colours of the palette, so it does not count.
+    assert.equal(result.currentCombinations, (2 * 2) * 2 * (0 + 1));
+    assert.equal(result.purchaseSuggestions[0].priority, 1);
+    assert.equal(result.purchaseSuggestions[0].category, 'top');
+    assert.ok(result.purchaseSuggestions[0].unlockedOutfits > 0);
+  });
+
+  test('ranks the first pair of shoes first for a closet without shoes', async () => {
+    const analysis = modelColorAnalysis();
+    mockModelController.enqueue('text', {output: {
+      observedGaps: [],
+      purchaseSuggestions: [
+        {itemType: 'blouse', colorName: 'White', colorHex: '#FAFAFA', style: 'smart_casual', reason: 'Another top.'},
+        {itemType: 'sneakers', colorName: 'White', colorHex: '#F5F5F5', style: 'casual', reason: 'The closet has no shoes.'},
+      ],
+    }});
+    const closetItems = CLOSET.filter(item => !['white-sneakers', 'black-loafers'].includes(item.id));
+
+    const result = await analyzeWardrobeGaps({
+      closetItems,
+      colorAnalysis: {seasonType: 'deep_winter', recommendedColors: analysis.recommendedColors, avoidColors: analysis.avoidColors},
+      locale: 'en',
+    });
+
+    assert.ok(result.gaps.some(gap => gap.code === 'MISSING_CATEGORY' && gap.category === 'footwear'));
+    assert.equal(result.purchaseSuggestions[0].itemType, 'sneakers');
+    // Every outfit of the closet is complete with the first pair: 2 tops x 2 bottoms (the camel coat is avoided).
+    assert.equal(result.purchaseSuggestions[0].unlockedOutfits, 4);
+  });
+});
@@ -5,12 +5,23 @@
  * @fileOverview Outfit inspiration generator based on user preferences.
  *
  * - generateOutfitInspiration - A function that generates outfit inspiration.
+ *   With a userId the closet is loaded from the wardrobe store, the style profile learned from the user's
+ *   ratings is added to the prompt, and the outfits are saved.
+ *   With an occasion the outfits follow its dress code; outfits that still break it are reported per outfit.
  * - GenerateOutfitInspirationInput - The input type for the generateOutfitInspiration function.
  * - GenerateOutfitInspirationOutput - The return type for the generateOutfitInspiration function.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {ClosetItemSchema, filterKnownItemIds} from '@/ai/closet-item';
+import {assertModelOutput, EmptyOutputError, toFlowError} from '@/ai/errors';
+import {getLanguageName, LocaleSchema, resolveLocale} from '@/ai/locale';
+import {describeOccasionForPrompt, OccasionSchema, resolveOccasion} from '@/ai/occasion';
+import {findDressCodeViolations, OutfitViolationSchema} from '@/ai/outfit-validator';
+import {callWithResilience} from '@/ai/resilient-call';
+import {describeStyleProfileForPrompt, loadStyleProfile} from '@/ai/style-profile';
+import {ClosetSelectionSchema, getWardrobeRepository, resolveClosetItems} from '@/ai/wardrobe-store';
 
 const GenerateOutfitInspirationInputSchema = z.object({
   bodyType: z
@@ -18,18 +29,32 @@ const GenerateOutfitInspirationInputSchema = z.object({
     .describe('The users body type, e.g., apple, pear, hourglass, rectangle.'),
   stylePreferences: z
     .string()
-    .describe('The users style preferences, e.g., casual, formal, bohemian.'),
+    .optional()
+    .describe('The users style preferences, e.g., casual, formal, bohemian. With a userId, the preferences learned from earlier ratings are used as well.'),
   clothingItems: z
-    .array(z.string())
-    .describe('A list of clothing items the user owns.'),
-});
+    .array(ClosetItemSchema)
+    .optional()
+    .describe('The clothing items the user owns, as created from analyzeClothingItem results. May be omitted when a userId is given.'),
+  occasion: OccasionSchema.optional().describe('The occasion to dress for. Every outfit must meet its dress code.'),
+  locale: LocaleSchema.optional(),
+}).merge(ClosetSelectionSchema);
 export type GenerateOutfitInspirationInput = z.infer<
   typeof GenerateOutfitInspirationInputSchema
 >;
 
+const InspiredOutfitSchema = z.object({
+  description: z.string().describe('The outfit suggestion.'),
+  itemIds: z
+    .array(z.string())
+    .describe('The ids of the user\'s clothing items used in this outfit.'),
+  reasoning: z.string().optional().describe('Why the outfit works; with an occasion, explicitly how it meets the dress code.'),
+  dressCodeViolations: z.array(OutfitViolationSchema).optional().describe('Only with an occasion: the dress-code rules the outfit still breaks. Empty when it meets the dress code.'),
+  savedOutfitId: z.string().optional().describe('The id of the outfit saved in the wardrobe store. Only set when a userId was given.'),
+});
+
 const GenerateOutfitInspirationOutputSchema = z.object({
   inspiredOutfits: z
-    .array(z.string())
+    .array(InspiredOutfitSchema)
     .describe('A list of outfit suggestions based on similar users.'),
 });
 
@@ -45,17 +70,43 @@ export async function generateOutfitInspiration(
 
 const prompt = ai.definePrompt({
   name: 'generateOutfitInspirationPrompt',
-  input: {schema: GenerateOutfitInspirationInputSchema},
-  output: {schema: GenerateOutfitInspirationOutputSchema},
+  input: {
+    schema: GenerateOutfitInspirationInputSchema.pick({bodyType: true, stylePreferences: true}).extend({
+      clothingItems: z.array(ClosetItemSchema),
+      styleProfile: z.string().optional(),
+      occasion: z.string().optional(),
+      language: z.string(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      inspiredOutfits: z.array(InspiredOutfitSchema.omit({savedOutfitId: true, dressCodeViolations: true})).describe('A list of outfit suggestions based on similar users.'),
+    }),
+  },
   prompt: `You are a personal stylist that provides outfit inspiration to users.
 
 You will generate outfit suggestions based on the user's body type, style preferences, and existing clothing items.
 
 Consider outfits worn by other users with similar body types and styles.
+For every outfit, list the id (the value between the square brackets) of each of the user's clothing items it uses in itemIds.
 
 Body Type: {{{bodyType}}}
-Style Preferences: {{{stylePreferences}}}
-Clothing Items: {{#each clothingItems}}{{{this}}}, {{/each}}`,
+{{#if stylePreferences}}Style Preferences: {{{stylePreferences}}}{{/if}}
+{{#if occasion}}
+Occasion and dress code (mandatory; every outfit must meet it, also above the style preferences):
+{{{occasion}}}
+For every outfit, explain in reasoning explicitly how it meets the dress code.
+{{/if}}
+{{#if styleProfile}}
+Learned from the user's ratings of earlier outfits (follow these preferences and avoid what the user disliked):
+{{{styleProfile}}}
+{{/if}}
+Clothing Items:
+{{#each clothingItems}}
+- [{{{id}}}] {{{itemName}}} ({{{itemType}}}, {{{itemColor}}}, {{{itemStyle}}})
+{{/each}}
+
+Ensure all text is in {{{language}}}.`,
 });
 
 const generateOutfitInspirationFlow = ai.defineFlow(
@@ -64,13 +115,58 @@ const generateOutfitInspirationFlow = ai.defineFlow(
     inputSchema: GenerateOutfitInspirationInputSchema,
     outputSchema: GenerateOutfitInspirationOutputSchema,
   },
-  async input => {
-    const {output} = await prompt(input);
-    if (!output || !output.inspiredOutfits) {
-      throw new Error(
-        'AI response for outfit inspiration was empty or not in the expected format.'
+  async (input, {abortSignal}) => {
+    try {
+      const clothingItems = await resolveClosetItems(
+        'generateOutfitInspirationFlow',
+        {...input, closetItems: input.clothingItems},
+        'clothingItems'
+      );
+      const styleProfile = input.userId ? describeStyleProfileForPrompt(await loadStyleProfile(input.userId)) : undefined;
+      const locale = resolveLocale(input);
+      const occasion = input.occasion ? resolveOccasion(input.occasion, locale) : undefined;
+      const output = await callWithResilience(
+        async ({signal}) => assertModelOutput('generateOutfitInspirationFlow', await prompt({
+          bodyType: input.bodyType,
+          stylePreferences: input.stylePreferences,
+          clothingItems,
+          styleProfile,
+          occasion: occasion && describeOccasionForPrompt(occasion),
+          language: getLanguageName(locale),
+        }, {abortSignal: signal})),
+        {label: 'generateOutfitInspirationFlow', signal: abortSignal}
       );
+      if (!output.inspiredOutfits) {
+        throw new EmptyOutputError('generateOutfitInspirationFlow');
+      }
+      const inspiredOutfits = output.inspiredOutfits.map(outfit => {
+        const itemIds = filterKnownItemIds(outfit.itemIds, clothingItems);
+        const items = clothingItems.filter(item => itemIds.includes(item.id));
+        return {
+          description: outfit.description,
+          itemIds,
+          reasoning: outfit.reasoning,
+          dressCodeViolations: occasion && findDressCodeViolations(items, undefined, occasion, locale),
+        };
+      });
+      const {userId} = input;
+      if (!userId) {
+        return {inspiredOutfits};
+      }
+      return {
+        inspiredOutfits: await Promise.all(inspiredOutfits.map(async outfit => {
+          const saved = await getWardrobeRepository().saveOutfit({
+            userId,
+            source: 'inspiration',
+            itemIds: outfit.itemIds,
+            description: outfit.description,
+            reasoning: outfit.reasoning,
+          });
+          return {...outfit, savedOutfitId: saved.id};
+        })),
+      };
+    } catch (error) {
+      throw toFlowError('generateOutfitInspirationFlow', error);
     }
-    return output;
   }
 );
@@ -0,0 +1,255 @@
+
+'use server';
+/**
+ * @fileOverview Multi-day outfit planner (e.g. a work week or a 5-day trip).
+ *
+ * The schedule is planned day by day. Before each day, the items that may not be worn are removed
+ * locally: key pieces (tops, bottoms, dresses) worn the day before and items that reached their
+ * laundry limit. The model only chooses from what is left, so the rules hold regardless of its output.
+ *
+ * - generateOutfitPlan - A function that plans an outfit for every day in a date range.
+ * - GenerateOutfitPlanInput - The input type for the generateOutfitPlan function.
+ * - GenerateOutfitPlanOutput - The return type for the generateOutfitPlan function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {ClosetItem, ClosetItemSchema, filterKnownItemIds, getItemCategory, ITEM_CATEGORY_LABELS, ItemCategory} from '@/ai/closet-item';
+import {assertModelOutput, InvalidInputError, toFlowError} from '@/ai/errors';
+import {findItemTypeByLabel, ItemType} from '@/ai/item-vocabulary';
+import {getLanguageName, Locale, LocaleSchema, resolveLocale} from '@/ai/locale';
+import {CLOSET_ITEMS_PROMPT, OUTFIT_INSTRUCTIONS, OutfitTextSchema} from '@/ai/outfit-prompt';
+import {callWithResilience} from '@/ai/resilient-call';
+import {ClosetSelectionSchema, resolveClosetItems} from '@/ai/wardrobe-store';
+import {describeWeatherForPrompt, resolveWeather, WeatherInputSchema} from '@/ai/weather';
+
+const PlanDaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Gebruik het formaat JJJJ-MM-DD.').describe('The day (YYYY-MM-DD).'),
+  occasion: z.string().describe("What the user does that day, e.g. 'Kantoor', 'Stadswandeling', 'Etentje'."),
+  weather: WeatherInputSchema,
+});
+
+const GenerateOutfitPlanInputSchema = z.object({
+  closetItems: z
+    .array(ClosetItemSchema)
+    .min(1)
+    .optional()
+    .describe('The clothing items in the user\'s digital closet, as created from analyzeClothingItem results. May be omitted when a userId is given.'),
+  days: z
+    .array(PlanDaySchema)
+    .min(1)
+    .max(14)
+    .refine(days => new Set(days.map(day => day.date)).size === days.length, {message: 'Elke datum mag maar één keer voorkomen.'})
+    .describe('Every day to plan an outfit for, with its occasion and weather. Every date may occur only once.'),
+  stylePreferences: z.string().optional().describe('The user style preferences.'),
+  laundryLimits: z
+    .record(z.string(), z.number().int().min(1))
+    .optional()
+    .describe('How often an item may be worn before it needs washing, keyed by itemType code (e.g. {"jeans": 4}); a label such as "Trui" is accepted as well. Item types that are not listed use the defaults per category.'),
+  locale: LocaleSchema.optional(),
+}).merge(ClosetSelectionSchema);
+export type GenerateOutfitPlanInput = z.infer<typeof GenerateOutfitPlanInputSchema>;
+
+const MissingItemSchema = z.object({
+  itemType: z.string().describe("The kind of item that is missing in the requested locale, e.g. 'Rain jacket', 'Tailored trousers'."),
+  reason: z.string().describe('Why the item is needed.'),
+});
+
+const GenerateOutfitPlanOutputSchema = z.object({
+  schedule: z.array(
+    OutfitTextSchema.extend({
+      date: z.string(),
+      occasion: z.string(),
+    })
+  ).describe('One outfit per day, in date order.'),
+  missingItems: z.array(
+    MissingItemSchema.extend({
+      dates: z.array(z.string()).describe('The days for which the item is missing.'),
+    })
+  ).describe('Items the closet lacks to cover the whole plan.'),
+});
+export type GenerateOutfitPlanOutput = z.infer<typeof GenerateOutfitPlanOutputSchema>;
+
+export async function generateOutfitPlan(input: GenerateOutfitPlanInput): Promise<GenerateOutfitPlanOutput> {
+  return generateOutfitPlanFlow(input);
+}
+
+const dayPrompt = ai.definePrompt({
+  name: 'generateOutfitPlanDayPrompt',
+  input: {
+    schema: z.object({
+      date: z.string(),
+      occasion: z.string(),
+      weatherDescription: z.string(),
+      stylePreferences: z.string().optional(),
+      closetItems: z.array(ClosetItemSchema),
+      previousOutfits: z.array(z.string()),
+      language: z.string(),
+    }),
+  },
+  output: {
+    schema: OutfitTextSchema.extend({
+      missingItems: z.array(MissingItemSchema).describe('Items the user does not own but would need for a suitable outfit this day. Empty if the closet is sufficient.'),
+    }),
+  },
+  prompt: `You are a personal AI stylist planning the outfits for several days in a row. Now plan the outfit for {{{date}}}.
+
+  Occasion: {{{occasion}}}
+  Weather:
+  {{{weatherDescription}}}
+  {{#if stylePreferences}}Style Preferences: {{{stylePreferences}}}{{/if}}
+
+  Available items (items worn yesterday and items that need washing are already left out):
+  ${CLOSET_ITEMS_PROMPT}
+
+  {{#if previousOutfits}}
+  Outfits already planned for the previous days (vary the combinations and do not simply repeat them):
+  {{#each previousOutfits}}
+  - {{{this}}}
+  {{/each}}
+  {{/if}}
+
+  Generate a detailed outfit suggestion for the main clothing items (top, bottom, outerwear etc.) that suits the occasion and the weather, and provide a brief reasoning.
+  ${OUTFIT_INSTRUCTIONS}
+  If the available items cannot make a suitable outfit for this occasion or weather, still suggest the best possible outfit and list what is missing in missingItems.
+  Format the output in JSON according to the schema. Ensure all text is in {{{language}}}.
+  `,
+});
+
+/** Categories that should not be worn two days in a row. */
+const KEY_PIECE_CATEGORIES = new Set<ItemCategory>(['top', 'bottom', 'onePiece']);
+
+const DEFAULT_LAUNDRY_LIMITS: Record<ItemCategory, number> = {
+  top: 1,
+  bottom: 3,
+  onePiece: 2,
+  outerwear: Infinity,
+  footwear: Infinity,
+  accessory: Infinity,
+};
+const KNITWEAR_TYPES = new Set<ItemType>(['jumper', 'sweatshirt', 'hoodie', 'cardigan', 'sweater_vest']);
+const KNITWEAR_LAUNDRY_LIMIT = 3;
+
+function getLaundryLimit(item: ClosetItem, laundryLimits: Record<string, number> = {}): number {
+  const override = Object.entries(laundryLimits).find(
+    ([type]) => type.trim() === item.itemType || findItemTypeByLabel(type) === item.itemType
+  );
+  if (override) {
+    return override[1];
+  }
+  if (KNITWEAR_TYPES.has(item.itemType)) {
+    return KNITWEAR_LAUNDRY_LIMIT;
+  }
+  return DEFAULT_LAUNDRY_LIMITS[getItemCategory(item.itemType)];
+}
+
+// Genkit validates the input with the JSON schema, which leaves out the refinement on `days`.
+function assertDistinctDates(days: {date: string}[]): void {
+  const duplicate = days.find((day, index) => index > 0 && day.date === days[index - 1].date);
+  if (duplicate) {
+    throw new InvalidInputError('generateOutfitPlanFlow', 'days', {
+      nl: `${duplicate.date} komt meer dan één keer voor; plan elke dag maar één keer.`,
+      en: `${duplicate.date} occurs more than once; plan every day only once.`,
+      de: `${duplicate.date} kommt mehr als einmal vor; plane jeden Tag nur einmal.`,
+    });
+  }
+}
+
+/** Whether `date` is the calendar day after `previousDate` (both YYYY-MM-DD). */
+function isNextDay(previousDate: string, date: string): boolean {
+  return Date.parse(`${date}T00:00:00Z`) - Date.parse(`${previousDate}T00:00:00Z`) === 24 * 60 * 60 * 1000;
+}
+
+/** Reports the key categories for which nothing is left, given what is still wearable. */
+function findLocalShortages(available: ClosetItem[], locale: Locale): z.infer<typeof MissingItemSchema>[] {
+  const categories = new Set(available.map(item => getItemCategory(item.itemType)));
+  if (categories.has('onePiece') || (categories.has('top') && categories.has('bottom'))) {
+    return [];
+  }
+  return (['top', 'bottom'] as const)
+    .filter(category => !categories.has(category))
+    .map(category => ({
+      itemType: ITEM_CATEGORY_LABELS[category][locale],
+      reason: {
+        nl: 'Alle items in deze categorie zijn gisteren gedragen of moeten gewassen worden.',
+        en: 'All items in this category were worn yesterday or need washing.',
+        de: 'Alle Teile dieser Kategorie wurden gestern getragen oder müssen gewaschen werden.',
+      }[locale],
+    }));
+}
+
+const generateOutfitPlanFlow = ai.defineFlow(
+  {
+    name: 'generateOutfitPlanFlow',
+    inputSchema: GenerateOutfitPlanInputSchema,
+    outputSchema: GenerateOutfitPlanOutputSchema,
+  },
+  async (input, {abortSignal}): Promise<GenerateOutfitPlanOutput> => {
+    try {
+      const closetItems = await resolveClosetItems('generateOutfitPlanFlow', input);
+      const locale = resolveLocale(input);
+      const days = [...input.days].sort((a, b) => a.date.localeCompare(b.date));
+      assertDistinctDates(days);
+      const wearCounts = new Map<string, number>();
+      const missingItems = new Map<string, GenerateOutfitPlanOutput['missingItems'][number]>();
+      const schedule: GenerateOutfitPlanOutput['schedule'] = [];
+      let yesterdaysKeyPieces = new Set<string>();
+      let previousDate: string | undefined;
+
+      for (const day of days) {
+        const blockedKeyPieces = previousDate && isNextDay(previousDate, day.date) ? yesterdaysKeyPieces : new Set<string>();
+        const available = closetItems.filter(
+          item => !blockedKeyPieces.has(item.id) && (wearCounts.get(item.id) ?? 0) < getLaundryLimit(item, input.laundryLimits)
+        );
+        const weatherDescription = describeWeatherForPrompt(await resolveWeather(day.weather));
+
+        const output = await callWithResilience(
+          async ({signal}) => assertModelOutput('generateOutfitPlanFlow', await dayPrompt({
+            date: day.date,
+            occasion: day.occasion,
+            weatherDescription,
+            stylePreferences: input.stylePreferences,
+            closetItems: available,
+            previousOutfits: schedule.map(planned => `${planned.date} (${planned.occasion}): ${planned.outfitSuggestion}`),
+            language: getLanguageName(locale),
+          }, {abortSignal: signal})),
+          {label: 'generateOutfitPlanDayPrompt', signal: abortSignal}
+        );
+
+        const usedItemIds = filterKnownItemIds(output.usedItemIds, available);
+        for (const id of usedItemIds) {
+          wearCounts.set(id, (wearCounts.get(id) ?? 0) + 1);
+        }
+        yesterdaysKeyPieces = new Set(
+          available
+            .filter(item => usedItemIds.includes(item.id) && KEY_PIECE_CATEGORIES.has(getItemCategory(item.itemType)))
+            .map(item => item.id)
+        );
+        previousDate = day.date;
+
+        for (const missing of [...findLocalShortages(available, locale), ...output.missingItems]) {
+          const key = missing.itemType.trim().toLowerCase();
+          const entry = missingItems.get(key) ?? {...missing, dates: []};
+          if (!entry.dates.includes(day.date)) {
+            entry.dates.push(day.date);
+          }
+          missingItems.set(key, entry);
+        }
+
+        schedule.push({
+          date: day.date,
+          occasion: day.occasion,
+          outfitSuggestion: output.outfitSuggestion,
+          reasoning: output.reasoning,
+          suggestedShoes: output.suggestedShoes,
+          suggestedSocks: output.suggestedSocks,
+          usedItemIds,
+        });
+      }
+
+      return {schedule, missingItems: Array.from(missingItems.values())};
+    } catch (error) {
+      throw toFlowError('generateOutfitPlanFlow', error);
+    }
+  }
+);
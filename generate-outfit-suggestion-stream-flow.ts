@@ -0,0 +1,127 @@
+/**
+ * @fileOverview Streaming variant of the outfit suggestion flow.
+ *
+ * The validated text suggestion is streamed as soon as it is ready, so the UI can show it while the
+ * image is still being generated. A failing image does not fail the flow: the text is delivered and
+ * the image is marked as failed.
+ *
+ * - generateOutfitSuggestionStreamFlow - The streaming flow, for Genkit's flow server and client helpers.
+ * - streamOutfitSuggestion - Starts the flow and returns its chunk stream and final output.
+ * - OutfitSuggestionStreamChunk - A streamed chunk: a progress stage, the text suggestion or the image result.
+ * - GenerateOutfitSuggestionStreamOutput - The final output of the flow.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {FlowError, toFlowError} from '@/ai/errors';
+import {IngestedImage, toImageResponse} from '@/ai/image-assets';
+import {Locale, resolveLocale} from '@/ai/locale';
+import {
+  generateOutfitImage,
+  generateSuggestionText,
+  GenerateOutfitSuggestionInput,
+  GenerateOutfitSuggestionInputSchema,
+  OutfitSuggestionTextSchema,
+  saveSuggestion,
+} from '@/ai/outfit-suggestion-core';
+
+const ImageErrorSchema = z.object({
+  code: z.string().describe("The error code, e.g. 'MODEL_REFUSED' or 'EMPTY_OUTPUT'."),
+  message: z.string(),
+});
+
+const OutfitSuggestionStreamChunkSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('progress'),
+    stage: z.enum(['generating_text', 'generating_image']),
+  }),
+  OutfitSuggestionTextSchema.extend({
+    type: z.literal('text'),
+  }),
+  z.object({
+    type: z.literal('image'),
+    status: z.enum(['ready', 'failed']),
+    outfitImageUrl: z.string().url().optional().describe('Set when status is "ready": an asset reference, or a data URI when imageResponseFormat is "dataUri".'),
+    outfitImageThumbnailUrl: z.string().optional().describe('Set when status is "ready", unless imageResponseFormat is "dataUri".'),
+    error: ImageErrorSchema.optional().describe('Set when status is "failed".'),
+  }),
+]);
+export type OutfitSuggestionStreamChunk = z.infer<typeof OutfitSuggestionStreamChunkSchema>;
+
+const GenerateOutfitSuggestionStreamOutputSchema = OutfitSuggestionTextSchema.extend({
+  outfitImageUrl: z.string().url().optional().describe("The AI-generated image: an asset reference, or a data URI when imageResponseFormat is 'dataUri'. Omitted when imageStatus is 'failed'."),
+  outfitImageThumbnailUrl: z.string().optional().describe("An asset reference to a small WebP version of the image. Omitted when imageResponseFormat is 'dataUri' or the image failed."),
+  imageStatus: z.enum(['ready', 'failed']),
+  imageError: ImageErrorSchema.optional(),
+  savedOutfitId: z.string().optional().describe('The id of the outfit saved in the wardrobe store. Only set when a userId was given; the outfit is saved without image when the image failed.'),
+});
+export type GenerateOutfitSuggestionStreamOutput = z.infer<typeof GenerateOutfitSuggestionStreamOutputSchema>;
+
+export function streamOutfitSuggestion(input: GenerateOutfitSuggestionInput) {
+  return generateOutfitSuggestionStreamFlow.stream(input);
+}
+
+export const generateOutfitSuggestionStreamFlow = ai.defineFlow(
+  {
+    name: 'generateOutfitSuggestionStreamFlow',
+    inputSchema: GenerateOutfitSuggestionInputSchema,
+    outputSchema: GenerateOutfitSuggestionStreamOutputSchema,
+    streamSchema: OutfitSuggestionStreamChunkSchema,
+  },
+  async (input, {abortSignal, sendChunk}): Promise<GenerateOutfitSuggestionStreamOutput> => {
+    try {
+      sendChunk({type: 'progress', stage: 'generating_text'});
+      const text = await generateSuggestionText('generateOutfitSuggestionStreamFlow', input, abortSignal);
+      sendChunk({type: 'text', ...text});
+
+      sendChunk({type: 'progress', stage: 'generating_image'});
+      const image = await generateImageOrFailure(text, resolveLocale(input), abortSignal);
+      const response = image.stored && toImageResponse(image.stored, input.imageResponseFormat);
+      const imageResult = {
+        status: image.status,
+        outfitImageUrl: response?.url,
+        outfitImageThumbnailUrl: response?.thumbnailUrl,
+        error: image.error,
+      };
+      sendChunk({type: 'image', ...imageResult});
+
+      const suggestion = {
+        ...text,
+        outfitImageUrl: imageResult.outfitImageUrl,
+        outfitImageThumbnailUrl: imageResult.outfitImageThumbnailUrl,
+        imageStatus: image.status,
+        imageError: image.error,
+      };
+      if (!input.userId) {
+        return suggestion;
+      }
+      return {...suggestion, savedOutfitId: await saveSuggestion(input.userId, text, image.stored?.ref)};
+    } catch (error) {
+      throw toFlowError('generateOutfitSuggestionStreamFlow', error);
+    }
+  }
+);
+
+// The text has already been streamed, so an image failure is reported instead of thrown. A cancelled
+// request still ends the flow.
+async function generateImageOrFailure(
+  text: z.infer<typeof OutfitSuggestionTextSchema>,
+  locale: Locale,
+  abortSignal: AbortSignal
+): Promise<{status: 'ready' | 'failed'; stored?: IngestedImage; error?: z.infer<typeof ImageErrorSchema>}> {
+  try {
+    return {status: 'ready', stored: await generateOutfitImage('generateOutfitSuggestionStreamFlow', text, abortSignal)};
+  } catch (cause) {
+    if (abortSignal.aborted) {
+      throw cause;
+    }
+    const error = toFlowError('generateOutfitSuggestionStreamFlow', cause);
+    console.error('Afbeelding genereren mislukt in generateOutfitSuggestionStreamFlow:', error);
+    return {
+      status: 'failed',
+      error: error instanceof FlowError
+        ? {code: error.code, message: error.getLocalizedMessage(locale)}
+        : {code: 'UNKNOWN_ERROR', message: error instanceof Error ? error.message : String(error)},
+    };
+  }
+}
@@ -4,26 +4,46 @@
  * @fileOverview AI-powered outfit visualization flow.
  *
  * - generateOutfitVisualization - A function that generates an image of an outfit.
+ *   Stored closet items can be referenced by userId and itemIds; their photos are loaded from the wardrobe store.
+ *   The image is stored in the image asset store and returned as an asset reference unless a data URI is requested.
+ *   With an avatar (sent, or saved for the user) every visualization shows the same person; item photos can
+ *   be used as the primary reference for the garments.
  * - GenerateOutfitVisualizationInput - The input type for the generateOutfitVisualization function.
  * - GenerateOutfitVisualizationOutput - The return type for the generateOutfitVisualization function.
  */
 
-import {ai} from '@/ai/genkit';
+import {ai, IMAGE_MODEL} from '@/ai/genkit';
 import {z} from 'genkit';
+import {AvatarSchema, describeAvatarForPrompt, resolveAvatar} from '@/ai/avatar';
+import {assertModelMedia, RecordNotFoundError, toFlowError} from '@/ai/errors';
+import {ImageResponseFormatSchema, ingestImage, isAssetRef, storeGeneratedImage, toImageResponse} from '@/ai/image-assets';
+import {LocaleSchema} from '@/ai/locale';
+import {callWithResilience} from '@/ai/resilient-call';
+import {getWardrobeRepository, resolveItemPhoto} from '@/ai/wardrobe-store';
 
 const ClothingItemVisualSchema = z.object({
   description: z.string().describe('A short description of the clothing item (e.g., "Blue denim jacket", "White cotton t-shirt").'),
-  imageUrl: z.string().url().optional().describe("Optional: A data URI of the item's image for better visual reference by the AI. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
+  imageUrl: z.string().url().optional().describe("Optional: The item's image for better visual reference by the AI, as an image asset reference ('asset://<key>') or a data URI. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
 });
 
 const GenerateOutfitVisualizationInputSchema = z.object({
   description: z.string().describe('A detailed textual description of the complete outfit to be visualized, combining all items.'),
   items: z.array(ClothingItemVisualSchema).optional().describe('Optional: An array of individual clothing items with their descriptions and image URIs to provide more context to the AI.'),
+  userId: z.string().min(1).optional().describe('Optional: The user whose stored closet items are referenced in itemIds.'),
+  itemIds: z.array(z.string()).optional().describe('Optional, requires userId: Stored closet items to include, with their photos, instead of sending them in items.'),
+  avatar: AvatarSchema.optional().describe("Optional: The person to render. Missing fields are taken from the avatar saved for userId and from the user's latest colour analysis."),
+  itemImageRole: z
+    .enum(['context', 'reference'])
+    .optional()
+    .describe("Optional: 'reference' dresses the person in exactly the garments in the item photos; 'context' (default) only uses them as additional context for the description."),
+  imageResponseFormat: ImageResponseFormatSchema.optional(),
+  locale: LocaleSchema.optional().describe("Optional: The language of the error messages: 'nl' (Dutch, default), 'en' (English) or 'de' (German)."),
 });
 export type GenerateOutfitVisualizationInput = z.infer<typeof GenerateOutfitVisualizationInputSchema>;
 
 const GenerateOutfitVisualizationOutputSchema = z.object({
-  visualizationUrl: z.string().url().describe("A data URI of the AI-generated image representing the outfit. Expected format: 'data:image/png;base64,<encoded_data>'."),
+  visualizationUrl: z.string().url().describe("The AI-generated image representing the outfit: an asset reference ('asset://<key>'), or a data URI when imageResponseFormat is 'dataUri'."),
+  visualizationThumbnailUrl: z.string().optional().describe("An asset reference to a small WebP version of the image. Omitted when imageResponseFormat is 'dataUri'."),
 });
 export type GenerateOutfitVisualizationOutput = z.infer<typeof GenerateOutfitVisualizationOutputSchema>;
 
@@ -39,22 +59,36 @@ const generateOutfitVisualizationFlow = ai.defineFlow(
     inputSchema: GenerateOutfitVisualizationInputSchema,
     outputSchema: GenerateOutfitVisualizationOutputSchema,
   },
-  async (input: GenerateOutfitVisualizationInput): Promise<GenerateOutfitVisualizationOutput> => {
+  async (input: GenerateOutfitVisualizationInput, {abortSignal}): Promise<GenerateOutfitVisualizationOutput> => {
+    const items = [...(input.items ?? []), ...await loadStoredItems(input)];
+    const avatar = await resolveAvatar('generateOutfitVisualizationFlow', input);
+    const itemsAreReference = input.itemImageRole === 'reference';
     let promptSegments = [];
-    promptSegments.push({text: `Generate a high-quality, realistic image of a person wearing the following outfit: ${input.description}.`});
+    if (avatar?.referencePhoto) {
+      promptSegments.push({media: {url: avatar.referencePhoto.dataUri}});
+      promptSegments.push({text: "The photo above shows the person who wears the outfit. Keep their face, skin tone, hair and body shape exactly as in this photo and only change the clothing."});
+    }
+    promptSegments.push({text: `Generate a high-quality, realistic image of ${avatar ? 'the person described below' : 'a person'} wearing the following outfit: ${input.description}.`});
+    if (avatar) {
+      // A fixed pose, background and light keep visualizations of different outfits comparable.
+      promptSegments.push({text: `The person:\n${describeAvatarForPrompt(avatar)}\nRender exactly this person. Use a plain light-grey studio background and soft, even light.`});
+    }
     promptSegments.push({text: "Ensure the style is fashionable and clear. The image should be suitable for a fashion app."});
 
-    if (input.items && input.items.length > 0) {
-      promptSegments.push({text: "\n\nFor additional context, here are some of the items included (prioritize the main description above):"});
-      for (const item of input.items) {
+    if (items.length > 0) {
+      promptSegments.push({text: itemsAreReference
+        ? "\n\nThe person wears exactly the garments in the following photos. Reproduce the colour, pattern, fabric, cut and details of each garment as in its photo; use the outfit description above only for what the photos do not show:"
+        : "\n\nFor additional context, here are some of the items included (prioritize the main description above):"});
+      for (const [index, item] of items.entries()) {
         if (item.imageUrl) {
-          // Ensure the image URL is a valid data URI before passing to the model
-          if (item.imageUrl.startsWith('data:image')) {
-            promptSegments.push({media: {url: item.imageUrl}});
-            promptSegments.push({text: `This is a ${item.description}.`});
+          // Validate uploads and load asset references before passing them to the model
+          if (item.imageUrl.startsWith('data:') || isAssetRef(item.imageUrl)) {
+            const image = await ingestImage('generateOutfitVisualizationFlow', `items[${index}].imageUrl`, item.imageUrl);
+            promptSegments.push({media: {url: image.dataUri}});
+            promptSegments.push({text: itemsAreReference ? `Garment ${index + 1}: ${item.description}.` : `This is a ${item.description}.`});
           } else {
             console.warn(`Skipping invalid image URL for visualization: ${item.imageUrl}`);
-            promptSegments.push({text: `(Image for ${item.description} was not in correct data URI format)`});
+            promptSegments.push({text: `(Image for ${item.description} was not an asset reference or data URI)`});
           }
         } else {
           promptSegments.push({text: `- ${item.description}`});
@@ -62,26 +96,47 @@ const generateOutfitVisualizationFlow = ai.defineFlow(
       }
     }
     
-    const {media} = await ai.generate({
-      model: 'googleai/gemini-2.0-flash-exp', // Using the experimental model that supports image generation
-      prompt: promptSegments,
-      config: {
-        responseModalities: ['TEXT', 'IMAGE'], // Must request TEXT even if only IMAGE is primary
-      },
-       safetySettings: [ // Adjust safety settings if needed
-        { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_LOW_AND_ABOVE' },
-        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-        { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE'},
-      ],
-    });
+    try {
+      const generatedImage = await callWithResilience(
+        async ({signal}) => assertModelMedia('generateOutfitVisualizationFlow', await ai.generate({
+          model: IMAGE_MODEL,
+          prompt: promptSegments,
+          config: {
+            responseModalities: ['TEXT', 'IMAGE'], // Must request TEXT even if only IMAGE is primary
+          },
+           safetySettings: [ // Adjust safety settings if needed
+            { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_LOW_AND_ABOVE' },
+            { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+            { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+            { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE'},
+          ],
+          abortSignal: signal,
+        })),
+        {label: 'generateOutfitVisualizationFlow', signal: abortSignal}
+      );
 
-    if (!media?.url) {
-      throw new Error('Failed to generate outfit visualization image. The AI might have declined the request or an unknown error occurred.');
+      const {url, thumbnailUrl} = toImageResponse(await storeGeneratedImage(generatedImage), input.imageResponseFormat);
+      return {
+        visualizationUrl: url,
+        visualizationThumbnailUrl: thumbnailUrl,
+      };
+    } catch (error) {
+      throw toFlowError('generateOutfitVisualizationFlow', error);
     }
-
-    return {
-      visualizationUrl: media.url,
-    };
   }
 );
+
+async function loadStoredItems(input: GenerateOutfitVisualizationInput): Promise<z.infer<typeof ClothingItemVisualSchema>[]> {
+  const {userId, itemIds} = input;
+  if (!userId || !itemIds?.length) {
+    return [];
+  }
+  const repository = getWardrobeRepository();
+  return Promise.all(itemIds.map(async itemId => {
+    const item = await repository.getItem(userId, itemId);
+    if (!item) {
+      throw new RecordNotFoundError('generateOutfitVisualizationFlow', 'item', itemId);
+    }
+    return {description: `${item.itemName} (${item.itemColor})`, imageUrl: item.photoRef ?? await resolveItemPhoto(item)};
+  }));
+}
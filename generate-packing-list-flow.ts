@@ -0,0 +1,255 @@
+
+'use server';
+/**
+ * @fileOverview Packing-list generator for trips.
+ *
+ * The model picks a minimal set of closet items and the combinations they enable. Afterwards the
+ * coverage is checked locally: tops x bottoms + one-pieces must give at least one outfit per day.
+ * If the packed items fall short, unpacked closet items are added; if the closet falls short, the
+ * missing pieces end up on the shopping list. The outfit combinations are completed locally to one per
+ * day when the packed items allow more than the model listed.
+ *
+ * - generatePackingList - A function that builds a packing list for a trip.
+ * - GeneratePackingListInput - The input type for the generatePackingList function.
+ * - GeneratePackingListOutput - The return type for the generatePackingList function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {ClosetItem, ClosetItemSchema, filterKnownItemIds, getItemCategory, ITEM_CATEGORY_LABELS} from '@/ai/closet-item';
+import {assertModelOutput, toFlowError} from '@/ai/errors';
+import {ItemTypeSchema} from '@/ai/item-vocabulary';
+import {getLanguageName, Locale, LocaleSchema, resolveLocale} from '@/ai/locale';
+import {CLOSET_ITEMS_PROMPT} from '@/ai/outfit-prompt';
+import {callWithResilience} from '@/ai/resilient-call';
+import {ClosetSelectionSchema, resolveClosetItems} from '@/ai/wardrobe-store';
+import {describeWeatherForPrompt, resolveWeather, WeatherInputSchema} from '@/ai/weather';
+
+const GeneratePackingListInputSchema = z.object({
+  closetItems: z
+    .array(ClosetItemSchema)
+    .min(1)
+    .optional()
+    .describe('The clothing items in the user\'s digital closet, as created from analyzeClothingItem results. May be omitted when a userId is given.'),
+  destination: z.string().min(1).describe("Where the trip goes, e.g. 'Barcelona'."),
+  climate: WeatherInputSchema.describe('The expected weather at the destination: a structured forecast, or a location plus date to look up.'),
+  tripLengthDays: z.number().int().min(1).max(30).describe('The number of days of the trip.'),
+  activities: z.array(z.string()).describe("The planned activities, e.g. 'Stranddag', 'Museumbezoek', 'Diner in een restaurant'."),
+  stylePreferences: z.string().optional().describe('The user style preferences.'),
+  locale: LocaleSchema.optional(),
+}).merge(ClosetSelectionSchema);
+export type GeneratePackingListInput = z.infer<typeof GeneratePackingListInputSchema>;
+
+const ShoppingListItemSchema = z.object({
+  itemType: z.string().describe("The kind of item to buy in the requested locale, e.g. 'Rain jacket', 'Sandals'."),
+  reason: z.string().describe('Why the item is needed for this trip.'),
+});
+
+const OutfitCombinationSchema = z.object({
+  description: z.string().describe('A short description of the outfit.'),
+  activity: z.string().optional().describe('The planned activity the outfit is meant for, if any.'),
+  itemIds: z.array(z.string()).describe('The ids of the packed closet items in this outfit.'),
+});
+
+const GeneratePackingListOutputSchema = z.object({
+  packedItemIds: z.array(z.string()).describe('The ids of the closet items to pack.'),
+  outfitCombinations: z.array(OutfitCombinationSchema).describe("Outfits that can be made with the packed items: the model's picks, completed with combinations of the other packed tops, bottoms and one-pieces up to one per day."),
+  piecesPerItemType: z.array(
+    z.object({
+      itemType: ItemTypeSchema.describe("The itemType code as given by analyzeClothingItem, e.g. 't_shirt', 'jeans'."),
+      count: z.number().int(),
+    })
+  ).describe('The number of packed pieces per item type.'),
+  possibleCombinations: z.number().int().describe('The number of distinct daily outfits the packed items allow (tops x bottoms + one-pieces).'),
+  coversTrip: z.boolean().describe('Whether the packed items give at least one outfit per day.'),
+  shoppingList: z.array(ShoppingListItemSchema).describe('What to buy because the closet cannot cover the trip. Empty if nothing is needed.'),
+  reasoning: z.string().describe('Why these items were chosen.'),
+});
+export type GeneratePackingListOutput = z.infer<typeof GeneratePackingListOutputSchema>;
+
+export async function generatePackingList(input: GeneratePackingListInput): Promise<GeneratePackingListOutput> {
+  return generatePackingListFlow(input);
+}
+
+const packingPrompt = ai.definePrompt({
+  name: 'generatePackingListPrompt',
+  input: {
+    schema: GeneratePackingListInputSchema.pick({destination: true, tripLengthDays: true, activities: true, stylePreferences: true}).extend({
+      closetItems: z.array(ClosetItemSchema),
+      climateDescription: z.string(),
+      language: z.string(),
+    }),
+  },
+  output: {
+    schema: GeneratePackingListOutputSchema.pick({
+      packedItemIds: true,
+      outfitCombinations: true,
+      shoppingList: true,
+      reasoning: true,
+    }),
+  },
+  prompt: `You are a personal AI stylist helping the user pack for a trip of {{{tripLengthDays}}} days to {{{destination}}}.
+
+  Expected weather at the destination:
+  {{{climateDescription}}}
+  Planned activities:
+  {{#each activities}}
+  - {{{this}}}
+  {{/each}}
+  {{#if stylePreferences}}Style Preferences: {{{stylePreferences}}}{{/if}}
+
+  User Closet:
+  ${CLOSET_ITEMS_PROMPT}
+
+  Make the packing list as small as possible: choose versatile items in colors that combine well, so that tops and bottoms can be mixed and matched into a different outfit for every day.
+  Make sure every planned activity and the weather are covered (e.g. a layer against rain or cold evenings, shoes for walking).
+  Only use items from the user's closet and list the id (the value between the square brackets) of every item to pack in packedItemIds.
+  In outfitCombinations, list the outfits the packed items enable, with the ids of the items in each outfit.
+  If the closet lacks something the trip needs, put it on the shoppingList instead of packing an unsuitable item.
+  Format the output in JSON according to the schema. Ensure all text is in {{{language}}}.
+  `,
+});
+
+function countCombinations(items: ClosetItem[]): number {
+  const count = (category: ReturnType<typeof getItemCategory>) =>
+    items.filter(item => getItemCategory(item.itemType) === category).length;
+  return count('top') * count('bottom') + count('onePiece');
+}
+
+/**
+ * Adds unpacked tops, bottoms and one-pieces until the packed items give `days` outfits, each time
+ * picking the item that adds the most combinations. Returns the (possibly still short) packed items.
+ */
+function topUpPacking(packed: ClosetItem[], closetItems: ClosetItem[], days: number): ClosetItem[] {
+  const result = [...packed];
+  const candidates = closetItems.filter(
+    item => !packed.includes(item) && ['top', 'bottom', 'onePiece'].includes(getItemCategory(item.itemType))
+  );
+  while (countCombinations(result) < days && candidates.length > 0) {
+    const current = countCombinations(result);
+    const gains = candidates.map(candidate => countCombinations([...result, candidate]) - current);
+    // With no tops or no bottoms packed, a single item adds nothing yet; prefer filling the empty category.
+    const best = gains.some(gain => gain > 0)
+      ? gains.indexOf(Math.max(...gains))
+      : candidates.findIndex(candidate => !result.some(item => getItemCategory(item.itemType) === getItemCategory(candidate.itemType)));
+    if (best === -1) {
+      break;
+    }
+    result.push(...candidates.splice(best, 1));
+  }
+  return result;
+}
+
+/** The key pieces to buy when even the whole closet cannot give `days` outfits. */
+function findShortages(packed: ClosetItem[], days: number, locale: Locale): z.infer<typeof ShoppingListItemSchema>[] {
+  const possible = countCombinations(packed);
+  if (possible >= days) {
+    return [];
+  }
+  const tops = packed.filter(item => getItemCategory(item.itemType) === 'top').length;
+  const bottoms = packed.filter(item => getItemCategory(item.itemType) === 'bottom').length;
+  // An extra top adds one outfit per bottom and vice versa, so the smaller category helps the most.
+  const category = tops <= bottoms ? 'top' : 'bottom';
+  return [{
+    itemType: ITEM_CATEGORY_LABELS[category][locale],
+    reason: {
+      nl: `Met de kleding in de kast zijn maar ${possible} verschillende outfits mogelijk voor ${days} dagen.`,
+      en: `The clothes in the closet only allow ${possible} different outfits for ${days} days.`,
+      de: `Mit der Kleidung im Kleiderschrank sind nur ${possible} verschiedene Outfits für ${days} Tage möglich.`,
+    }[locale],
+  }];
+}
+
+/**
+ * Adds combinations of packed key pieces (a one-piece, or a top with a bottom) that no listed outfit
+ * contains yet, until there is one outfit per day or the packed items allow no more.
+ */
+function completeCombinations(
+  listed: z.infer<typeof OutfitCombinationSchema>[],
+  packed: ClosetItem[],
+  days: number,
+  locale: Locale
+): z.infer<typeof OutfitCombinationSchema>[] {
+  const result = [...listed];
+  const inCategory = (category: ReturnType<typeof getItemCategory>) =>
+    packed.filter(item => getItemCategory(item.itemType) === category);
+  const candidates = [
+    ...inCategory('onePiece').map(item => [item]),
+    ...inCategory('top').flatMap(top => inCategory('bottom').map(bottom => [top, bottom])),
+  ];
+  const joiner = {nl: ' met ', en: ' with ', de: ' mit '}[locale];
+  for (const items of candidates) {
+    if (result.length >= days) {
+      break;
+    }
+    if (!result.some(combination => items.every(item => combination.itemIds.includes(item.id)))) {
+      result.push({description: items.map(item => item.itemName).join(joiner), itemIds: items.map(item => item.id)});
+    }
+  }
+  return result;
+}
+
+function countPiecesPerItemType(items: ClosetItem[]): GeneratePackingListOutput['piecesPerItemType'] {
+  const counts = new Map<ClosetItem['itemType'], number>();
+  for (const item of items) {
+    counts.set(item.itemType, (counts.get(item.itemType) ?? 0) + 1);
+  }
+  return Array.from(counts, ([itemType, count]) => ({itemType, count})).sort((a, b) => b.count - a.count);
+}
+
+const generatePackingListFlow = ai.defineFlow(
+  {
+    name: 'generatePackingListFlow',
+    inputSchema: GeneratePackingListInputSchema,
+    outputSchema: GeneratePackingListOutputSchema,
+  },
+  async (input, {abortSignal}): Promise<GeneratePackingListOutput> => {
+    try {
+      const closetItems = await resolveClosetItems('generatePackingListFlow', input);
+      const climateDescription = describeWeatherForPrompt(await resolveWeather(input.climate));
+      const {destination, tripLengthDays, activities, stylePreferences} = input;
+      const locale = resolveLocale(input);
+
+      const output = await callWithResilience(
+        async ({signal}) => assertModelOutput('generatePackingListFlow', await packingPrompt({
+          destination,
+          tripLengthDays,
+          activities,
+          stylePreferences,
+          closetItems,
+          climateDescription,
+          language: getLanguageName(locale),
+        }, {abortSignal: signal})),
+        {label: 'generatePackingListPrompt', signal: abortSignal}
+      );
+
+      const outfitCombinations = output.outfitCombinations.map(combination => ({
+        ...combination,
+        itemIds: filterKnownItemIds(combination.itemIds, closetItems),
+      }));
+      // Items used in a combination have to be packed, even if the model forgot to list them.
+      const packedIds = new Set([
+        ...filterKnownItemIds(output.packedItemIds, closetItems),
+        ...outfitCombinations.flatMap(combination => combination.itemIds),
+      ]);
+      const packed = topUpPacking(
+        closetItems.filter(item => packedIds.has(item.id)),
+        closetItems,
+        input.tripLengthDays
+      );
+
+      const possibleCombinations = countCombinations(packed);
+      return {
+        packedItemIds: packed.map(item => item.id),
+        outfitCombinations: completeCombinations(outfitCombinations, packed, input.tripLengthDays, locale),
+        piecesPerItemType: countPiecesPerItemType(packed),
+        possibleCombinations,
+        coversTrip: possibleCombinations >= input.tripLengthDays,
+        shoppingList: [...findShortages(packed, input.tripLengthDays, locale), ...output.shoppingList],
+        reasoning: output.reasoning,
+      };
+    } catch (error) {
+      throw toFlowError('generatePackingListFlow', error);
+    }
+  }
+);
@@ -1,7 +1,16 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
+import {mockModels} from '@/ai/mock-model';
 
+// AI_MODEL_PROVIDER=mock runs every flow against the local stand-in models of mock-model.ts.
+const useMockModels = process.env.AI_MODEL_PROVIDER === 'mock';
+
+export const TEXT_MODEL = useMockModels ? 'mock/text' : 'googleai/gemini-2.0-flash';
+/** The model for outfit images; it has to support the IMAGE response modality. */
+export const IMAGE_MODEL = useMockModels ? 'mock/image' : 'googleai/gemini-2.0-flash-exp';
+
+// The mock plugin loads its fixtures when it is registered, so production never reads them.
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  plugins: [useMockModels ? mockModels() : googleAI()],
+  model: TEXT_MODEL,
 });
@@ -0,0 +1,292 @@
+/**
+ * @fileOverview Image assets: uploaded photos and generated images kept in a storage backend and referenced
+ * as `asset://<key>`, so flows no longer pass multi-megabyte data URIs around.
+ *
+ * Keys are the SHA-256 of the original bytes plus the format, so the same photo is stored only once.
+ * Images larger than MAX_IMAGE_DIMENSION are scaled down and every image gets a WebP thumbnail.
+ * Data URIs are still accepted everywhere an asset reference is, and can still be returned on request.
+ *
+ * - ImageAssetStore - The interface storage backends implement.
+ * - LocalFileImageAssetStore - Keeps the assets as files in a local directory.
+ * - setImageAssetStore / getImageAssetStore - Configure the store used by the flows.
+ * - isAssetRef - Whether a string is an asset reference.
+ * - ingestImage - Validates an uploaded image (data URI) or loads a referenced one, and returns both forms.
+ * - storeGeneratedImage - Stores an image generated by the model.
+ * - readImageAsset / loadImageAsDataUri - Read a stored asset, e.g. to serve it.
+ * - ImageResponseFormatSchema / toImageResponse - Let callers choose between asset references and data URIs in flow output.
+ */
+
+import {createHash} from 'node:crypto';
+import {mkdir, readFile, rename, stat, writeFile} from 'node:fs/promises';
+import {join} from 'node:path';
+import sharp from 'sharp';
+import {z} from 'genkit';
+import {assertImageDataUri, InvalidInputImageError} from '@/ai/errors';
+
+export const ASSET_REF_PREFIX = 'asset://';
+
+/** Uploads above this size are rejected before decoding. */
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+/** The longest side of a stored image; larger images are scaled down. */
+export const MAX_IMAGE_DIMENSION = 2048;
+const THUMBNAIL_DIMENSION = 256;
+
+const SUPPORTED_IMAGE_TYPES = {
+  'image/jpeg': {extension: 'jpg', format: 'jpeg'},
+  'image/png': {extension: 'png', format: 'png'},
+  'image/webp': {extension: 'webp', format: 'webp'},
+} as const;
+type SupportedMimeType = keyof typeof SUPPORTED_IMAGE_TYPES;
+
+const ASSET_KEY_PATTERN = /^[a-f0-9]{64}\.(jpg|png|webp|thumb\.webp)$/;
+
+export interface ImageAssetStore {
+  get(key: string): Promise<Buffer | undefined>;
+  put(key: string, bytes: Buffer): Promise<void>;
+  has(key: string): Promise<boolean>;
+}
+
+/**
+ * Stores every asset as a file under rootDir, spread over subdirectories named after the first two
+ * characters of the key. Files are written via a temporary file and a rename.
+ */
+export class LocalFileImageAssetStore implements ImageAssetStore {
+  constructor(private readonly rootDir: string) {}
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async put(key: string, bytes: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(join(this.rootDir, key.slice(0, 2)), {recursive: true});
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tempPath, bytes);
+    await rename(tempPath, path);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return stat(this.pathFor(key)).then(() => true, () => false);
+  }
+
+  private pathFor(key: string): string {
+    // Keys come from asset references in user input, so never let one escape the root directory.
+    if (!ASSET_KEY_PATTERN.test(key)) {
+      throw new Error(`Ongeldige asset-sleutel: ${key}`);
+    }
+    return join(this.rootDir, key.slice(0, 2), key);
+  }
+}
+
+let imageAssetStore: ImageAssetStore | undefined;
+
+export function setImageAssetStore(store: ImageAssetStore): void {
+  imageAssetStore = store;
+}
+
+export function getImageAssetStore(): ImageAssetStore {
+  imageAssetStore ??= new LocalFileImageAssetStore(process.env.IMAGE_ASSET_DIR ?? 'image-assets');
+  return imageAssetStore;
+}
+
+export function isAssetRef(value: string): boolean {
+  return value.startsWith(ASSET_REF_PREFIX);
+}
+
+export interface StoredImage {
+  /** The reference to the (possibly scaled down) image, e.g. 'asset://<sha256>.jpg'. */
+  ref: string;
+  thumbnailRef: string;
+  mimeType: SupportedMimeType;
+}
+
+export interface IngestedImage extends StoredImage {
+  /** The stored image as a data URI, for passing it to the model. */
+  dataUri: string;
+}
+
+/** Recognizes the supported formats by their magic bytes, regardless of the declared MIME type. */
+function detectMimeType(bytes: Buffer): SupportedMimeType | undefined {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (bytes.length >= 8 && bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (bytes.length >= 12 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return undefined;
+}
+
+function parseDataUri(dataUri: string): {declaredType: string; bytes: Buffer} {
+  const separator = dataUri.indexOf(',');
+  return {
+    declaredType: dataUri.slice('data:'.length, dataUri.indexOf(';')).toLowerCase(),
+    bytes: Buffer.from(dataUri.slice(separator + 1), 'base64'),
+  };
+}
+
+function toDataUri(mimeType: string, bytes: Buffer): string {
+  return `data:${mimeType};base64,${bytes.toString('base64')}`;
+}
+
+function parseAssetRef(ref: string): {key: string; mimeType: SupportedMimeType} | undefined {
+  const key = ref.slice(ASSET_REF_PREFIX.length);
+  if (!isAssetRef(ref) || !ASSET_KEY_PATTERN.test(key)) {
+    return undefined;
+  }
+  const extension = key.slice(key.lastIndexOf('.') + 1);
+  const mimeType = (Object.keys(SUPPORTED_IMAGE_TYPES) as SupportedMimeType[])
+    .find(type => SUPPORTED_IMAGE_TYPES[type].extension === extension)!;
+  return {key, mimeType};
+}
+
+/** Thrown by storeImage when the bytes cannot be decoded; ingestImage reports it as invalid input. */
+class UnreadableImageError extends Error {
+  constructor(cause: unknown) {
+    super('De afbeelding kon niet gedecodeerd worden.', {cause});
+    this.name = 'UnreadableImageError';
+  }
+}
+
+/**
+ * Stores an image and its thumbnail under content-hashed keys and returns the references. Images
+ * within MAX_IMAGE_DIMENSION without an EXIF rotation are stored byte for byte; others are re-encoded.
+ * An image that is already stored is not processed again.
+ */
+async function storeImage(bytes: Buffer, mimeType: SupportedMimeType): Promise<StoredImage & {bytes: Buffer}> {
+  const store = getImageAssetStore();
+  const {extension, format} = SUPPORTED_IMAGE_TYPES[mimeType];
+  const hash = createHash('sha256').update(bytes).digest('hex');
+  const key = `${hash}.${extension}`;
+  const thumbnailKey = `${hash}.thumb.webp`;
+  const result = {ref: ASSET_REF_PREFIX + key, thumbnailRef: ASSET_REF_PREFIX + thumbnailKey, mimeType};
+
+  const existing = await store.get(key);
+  if (existing && await store.has(thumbnailKey)) {
+    return {...result, bytes: existing};
+  }
+
+  let stored: Buffer;
+  let thumbnail: Buffer;
+  try {
+    const {width = 0, height = 0, orientation = 1} = await sharp(bytes).metadata();
+    stored = width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION || orientation > 1
+      ? await sharp(bytes)
+          .rotate()
+          .resize({width: MAX_IMAGE_DIMENSION, height: MAX_IMAGE_DIMENSION, fit: 'inside', withoutEnlargement: true})
+          .toFormat(format)
+          .toBuffer()
+      : bytes;
+    thumbnail = await sharp(bytes)
+      .rotate()
+      .resize({width: THUMBNAIL_DIMENSION, height: THUMBNAIL_DIMENSION, fit: 'inside', withoutEnlargement: true})
+      .webp()
+      .toBuffer();
+  } catch (error) {
+    throw new UnreadableImageError(error);
+  }
+
+  await store.put(key, stored);
+  await store.put(thumbnailKey, thumbnail);
+  return {...result, bytes: stored};
+}
+
+/**
+ * Accepts an image from flow input: an asset reference, or a data URI that is validated (format,
+ * declared and actual MIME type, size) and stored. Returns the reference and the data URI for the model.
+ */
+export async function ingestImage(source: string, field: string, value: string): Promise<IngestedImage> {
+  if (isAssetRef(value)) {
+    const parsed = parseAssetRef(value);
+    const bytes = parsed && await getImageAssetStore().get(parsed.key);
+    if (!parsed || !bytes) {
+      throw new InvalidInputImageError(source, field, {
+        nl: `de afbeelding '${value}' bestaat niet (meer).`,
+        en: `the image '${value}' does not exist (anymore).`,
+        de: `das Bild '${value}' existiert nicht (mehr).`,
+      });
+    }
+    const thumbnailRef = parsed.key.includes('.thumb.') ? value : `${ASSET_REF_PREFIX}${parsed.key.slice(0, 64)}.thumb.webp`;
+    return {ref: value, thumbnailRef, mimeType: parsed.mimeType, dataUri: toDataUri(parsed.mimeType, bytes)};
+  }
+
+  assertImageDataUri(source, field, value);
+  const {declaredType, bytes} = parseDataUri(value);
+  if (!(declaredType in SUPPORTED_IMAGE_TYPES)) {
+    throw new InvalidInputImageError(source, field, {
+      nl: `het bestandstype ${declaredType} wordt niet ondersteund; gebruik JPEG, PNG of WebP.`,
+      en: `the file type ${declaredType} is not supported; use JPEG, PNG or WebP.`,
+      de: `der Dateityp ${declaredType} wird nicht unterstützt; verwende JPEG, PNG oder WebP.`,
+    });
+  }
+  if (bytes.length > MAX_UPLOAD_BYTES) {
+    const megabytes = (bytes.length / 1024 / 1024).toFixed(1);
+    throw new InvalidInputImageError(source, field, {
+      nl: `de afbeelding is ${megabytes} MB; het maximum is ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`,
+      en: `the image is ${megabytes} MB; the maximum is ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`,
+      de: `das Bild ist ${megabytes} MB groß; das Maximum ist ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`,
+    });
+  }
+  const actualType = detectMimeType(bytes);
+  if (actualType !== declaredType) {
+    throw new InvalidInputImageError(source, field, {
+      nl: `de inhoud is geen ${declaredType}-afbeelding${actualType ? ` maar ${actualType}` : ''}.`,
+      en: `the content is not a ${declaredType} image${actualType ? ` but ${actualType}` : ''}.`,
+      de: `der Inhalt ist kein ${declaredType}-Bild${actualType ? `, sondern ${actualType}` : ''}.`,
+    });
+  }
+
+  try {
+    const {bytes: stored, ...image} = await storeImage(bytes, actualType);
+    return {...image, dataUri: toDataUri(image.mimeType, stored)};
+  } catch (error) {
+    if (error instanceof UnreadableImageError) {
+      throw new InvalidInputImageError(source, field, {
+        nl: 'de afbeelding kon niet gelezen worden; het bestand is mogelijk beschadigd.',
+        en: 'the image could not be read; the file may be damaged.',
+        de: 'das Bild konnte nicht gelesen werden; die Datei ist möglicherweise beschädigt.',
+      }, error.cause);
+    }
+    throw error;
+  }
+}
+
+/** Stores an image the model generated (a data URI from assertModelMedia). */
+export async function storeGeneratedImage(dataUri: string): Promise<IngestedImage> {
+  const {bytes} = parseDataUri(dataUri);
+  const mimeType = detectMimeType(bytes);
+  if (!mimeType) {
+    throw new Error(`Gegenereerde afbeelding heeft een onbekend formaat (${dataUri.slice(0, 30)}...).`);
+  }
+  const {bytes: stored, ...image} = await storeImage(bytes, mimeType);
+  return {...image, dataUri: toDataUri(mimeType, stored)};
+}
+
+export async function readImageAsset(ref: string): Promise<{bytes: Buffer; mimeType: string} | undefined> {
+  const parsed = parseAssetRef(ref);
+  const bytes = parsed && await getImageAssetStore().get(parsed.key);
+  return parsed && bytes ? {bytes, mimeType: parsed.mimeType} : undefined;
+}
+
+export async function loadImageAsDataUri(ref: string): Promise<string | undefined> {
+  const asset = await readImageAsset(ref);
+  return asset && toDataUri(asset.mimeType, asset.bytes);
+}
+
+export const ImageResponseFormatSchema = z
+  .enum(['assetRef', 'dataUri'])
+  .describe("How generated images are returned: 'assetRef' (default) returns asset:// references plus a thumbnail, 'dataUri' returns the image inline as before.");
+export type ImageResponseFormat = z.infer<typeof ImageResponseFormatSchema>;
+
+export function toImageResponse(image: IngestedImage, format: ImageResponseFormat = 'assetRef'): {url: string; thumbnailUrl?: string} {
+  return format === 'dataUri' ? {url: image.dataUri} : {url: image.ref, thumbnailUrl: image.thumbnailRef};
+}
@@ -0,0 +1,113 @@
+/**
+ * @fileOverview Tests for the duplicate detection of closet items: the perceptual hash, the attribute
+ * similarity and the possible duplicates reported by analyzeClothingItem.
+ *
+ * Run with `npx tsx --test *.test.ts`.
+ */
+
+import {createPortraitPhoto, CLOSET, modelClothingItem, resetTestState} from '@/ai/test-support';
+import assert from 'node:assert/strict';
+import {beforeEach, describe, test} from 'node:test';
+import sharp from 'sharp';
+import {analyzeClothingItem} from '@/ai/flows/analyze-clothing-item-flow';
+import {attributeSimilarity, computePerceptualHash, findSimilarItems, hashSimilarity} from '@/ai/item-similarity';
+import {mockModelController} from '@/ai/mock-model';
+import {getWardrobeRepository} from '@/ai/wardrobe-store';
+
+const STRIPES_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="90" height="80">
+  <rect width="90" height="80" fill="#FFFFFF"/>
+  <rect x="0" width="15" height="80" fill="#202020"/>
+  <rect x="30" width="15" height="80" fill="#202020"/>
+  <rect x="60" width="15" height="80" fill="#202020"/>
+</svg>`;
+
+const [whiteTee, , navyJeans, blackTrousers, whiteSneakers] = CLOSET;
+
+beforeEach(resetTestState);
+
+describe('computePerceptualHash', () => {
+  test('gives a 64-bit hex hash that survives resizing and a change in exposure', async () => {
+    const hash = await computePerceptualHash(await createPortraitPhoto());
+    const darkerSmaller = await computePerceptualHash(await createPortraitPhoto({size: 240, brightness: 0.8}));
+
+    assert.match(hash, /^[0-9a-f]{16}$/);
+    assert.ok(hashSimilarity(hash, darkerSmaller) >= 0.9);
+  });
+
+  test('tells different photos apart', async () => {
+    const portrait = await computePerceptualHash(await createPortraitPhoto());
+    const stripes = await computePerceptualHash(await sharp(Buffer.from(STRIPES_SVG)).png().toBuffer());
+
+    assert.ok(hashSimilarity(portrait, stripes) < 0.5);
+  });
+});
+
+describe('attributeSimilarity', () => {
+  test('is 1 for identical attributes and 0 across categories', () => {
+    assert.equal(attributeSimilarity(navyJeans, navyJeans), 1);
+    assert.equal(attributeSimilarity(whiteTee, whiteSneakers), 0);
+  });
+
+  test('ranks a look-alike above a different garment of the same category', () => {
+    const darkJeans = {...navyJeans, itemName: 'Dark jeans', itemColorHex: '#232D48', fullDescription: 'Dark navy jeans.'};
+
+    assert.ok(attributeSimilarity(navyJeans, darkJeans) > attributeSimilarity(navyJeans, blackTrousers));
+  });
+});
+
+describe('findSimilarItems', () => {
+  test('calls a match on attributes alone similar, never a duplicate', () => {
+    const [match] = findSimilarItems({...navyJeans}, CLOSET);
+
+    assert.equal(match.itemId, 'navy-jeans');
+    assert.equal(match.verdict, 'similar');
+    assert.equal(match.imageSimilarity, undefined);
+  });
+
+  test('calls the same photo a duplicate', () => {
+    const closet = CLOSET.map(item => ({...item, photoRef: `asset://${item.id}`}));
+
+    const [match] = findSimilarItems({...navyJeans, itemName: 'Jeans', photoRef: 'asset://navy-jeans'}, closet);
+
+    assert.equal(match.verdict, 'duplicate');
+    assert.equal(match.imageSimilarity, 1);
+  });
+});
+
+describe('analyzeClothingItem duplicates', () => {
+  test('reports the stored item when the same garment is analysed again', async () => {
+    mockModelController.enqueue('text', {output: modelClothingItem()}, {output: modelClothingItem({itemName: 'Navy jeans'})});
+    const first = await analyzeClothingItem({photoDataUri: await createPortraitPhoto(), userId: 'user-1'});
+
+    const second = await analyzeClothingItem({photoDataUri: await createPortraitPhoto({size: 480}), userId: 'user-1'});
+
+    assert.deepEqual(first.possibleDuplicates, []);
+    assert.equal(second.possibleDuplicates?.[0].itemId, first.itemId);
+    assert.equal(second.possibleDuplicates?.[0].verdict, 'duplicate');
+    assert.ok(second.itemId);
+    assert.equal((await getWardrobeRepository().listItems('user-1')).length, 2);
+  });
+
+  test('does not store a duplicate with skipDuplicates', async () => {
+    mockModelController.enqueue('text', {output: modelClothingItem()}, {output: modelClothingItem()});
+    const photo = await createPortraitPhoto();
+    const first = await analyzeClothingItem({photoDataUri: photo, userId: 'user-1'});
+
+    const second = await analyzeClothingItem({photoDataUri: photo, userId: 'user-1', skipDuplicates: true});
+
+    assert.equal(second.duplicateOf, first.itemId);
+    assert.equal(second.itemId, undefined);
+    assert.equal((await getWardrobeRepository().listItems('user-1')).length, 1);
+  });
+
+  test('hashes the photo of an item stored without a hash and stores the hash', async () => {
+    const photo = await createPortraitPhoto();
+    await getWardrobeRepository().saveItem({...navyJeans, userId: 'user-1', photoDataUri: photo});
+    mockModelController.enqueue('text', {output: modelClothingItem()});
+
+    const result = await analyzeClothingItem({photoDataUri: photo, userId: 'user-1', skipDuplicates: true});
+
+    assert.equal(result.duplicateOf, 'navy-jeans');
+    assert.equal((await getWardrobeRepository().getItem('user-1', 'navy-jeans'))?.photoHash, await computePerceptualHash(photo));
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * @fileOverview Similarity of closet items, to find duplicates and near-duplicates when an item is added.
+ *
+ * Two signals are combined. The perceptual hash (dHash) of the photo compares the brightness gradients
+ * of a 9x8 greyscale thumbnail, so it survives re-encoding, resizing and small changes in exposure.
+ * The attribute similarity compares itemType, dominant colour (CIEDE2000), itemStyle and the words of
+ * the name and description, so the same garment photographed again in another setting is found as
+ * well. Items of different categories (e.g. a top and shoes) never match. Only a matching photo can make
+ * an item a 'duplicate'; on attributes alone it is at most 'similar', since people do own two of the
+ * same basic t-shirt.
+ *
+ * - computePerceptualHash - The 64-bit dHash of an image, as 16 hex characters.
+ * - hashSimilarity - 1 for identical hashes, 0 for hashes as different as two unrelated photos.
+ * - attributeSimilarity - Compares the analysed attributes of two items (0 - 1).
+ * - findSimilarItems - Scores closet items against a new item and returns the likely matches.
+ * - findSimilarStoredItems - The same for a user's stored closet, hashing stored photos where needed.
+ * - SimilarItemSchema - A match: the closet item, its scores and whether it is probably the same garment.
+ */
+
+import sharp from 'sharp';
+import {z} from 'genkit';
+import {ClothingItemAnalysis, getItemCategory} from '@/ai/closet-item';
+import {colorDistance} from '@/ai/color-science';
+import {normalizeHexColor} from '@/ai/seasonal-palettes';
+import {getWardrobeRepository, resolveItemPhoto, StoredClosetItem} from '@/ai/wardrobe-store';
+
+const HASH_BITS = 64;
+/** Unrelated photos differ in about half of the bits, so that is where the hash similarity reaches 0. */
+const UNRELATED_HASH_DISTANCE = HASH_BITS / 2;
+/** A CIEDE2000 difference at which two colours no longer count as the same colour at all. */
+const MAX_COLOR_DIFFERENCE = 30;
+
+const ATTRIBUTE_WEIGHTS = {itemType: 0.35, color: 0.35, style: 0.1, description: 0.2};
+const SAME_CATEGORY_TYPE_SCORE = 0.4;
+
+/** From here on the photos show the same garment (about 3 differing bits). */
+const DUPLICATE_HASH_SIMILARITY = 0.9;
+const DUPLICATE_MIN_ATTRIBUTE_SIMILARITY = 0.5;
+const DEFAULT_MIN_SCORE = 0.6;
+const DEFAULT_LIMIT = 5;
+
+export const SimilarItemSchema = z.object({
+  itemId: z.string(),
+  itemName: z.string(),
+  score: z.number().min(0).max(1).describe('The overall similarity: the mean of the photo and attribute similarity, or the attribute similarity when a photo is missing.'),
+  imageSimilarity: z.number().min(0).max(1).optional().describe('The similarity of the perceptual photo hashes. Omitted when one of the items has no photo.'),
+  attributeSimilarity: z.number().min(0).max(1).describe('The similarity of itemType, colour, style and description.'),
+  verdict: z.enum(['duplicate', 'similar']).describe("'duplicate': probably the same garment, e.g. a re-upload; 'similar': a look-alike that may be a second, separate item."),
+});
+export type SimilarItem = z.infer<typeof SimilarItemSchema>;
+
+export interface SimilarityCandidate extends ClothingItemAnalysis {
+  /** The perceptual hash of the photo, from computePerceptualHash. */
+  photoHash?: string;
+  /** The photo in the image asset store; the same reference means the very same photo. */
+  photoRef?: string;
+}
+
+/** `image` is a data URI or the image bytes. */
+export async function computePerceptualHash(image: Buffer | string): Promise<string> {
+  const bytes = typeof image === 'string' ? Buffer.from(image.slice(image.indexOf(',') + 1), 'base64') : image;
+  const pixels = await sharp(bytes).rotate().greyscale().resize(9, 8, {fit: 'fill'}).raw().toBuffer();
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let column = 0; column < 8; column++) {
+      const left = pixels[row * 9 + column];
+      const right = pixels[row * 9 + column + 1];
+      byte = (byte << 1) | (left < right ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+function hammingDistance(hash1: string, hash2: string): number {
+  let distance = 0;
+  for (let index = 0; index < hash1.length; index += 2) {
+    let differing = parseInt(hash1.slice(index, index + 2), 16) ^ parseInt(hash2.slice(index, index + 2), 16);
+    while (differing) {
+      distance += differing & 1;
+      differing >>= 1;
+    }
+  }
+  return distance;
+}
+
+export function hashSimilarity(hash1: string, hash2: string): number {
+  return Math.max(0, 1 - hammingDistance(hash1, hash2) / UNRELATED_HASH_DISTANCE);
+}
+
+function words(item: Pick<ClothingItemAnalysis, 'itemName' | 'fullDescription'>): Set<string> {
+  return new Set(`${item.itemName} ${item.fullDescription}`.toLowerCase().match(/\p{L}{3,}/gu) ?? []);
+}
+
+function jaccard(set1: Set<string>, set2: Set<string>): number {
+  const union = new Set([...set1, ...set2]);
+  if (union.size === 0) {
+    return 0;
+  }
+  return [...set1].filter(word => set2.has(word)).length / union.size;
+}
+
+function colorSimilarity(hex1: string, hex2: string): number {
+  const normalized1 = normalizeHexColor(hex1);
+  const normalized2 = normalizeHexColor(hex2);
+  if (!normalized1 || !normalized2) {
+    return 0;
+  }
+  return 1 - Math.min(colorDistance(normalized1, normalized2), MAX_COLOR_DIFFERENCE) / MAX_COLOR_DIFFERENCE;
+}
+
+/** 0 for items of different categories; otherwise the weighted similarity of type, colour, style and description. */
+export function attributeSimilarity(item1: ClothingItemAnalysis, item2: ClothingItemAnalysis): number {
+  if (getItemCategory(item1.itemType) !== getItemCategory(item2.itemType)) {
+    return 0;
+  }
+  const score =
+    ATTRIBUTE_WEIGHTS.itemType * (item1.itemType === item2.itemType ? 1 : SAME_CATEGORY_TYPE_SCORE) +
+    ATTRIBUTE_WEIGHTS.color * colorSimilarity(item1.itemColorHex, item2.itemColorHex) +
+    ATTRIBUTE_WEIGHTS.style * (item1.itemStyle === item2.itemStyle ? 1 : 0) +
+    ATTRIBUTE_WEIGHTS.description * jaccard(words(item1), words(item2));
+  return Math.round(score * 100) / 100;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Returns the items scoring at least minScore, most similar first. */
+export function findSimilarItems(
+  candidate: SimilarityCandidate,
+  items: Array<ClothingItemAnalysis & {id: string; photoHash?: string; photoRef?: string}>,
+  options: {minScore?: number; limit?: number} = {}
+): SimilarItem[] {
+  const matches = items.flatMap((item): SimilarItem[] => {
+    const attributes = attributeSimilarity(candidate, item);
+    if (attributes === 0) {
+      return [];
+    }
+    const samePhoto = !!candidate.photoRef && candidate.photoRef === item.photoRef;
+    const image = samePhoto ? 1 : candidate.photoHash && item.photoHash ? hashSimilarity(candidate.photoHash, item.photoHash) : undefined;
+    const score = image === undefined ? attributes : (image + attributes) / 2;
+    const duplicate = samePhoto || (image !== undefined && image >= DUPLICATE_HASH_SIMILARITY && attributes >= DUPLICATE_MIN_ATTRIBUTE_SIMILARITY);
+    if (!duplicate && score < (options.minScore ?? DEFAULT_MIN_SCORE)) {
+      return [];
+    }
+    return [{
+      itemId: item.id,
+      itemName: item.itemName,
+      score: round(score),
+      imageSimilarity: image === undefined ? undefined : round(image),
+      attributeSimilarity: attributes,
+      verdict: duplicate ? 'duplicate' : 'similar',
+    }];
+  });
+  return matches
+    .sort((a, b) => Number(b.verdict === 'duplicate') - Number(a.verdict === 'duplicate') || b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+/**
+ * Compares a new item with the user's stored closet. Items stored before photos were hashed are
+ * hashed from their photo once and the hash is stored with the item; an item whose photo cannot be
+ * read is compared on attributes.
+ */
+export async function findSimilarStoredItems(
+  userId: string,
+  candidate: SimilarityCandidate,
+  options: {minScore?: number; limit?: number} = {}
+): Promise<SimilarItem[]> {
+  const repository = getWardrobeRepository();
+  const stored = await repository.listItems(userId);
+  const items = await Promise.all(stored.map(async (item: StoredClosetItem) => {
+    if (item.photoHash || !candidate.photoHash || getItemCategory(item.itemType) !== getItemCategory(candidate.itemType)) {
+      return item;
+    }
+    const photo = await resolveItemPhoto(item).catch(() => undefined);
+    const photoHash = photo && await computePerceptualHash(photo).catch(() => undefined);
+    return photoHash ? repository.saveItem({...item, photoHash}) : item;
+  }));
+  return findSimilarItems(candidate, items, options);
+}
@@ -0,0 +1,133 @@
+/**
+ * @fileOverview Canonical, language-neutral codes for item types and styles, with their display labels.
+ *
+ * Closet items store these codes instead of the words the model happened to use, so closets analysed in
+ * different languages stay comparable (style profiles, analytics, laundry limits). Items stored before
+ * the codes existed are mapped onto them by their (Dutch) label.
+ *
+ * - ITEM_TYPES - Every item type with its garment category and its labels.
+ * - ITEM_STYLES - Every item style with its labels.
+ * - ItemTypeSchema / ItemStyleSchema - The codes as Zod enums.
+ * - getItemTypeLabel / getItemStyleLabel - The display label of a code in a locale.
+ * - isItemType / findItemTypeByLabel - Recognise a code, or find the code of a label in any locale.
+ * - normalizeItemStyle - Maps a code or a label in any locale onto its code.
+ */
+
+import {z} from 'genkit';
+import type {ItemCategory} from '@/ai/closet-item';
+import {DEFAULT_LOCALE, Locale, LocalizedText} from '@/ai/locale';
+
+interface ItemTypeDefinition {
+  category: ItemCategory;
+  labels: LocalizedText;
+}
+
+export const ITEM_TYPES = {
+  top: {category: 'top', labels: {nl: 'Bovenstuk', en: 'Top', de: 'Oberteil'}},
+  t_shirt: {category: 'top', labels: {nl: 'T-shirt', en: 'T-shirt', de: 'T-Shirt'}},
+  long_sleeve_t_shirt: {category: 'top', labels: {nl: 'T-shirt met lange mouwen', en: 'Long-sleeve T-shirt', de: 'Langarmshirt'}},
+  sleeveless_t_shirt: {category: 'top', labels: {nl: 'Mouwloos T-shirt', en: 'Sleeveless T-shirt', de: 'Ärmelloses T-Shirt'}},
+  polo: {category: 'top', labels: {nl: 'Polo', en: 'Polo shirt', de: 'Poloshirt'}},
+  tank_top: {category: 'top', labels: {nl: 'Tanktop', en: 'Tank top', de: 'Tanktop'}},
+  camisole: {category: 'top', labels: {nl: 'Hemdje', en: 'Camisole', de: 'Trägertop'}},
+  crop_top: {category: 'top', labels: {nl: 'Croptop', en: 'Crop top', de: 'Crop-Top'}},
+  blouse: {category: 'top', labels: {nl: 'Blouse', en: 'Blouse', de: 'Bluse'}},
+  shirt: {category: 'top', labels: {nl: 'Overhemd', en: 'Shirt', de: 'Hemd'}},
+  sweatshirt: {category: 'top', labels: {nl: 'Sweater', en: 'Sweatshirt', de: 'Sweatshirt'}},
+  hoodie: {category: 'top', labels: {nl: 'Hoodie', en: 'Hoodie', de: 'Kapuzenpullover'}},
+  jumper: {category: 'top', labels: {nl: 'Trui', en: 'Jumper', de: 'Pullover'}},
+  cardigan: {category: 'top', labels: {nl: 'Vest', en: 'Cardigan', de: 'Strickjacke'}},
+  sweater_vest: {category: 'top', labels: {nl: 'Spencer', en: 'Sweater vest', de: 'Pullunder'}},
+  sports_top: {category: 'top', labels: {nl: 'Sporttop', en: 'Sports top', de: 'Sporttop'}},
+  bodysuit: {category: 'top', labels: {nl: 'Body', en: 'Bodysuit', de: 'Body'}},
+  jeans: {category: 'bottom', labels: {nl: 'Jeans', en: 'Jeans', de: 'Jeans'}},
+  trousers: {category: 'bottom', labels: {nl: 'Broek', en: 'Trousers', de: 'Hose'}},
+  tailored_trousers: {category: 'bottom', labels: {nl: 'Pantalon', en: 'Tailored trousers', de: 'Anzughose'}},
+  chinos: {category: 'bottom', labels: {nl: 'Chino', en: 'Chinos', de: 'Chinohose'}},
+  shorts: {category: 'bottom', labels: {nl: 'Korte broek', en: 'Shorts', de: 'Shorts'}},
+  skirt: {category: 'bottom', labels: {nl: 'Rok', en: 'Skirt', de: 'Rock'}},
+  leggings: {category: 'bottom', labels: {nl: 'Legging', en: 'Leggings', de: 'Leggings'}},
+  joggers: {category: 'bottom', labels: {nl: 'Joggingbroek', en: 'Joggers', de: 'Jogginghose'}},
+  dress: {category: 'onePiece', labels: {nl: 'Jurk', en: 'Dress', de: 'Kleid'}},
+  jumpsuit: {category: 'onePiece', labels: {nl: 'Jumpsuit', en: 'Jumpsuit', de: 'Jumpsuit'}},
+  jacket: {category: 'outerwear', labels: {nl: 'Jas', en: 'Jacket', de: 'Jacke'}},
+  coat: {category: 'outerwear', labels: {nl: 'Mantel', en: 'Coat', de: 'Mantel'}},
+  blazer: {category: 'outerwear', labels: {nl: 'Blazer', en: 'Blazer', de: 'Blazer'}},
+  trench_coat: {category: 'outerwear', labels: {nl: 'Trenchcoat', en: 'Trench coat', de: 'Trenchcoat'}},
+  parka: {category: 'outerwear', labels: {nl: 'Parka', en: 'Parka', de: 'Parka'}},
+  rain_jacket: {category: 'outerwear', labels: {nl: 'Regenjas', en: 'Rain jacket', de: 'Regenjacke'}},
+  gilet: {category: 'outerwear', labels: {nl: 'Bodywarmer', en: 'Gilet', de: 'Steppweste'}},
+  shoes: {category: 'footwear', labels: {nl: 'Schoenen', en: 'Shoes', de: 'Schuhe'}},
+  sneakers: {category: 'footwear', labels: {nl: 'Sneakers', en: 'Sneakers', de: 'Sneaker'}},
+  sports_shoes: {category: 'footwear', labels: {nl: 'Sportschoenen', en: 'Sports shoes', de: 'Sportschuhe'}},
+  boots: {category: 'footwear', labels: {nl: 'Laarzen', en: 'Boots', de: 'Stiefel'}},
+  ankle_boots: {category: 'footwear', labels: {nl: 'Enkellaarsjes', en: 'Ankle boots', de: 'Stiefeletten'}},
+  sandals: {category: 'footwear', labels: {nl: 'Sandalen', en: 'Sandals', de: 'Sandalen'}},
+  pumps: {category: 'footwear', labels: {nl: 'Pumps', en: 'Court shoes', de: 'Pumps'}},
+  loafers: {category: 'footwear', labels: {nl: 'Loafers', en: 'Loafers', de: 'Loafer'}},
+  accessory: {category: 'accessory', labels: {nl: 'Accessoire', en: 'Accessory', de: 'Accessoire'}},
+  bag: {category: 'accessory', labels: {nl: 'Tas', en: 'Bag', de: 'Tasche'}},
+  belt: {category: 'accessory', labels: {nl: 'Riem', en: 'Belt', de: 'Gürtel'}},
+  scarf: {category: 'accessory', labels: {nl: 'Sjaal', en: 'Scarf', de: 'Schal'}},
+  jewellery: {category: 'accessory', labels: {nl: 'Sieraad', en: 'Jewellery', de: 'Schmuck'}},
+  necklace: {category: 'accessory', labels: {nl: 'Ketting', en: 'Necklace', de: 'Halskette'}},
+  bracelet: {category: 'accessory', labels: {nl: 'Armband', en: 'Bracelet', de: 'Armband'}},
+  earrings: {category: 'accessory', labels: {nl: 'Oorbellen', en: 'Earrings', de: 'Ohrringe'}},
+  ring: {category: 'accessory', labels: {nl: 'Ring', en: 'Ring', de: 'Ring'}},
+  headwear: {category: 'accessory', labels: {nl: 'Hoofddeksel', en: 'Headwear', de: 'Kopfbedeckung'}},
+  cap: {category: 'accessory', labels: {nl: 'Pet', en: 'Cap', de: 'Kappe'}},
+  beanie: {category: 'accessory', labels: {nl: 'Muts', en: 'Beanie', de: 'Mütze'}},
+} satisfies Record<string, ItemTypeDefinition>;
+export type ItemType = keyof typeof ITEM_TYPES;
+
+export const ITEM_STYLES = {
+  casual: {nl: 'Casual', en: 'Casual', de: 'Casual'},
+  smart_casual: {nl: 'Smart casual', en: 'Smart casual', de: 'Smart Casual'},
+  business: {nl: 'Zakelijk', en: 'Business', de: 'Business'},
+  formal: {nl: 'Formeel', en: 'Formal', de: 'Formell'},
+  elegant: {nl: 'Elegant', en: 'Elegant', de: 'Elegant'},
+  sporty: {nl: 'Sportief', en: 'Sporty', de: 'Sportlich'},
+  bohemian: {nl: 'Bohemian', en: 'Bohemian', de: 'Boho'},
+  edgy: {nl: 'Stoer', en: 'Edgy', de: 'Rockig'},
+  classic: {nl: 'Klassiek', en: 'Classic', de: 'Klassisch'},
+  romantic: {nl: 'Romantisch', en: 'Romantic', de: 'Romantisch'},
+  minimalist: {nl: 'Minimalistisch', en: 'Minimalist', de: 'Minimalistisch'},
+  streetwear: {nl: 'Streetwear', en: 'Streetwear', de: 'Streetwear'},
+  vintage: {nl: 'Vintage', en: 'Vintage', de: 'Vintage'},
+} satisfies Record<string, LocalizedText>;
+export type ItemStyle = keyof typeof ITEM_STYLES;
+
+const enumOf = <T extends string>(record: Record<T, unknown>) => z.enum(Object.keys(record) as [T, ...T[]]);
+
+export const ItemTypeSchema = enumOf(ITEM_TYPES);
+export const ItemStyleSchema = enumOf(ITEM_STYLES);
+
+export function getItemTypeLabel(itemType: ItemType, locale: Locale = DEFAULT_LOCALE): string {
+  return ITEM_TYPES[itemType].labels[locale];
+}
+
+export function getItemStyleLabel(itemStyle: ItemStyle, locale: Locale = DEFAULT_LOCALE): string {
+  return ITEM_STYLES[itemStyle][locale];
+}
+
+export function isItemType(value: string): value is ItemType {
+  return Object.hasOwn(ITEM_TYPES, value);
+}
+
+function findByLabel<T extends string>(value: string, labels: Array<[T, LocalizedText]>): T | undefined {
+  const normalized = value.trim().toLowerCase();
+  return labels.find(([, text]) => Object.values(text).some(label => label.toLowerCase() === normalized))?.[0];
+}
+
+/** The item type whose label in any locale is `value` (ignoring case), e.g. 'Trui', 'Jumper' or 'Pullover'. */
+export function findItemTypeByLabel(value: string): ItemType | undefined {
+  return findByLabel(value, Object.entries(ITEM_TYPES).map(([code, {labels}]) => [code as ItemType, labels]));
+}
+
+/** Maps a code or a label in any locale onto its code. Styles outside the vocabulary become 'casual'. */
+export function normalizeItemStyle(value: string): ItemStyle {
+  if (Object.hasOwn(ITEM_STYLES, value)) {
+    return value as ItemStyle;
+  }
+  return findByLabel(value, Object.entries(ITEM_STYLES) as Array<[ItemStyle, LocalizedText]>) ?? 'casual';
+}
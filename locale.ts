@@ -0,0 +1,40 @@
+/**
+ * @fileOverview The languages the flows answer in.
+ *
+ * Prompts are written in English and get the name of the requested language as their `language` input.
+ * Stored values that are compared across users (item types and styles, season types) are canonical
+ * codes; only their display labels depend on the locale.
+ *
+ * - LOCALES - The supported locales: Dutch (default), English and German.
+ * - LocaleSchema - The optional `locale` input of the flows.
+ * - LocalizedText - A text in every supported locale.
+ * - resolveLocale - The locale of a flow input, defaulting to Dutch.
+ * - getLanguageName - The English name of a locale's language, for prompts.
+ */
+
+import {z} from 'genkit';
+
+export const LOCALES = ['nl', 'en', 'de'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'nl';
+
+export type LocalizedText = Record<Locale, string>;
+
+export const LocaleSchema = z
+  .enum(LOCALES)
+  .describe("The language of the texts in the output: 'nl' (Dutch, default), 'en' (English) or 'de' (German).");
+
+const LANGUAGE_NAMES: Record<Locale, string> = {
+  nl: 'Dutch',
+  en: 'English',
+  de: 'German',
+};
+
+export function resolveLocale(input: {locale?: Locale}): Locale {
+  return input.locale ?? DEFAULT_LOCALE;
+}
+
+export function getLanguageName(locale: Locale): string {
+  return LANGUAGE_NAMES[locale];
+}
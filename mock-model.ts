@@ -0,0 +1,186 @@
+/**
+ * @fileOverview Local stand-in models for tests, offline development and prompt evaluations.
+ *
+ * With AI_MODEL_PROVIDER=mock, genkit.ts registers this plugin instead of Google AI, so every flow runs
+ * without network access. A response is taken from the script (queued per model, consumed in order)
+ * and otherwise from the first fixture whose `match` occurs in the prompt text. Fixtures can also be
+ * loaded from the JSON file in MOCK_MODEL_FIXTURES_PATH. A request that neither answers fails with
+ * FAILED_PRECONDITION, so a missing script entry does not pass unnoticed; the image model falls back to
+ * a plain grey placeholder image instead. Responses report an estimated token usage, so usage
+ * accounting can be tested as well.
+ *
+ * - mockModels - The Genkit plugin; it defines 'mock/text' and 'mock/image'.
+ * - mockModelController - Scripts responses, adds fixtures and records the requests the models received.
+ * - MockResponse - A scripted answer: structured output, raw (possibly malformed) text, an image, a
+ *   blocked response or an API error such as a 503.
+ * - MockFixture - A response for every prompt that contains `match`.
+ */
+
+import {readFileSync} from 'node:fs';
+import {extname} from 'node:path';
+import {GenkitError} from 'genkit';
+import type {GenerateRequest, ModelResponseData} from 'genkit/model';
+import {genkitPlugin} from 'genkit/plugin';
+import sharp from 'sharp';
+
+export type MockModelName = 'text' | 'image';
+
+export type MockResponse =
+  /** Returned as JSON text, which Genkit parses and validates against the prompt's output schema. */
+  | {output: unknown}
+  /** Returned as is, e.g. to simulate malformed JSON. */
+  | {text: string}
+  /** An image as data URI, or the path of an image file. */
+  | {media: string}
+  /** The safety filters blocked the response. */
+  | {blocked: true}
+  /** Thrown as a Genkit error with this status, e.g. 'UNAVAILABLE' (503) or 'RESOURCE_EXHAUSTED' (429). */
+  | {error: GenkitError['status']; message?: string};
+
+export interface MockFixture {
+  model?: MockModelName;
+  /** A text that occurs in the prompt, or a pattern that matches it. */
+  match: string | RegExp;
+  response: MockResponse;
+}
+
+export interface MockModelCall {
+  model: MockModelName;
+  /** The text parts of all messages, joined by newlines. */
+  prompt: string;
+  mediaCount: number;
+  request: GenerateRequest;
+}
+
+const STATUS_HTTP_CODES: Partial<Record<GenkitError['status'], number>> = {
+  UNAVAILABLE: 503,
+  RESOURCE_EXHAUSTED: 429,
+  DEADLINE_EXCEEDED: 504,
+  INTERNAL: 500,
+  INVALID_ARGUMENT: 400,
+};
+
+const MEDIA_TYPES: Record<string, string> = {'.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.webp': 'image/webp'};
+
+function toDataUri(media: string): string {
+  if (media.startsWith('data:')) {
+    return media;
+  }
+  const mimeType = MEDIA_TYPES[extname(media).toLowerCase()] ?? 'image/png';
+  return `data:${mimeType};base64,${readFileSync(media).toString('base64')}`;
+}
+
+let placeholderImage: Promise<string> | undefined;
+
+function getPlaceholderImage(): Promise<string> {
+  placeholderImage ??= sharp({create: {width: 256, height: 384, channels: 3, background: '#9E9E9E'}})
+    .png()
+    .toBuffer()
+    .then(bytes => `data:image/png;base64,${bytes.toString('base64')}`);
+  return placeholderImage;
+}
+
+class MockModelController {
+  readonly calls: MockModelCall[] = [];
+  private readonly scripts: Record<MockModelName, MockResponse[]> = {text: [], image: []};
+  private fixtures: MockFixture[] = [];
+
+  /** Queues responses for the next requests to `model`, in order. */
+  enqueue(model: MockModelName, ...responses: MockResponse[]): this {
+    this.scripts[model].push(...responses);
+    return this;
+  }
+
+  addFixture(fixture: MockFixture): this {
+    this.fixtures.push(fixture);
+    return this;
+  }
+
+  /** Loads fixtures from a JSON array; a string `match` is matched literally. */
+  loadFixtures(path: string): this {
+    const fixtures = JSON.parse(readFileSync(path, 'utf8')) as MockFixture[];
+    fixtures.forEach(fixture => this.addFixture(fixture));
+    return this;
+  }
+
+  /** Clears the scripts, fixtures and recorded calls. */
+  reset(): void {
+    this.calls.length = 0;
+    this.scripts.text.length = 0;
+    this.scripts.image.length = 0;
+    this.fixtures = [];
+  }
+
+  /** The number of scripted responses that have not been used yet. */
+  pending(model: MockModelName): number {
+    return this.scripts[model].length;
+  }
+
+  async respond(model: MockModelName, request: GenerateRequest): Promise<ModelResponseData> {
+    const parts = request.messages.flatMap(message => message.content);
+    const prompt = parts.flatMap(part => part.text ?? []).join('\n');
+    const mediaCount = parts.filter(part => part.media).length;
+    this.calls.push({model, prompt, mediaCount, request});
+    const withUsage = (response: ModelResponseData) => ({...response, usage: estimateUsage(prompt, mediaCount, response)});
+
+    const response = this.scripts[model].shift() ?? this.fixtures.find(fixture =>
+      (!fixture.model || fixture.model === model)
+      && (typeof fixture.match === 'string' ? prompt.includes(fixture.match) : fixture.match.test(prompt))
+    )?.response;
+    if (!response) {
+      if (model === 'image') {
+        return withUsage(mediaResponse(await getPlaceholderImage()));
+      }
+      throw new GenkitError({
+        status: 'FAILED_PRECONDITION',
+        message: `mock/${model}: no scripted response or fixture matches the prompt: ${prompt.slice(0, 200)}`,
+      });
+    }
+
+    if ('error' in response) {
+      const httpCode = STATUS_HTTP_CODES[response.error];
+      throw new GenkitError({
+        status: response.error,
+        message: `${httpCode ? `[${httpCode}] ` : ''}${response.message ?? `Simulated ${response.error} error`}`,
+      });
+    }
+    if ('blocked' in response) {
+      return withUsage({message: {role: 'model', content: []}, finishReason: 'blocked', finishMessage: 'Blocked by the simulated safety filters.'});
+    }
+    if ('media' in response) {
+      return withUsage(mediaResponse(toDataUri(response.media)));
+    }
+    const text = 'text' in response ? response.text : JSON.stringify(response.output);
+    return withUsage({message: {role: 'model', content: [{text}]}, finishReason: 'stop'});
+  }
+}
+
+// About four characters per token, and a fixed number of tokens per image as in Gemini's accounting.
+const CHARACTERS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258;
+
+function estimateUsage(prompt: string, mediaCount: number, response: ModelResponseData): NonNullable<ModelResponseData['usage']> {
+  const content = response.message?.content ?? [];
+  const outputText = content.flatMap(part => part.text ?? []).join('');
+  const inputTokens = Math.ceil(prompt.length / CHARACTERS_PER_TOKEN) + mediaCount * TOKENS_PER_IMAGE;
+  const outputTokens = Math.ceil(outputText.length / CHARACTERS_PER_TOKEN) + content.filter(part => part.media).length * TOKENS_PER_IMAGE;
+  return {inputTokens, outputTokens, totalTokens: inputTokens + outputTokens};
+}
+
+function mediaResponse(dataUri: string): ModelResponseData {
+  const contentType = dataUri.slice('data:'.length, dataUri.indexOf(';'));
+  return {message: {role: 'model', content: [{media: {url: dataUri, contentType}}]}, finishReason: 'stop'};
+}
+
+export const mockModelController = new MockModelController();
+
+export function mockModels() {
+  return genkitPlugin('mock', async ai => {
+    if (process.env.MOCK_MODEL_FIXTURES_PATH) {
+      mockModelController.loadFixtures(process.env.MOCK_MODEL_FIXTURES_PATH);
+    }
+    const supports = {multiturn: true, media: true, systemRole: true, output: ['text', 'json']};
+    ai.defineModel({name: 'mock/text', supports}, request => mockModelController.respond('text', request));
+    ai.defineModel({name: 'mock/image', supports}, request => mockModelController.respond('image', request));
+  });
+}
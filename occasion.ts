@@ -0,0 +1,199 @@
+/**
+ * @fileOverview Occasions and dress codes for the outfit flows.
+ *
+ * A dress code carries the guidance for the prompt and the item types it rules out, which the outfit
+ * validator checks against the itemType code of each item. Occasion presets map everyday occasions onto a dress code, sometimes with extra rules
+ * (no white at a wedding); free-text occasions are passed to the model as they are.
+ *
+ * - DRESS_CODES - The supported dress codes with their labels, guidance and excluded item types.
+ * - OCCASION_PRESETS - Common occasions and their dress code.
+ * - OccasionSchema - The occasion input of the outfit flows: a preset, a dress code and/or a description.
+ * - resolveOccasion - Combines preset, dress code and description into the rules to apply, labelled in a locale.
+ * - describeOccasionForPrompt - The occasion and its dress code as prompt text.
+ */
+
+import {z} from 'genkit';
+import {InvalidInputError} from '@/ai/errors';
+import {getItemTypeLabel, ItemType} from '@/ai/item-vocabulary';
+import {DEFAULT_LOCALE, Locale, LocalizedText} from '@/ai/locale';
+
+export type DressCode =
+  | 'casual'
+  | 'smart_casual'
+  | 'business_casual'
+  | 'business_formal'
+  | 'cocktail'
+  | 'black_tie'
+  | 'sportswear';
+
+interface DressCodeDefinition {
+  labels: LocalizedText;
+  guidance: string;
+  /**
+   * Matched against the itemType code of each item. The free-text suggested shoes are matched against the
+   * labels of these types in every locale, as whole words.
+   */
+  excludedItemTypes: ItemType[];
+}
+
+const CASUAL_ONLY: ItemType[] = ['joggers', 'hoodie', 'sports_top', 'sports_shoes'];
+const NOT_FORMAL: ItemType[] = [
+  ...CASUAL_ONLY, 'jeans', 'sneakers', 't_shirt', 'long_sleeve_t_shirt', 'sleeveless_t_shirt', 'tank_top', 'shorts',
+];
+
+export const DRESS_CODES: Record<DressCode, DressCodeDefinition> = {
+  casual: {
+    labels: {nl: 'Casual', en: 'Casual', de: 'Casual'},
+    guidance: 'Relaxed everyday clothing; comfort first, but the outfit should still look put together.',
+    excludedItemTypes: [],
+  },
+  smart_casual: {
+    labels: {nl: 'Smart casual', en: 'Smart casual', de: 'Smart Casual'},
+    guidance: 'Neat but not formal: e.g. chinos or dark jeans with a shirt, blouse or fine knit, and clean leather sneakers, loafers or ankle boots. No sportswear.',
+    excludedItemTypes: CASUAL_ONLY,
+  },
+  business_casual: {
+    labels: {nl: 'Business casual', en: 'Business casual', de: 'Business Casual'},
+    guidance: 'Office wear without a full suit: tailored trousers or a knee-length skirt, a shirt or blouse, optionally a blazer or fine knit, and closed leather shoes. No denim, sneakers or T-shirts.',
+    excludedItemTypes: [...NOT_FORMAL, 'sandals'],
+  },
+  business_formal: {
+    labels: {nl: 'Zakelijk formeel', en: 'Business formal', de: 'Business formell'},
+    guidance: 'A suit or a matching jacket with tailored trousers or skirt, a crisp shirt or blouse, subdued colours and polished closed shoes. Conservative and well-fitting.',
+    excludedItemTypes: [...NOT_FORMAL, 'sandals', 'leggings', 'crop_top'],
+  },
+  cocktail: {
+    labels: {nl: 'Cocktail', en: 'Cocktail', de: 'Cocktail'},
+    guidance: 'Festive and elegant: a knee- or midi-length dress, a dressy jumpsuit or a suit without tie; refined fabrics and elegant shoes.',
+    excludedItemTypes: [...NOT_FORMAL, 'leggings'],
+  },
+  black_tie: {
+    labels: {nl: 'Black tie', en: 'Black tie', de: 'Black Tie'},
+    guidance: 'Evening wear: a floor-length gown or a dinner jacket (tuxedo) with bow tie, and formal evening shoes.',
+    excludedItemTypes: [...NOT_FORMAL, 'leggings', 'blazer', 'chinos'],
+  },
+  sportswear: {
+    labels: {nl: 'Sportkleding', en: 'Sportswear', de: 'Sportkleidung'},
+    guidance: 'Functional sportswear in breathable, stretchy fabrics, and sports shoes suited to the activity.',
+    excludedItemTypes: ['jeans', 'tailored_trousers', 'blazer', 'shirt', 'blouse', 'pumps', 'loafers'],
+  },
+};
+
+interface OccasionPreset {
+  labels: LocalizedText;
+  dressCode: DressCode;
+  /** Extra guidance on top of the dress code. */
+  guidance?: string;
+  /** Colours that are inappropriate for the occasion, matched against itemColor (in every locale). */
+  excludedColors?: string[];
+}
+
+const WEDDING_GUEST_EXCLUDED_COLORS = [
+  'wit', 'ivoor', 'crème', 'creme', 'white', 'ivory', 'cream', 'weiß', 'weiss', 'elfenbein',
+];
+
+export const OCCASION_PRESETS = {
+  job_interview: {
+    labels: {nl: 'Sollicitatiegesprek', en: 'Job interview', de: 'Vorstellungsgespräch'},
+    dressCode: 'business_formal',
+    guidance: 'Dress one step more formal than the daily dress code of the company. Avoid loud prints and flashy accessories; the outfit should look neat and reliable.',
+  },
+  wedding_cocktail: {
+    labels: {nl: 'Bruiloft – cocktail', en: 'Wedding – cocktail', de: 'Hochzeit – Cocktail'},
+    dressCode: 'cocktail',
+    guidance: 'Guests never wear white, ivory or cream, so they do not compete with the bride.',
+    excludedColors: WEDDING_GUEST_EXCLUDED_COLORS,
+  },
+  wedding_black_tie: {
+    labels: {nl: 'Bruiloft – black tie', en: 'Wedding – black tie', de: 'Hochzeit – Black Tie'},
+    dressCode: 'black_tie',
+    guidance: 'Guests never wear white, ivory or cream, so they do not compete with the bride.',
+    excludedColors: WEDDING_GUEST_EXCLUDED_COLORS,
+  },
+  office_smart_casual: {
+    labels: {nl: 'Kantoor – smart casual', en: 'Office – smart casual', de: 'Büro – Smart Casual'},
+    dressCode: 'smart_casual',
+  },
+  office_business: {
+    labels: {nl: 'Kantoor – business casual', en: 'Office – business casual', de: 'Büro – Business Casual'},
+    dressCode: 'business_casual',
+  },
+  funeral: {
+    labels: {nl: 'Uitvaart', en: 'Funeral', de: 'Beerdigung'},
+    dressCode: 'business_formal',
+    guidance: 'Dark, subdued colours (black, navy, dark grey); no bright colours or busy prints.',
+    excludedColors: [
+      'rood', 'roze', 'geel', 'oranje', 'red', 'pink', 'yellow', 'orange', 'rot', 'rosa', 'gelb', 'fuchsia', 'neon',
+    ],
+  },
+  date: {
+    labels: {nl: 'Date', en: 'Date', de: 'Date'},
+    dressCode: 'smart_casual',
+    guidance: 'Look a little more special than on an ordinary day, while staying comfortable and recognisably yourself.',
+  },
+  sports: {
+    labels: {nl: 'Sporten', en: 'Sports', de: 'Sport'},
+    dressCode: 'sportswear',
+  },
+} satisfies Record<string, OccasionPreset>;
+export type OccasionPresetKey = keyof typeof OCCASION_PRESETS;
+
+const enumOf = <T extends string>(record: Record<T, unknown>) => z.enum(Object.keys(record) as [T, ...T[]]);
+
+export const OccasionSchema = z
+  .object({
+    preset: enumOf(OCCASION_PRESETS).optional().describe('A common occasion, e.g. job_interview, wedding_cocktail, office_smart_casual or sports. Implies its dress code.'),
+    dressCode: enumOf(DRESS_CODES).optional().describe("The dress code, e.g. smart_casual or cocktail. Overrides the preset's dress code."),
+    description: z.string().optional().describe("The occasion in the user's own words, e.g. 'tuinfeest van mijn schoonouders'."),
+  })
+  .refine(occasion => occasion.preset || occasion.dressCode || occasion.description?.trim(), {
+    message: 'Geef een preset, een dresscode of een beschrijving van de gelegenheid op.',
+  });
+export type Occasion = z.infer<typeof OccasionSchema>;
+
+export interface ResolvedOccasion {
+  label: string;
+  dressCode?: DressCode;
+  guidance: string[];
+  excludedItemTypes: ItemType[];
+  excludedColors: string[];
+}
+
+export function resolveOccasion(occasion: Occasion, locale: Locale = DEFAULT_LOCALE): ResolvedOccasion {
+  // The flows validate their input with the JSON schema, which leaves out the refinement.
+  if (!occasion.preset && !occasion.dressCode && !occasion.description?.trim()) {
+    throw new InvalidInputError('occasion', 'occasion', {
+      nl: 'geef een preset, een dresscode of een beschrijving van de gelegenheid op.',
+      en: 'give a preset, a dress code or a description of the occasion.',
+      de: 'gib ein Preset, einen Dresscode oder eine Beschreibung des Anlasses an.',
+    });
+  }
+  const preset: OccasionPreset | undefined = occasion.preset ? OCCASION_PRESETS[occasion.preset] : undefined;
+  const dressCode = occasion.dressCode ?? preset?.dressCode;
+  const definition = dressCode ? DRESS_CODES[dressCode] : undefined;
+  const description = occasion.description?.trim();
+  return {
+    label: preset && description
+      ? `${preset.labels[locale]} (${description})`
+      : preset?.labels[locale] ?? (description || definition!.labels[locale]),
+    dressCode,
+    guidance: [definition?.guidance, preset?.guidance].filter((line): line is string => !!line),
+    excludedItemTypes: definition?.excludedItemTypes ?? [],
+    excludedColors: preset?.excludedColors ?? [],
+  };
+}
+
+export function describeOccasionForPrompt(occasion: ResolvedOccasion): string {
+  const lines = [`Occasion: ${occasion.label}`];
+  if (occasion.dressCode) {
+    lines.push(`Dress code: ${DRESS_CODES[occasion.dressCode].labels.en}`);
+  }
+  lines.push(...occasion.guidance);
+  if (occasion.excludedItemTypes.length) {
+    lines.push(`Not allowed: ${occasion.excludedItemTypes.map(itemType => getItemTypeLabel(itemType, 'en')).join(', ')}`);
+  }
+  if (occasion.excludedColors.length) {
+    lines.push(`Colours to avoid: ${occasion.excludedColors.join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,26 @@
+/**
+ * @fileOverview Prompt building blocks shared by the outfit flows (suggestion, planner, ...).
+ *
+ * - OutfitTextSchema - The textual outfit a stylist prompt returns: items, reasoning, shoes, socks and used item ids.
+ * - CLOSET_ITEMS_PROMPT - Handlebars block that lists `closetItems` with their ids.
+ * - OUTFIT_INSTRUCTIONS - The conventions for main items, used item ids, shoes and socks.
+ */
+
+import {z} from 'genkit';
+
+export const OutfitTextSchema = z.object({
+  outfitSuggestion: z.string().describe('The generated outfit suggestion text for the main clothing items (top, bottom, outerwear). Shoes and socks will be suggested separately.'),
+  reasoning: z.string().describe('The reasoning behind the outfit suggestion.'),
+  suggestedShoes: z.string().describe("Specific suggestion for shoes that complement the outfit. E.g., 'White sneakers', 'Elegant black court shoes'."),
+  suggestedSocks: z.string().optional().describe("Specific suggestion for socks, if applicable and visible, that complement the outfit. E.g., 'Invisible socks', 'Navy wool socks'."),
+  usedItemIds: z.array(z.string()).describe('The ids of the closet items used in the outfit, exactly as listed in the closet.'),
+});
+export type OutfitText = z.infer<typeof OutfitTextSchema>;
+
+export const CLOSET_ITEMS_PROMPT = `{{#each closetItems}}
+  - [{{{id}}}] {{{itemName}}} ({{{itemType}}}, {{{itemColor}}}, {{{itemStyle}}}): {{{fullDescription}}}
+  {{/each}}`;
+
+export const OUTFIT_INSTRUCTIONS = `Only use items from the user's closet and list the id (the value between the square brackets) of every closet item you use in usedItemIds.
+  Also, provide a specific suggestion for SHOES that would go well with this outfit.
+  If socks are relevant and would be visible or important for the style (e.g., with certain shoes or skirts), also provide a suggestion for SOCKS.`;
@@ -0,0 +1,224 @@
+/**
+ * @fileOverview The steps of an outfit suggestion, shared by the regular and the streaming suggestion flow.
+ *
+ * - GenerateOutfitSuggestionInputSchema - The input of both suggestion flows.
+ * - OutfitSuggestionTextSchema - The validated text part of a suggestion: items, reasoning, shoes, socks and violations.
+ * - generateSuggestionText - Resolves closet, weather, occasion and learned preferences, then runs the text prompt until the outfit validates.
+ * - generateOutfitImage - Generates the image of a suggested outfit and stores it in the image asset store.
+ * - saveSuggestion - Saves a suggestion in the user's wardrobe store.
+ */
+
+import {ai, IMAGE_MODEL} from '@/ai/genkit';
+import {z} from 'genkit';
+import {ClosetItem, ClosetItemSchema, filterKnownItemIds} from '@/ai/closet-item';
+import {findUnderusedItemIds} from '@/ai/closet-analytics';
+import {assertModelMedia, assertModelOutput, EmptyOutputError, InvalidInputError} from '@/ai/errors';
+import {ImageResponseFormatSchema, IngestedImage, storeGeneratedImage} from '@/ai/image-assets';
+import {getLanguageName, LocaleSchema, resolveLocale} from '@/ai/locale';
+import {describeOccasionForPrompt, OccasionSchema, resolveOccasion} from '@/ai/occasion';
+import {CLOSET_ITEMS_PROMPT, OUTFIT_INSTRUCTIONS, OutfitTextSchema} from '@/ai/outfit-prompt';
+import {describeViolationsForPrompt, OutfitValidationContext, OutfitViolation, OutfitViolationSchema, validateOutfit} from '@/ai/outfit-validator';
+import {callWithResilience} from '@/ai/resilient-call';
+import {describeStyleProfileForPrompt, loadStyleProfile} from '@/ai/style-profile';
+import {ClosetSelectionSchema, getWardrobeRepository, resolveClosetItems} from '@/ai/wardrobe-store';
+import {describeWeatherForPrompt, resolveWeather, WeatherInputSchema} from '@/ai/weather';
+import {summarizeWearLog} from '@/ai/wear-log';
+
+export const GenerateOutfitSuggestionInputSchema = z.object({
+  closetItems: z
+    .array(ClosetItemSchema)
+    .min(1)
+    .optional()
+    .describe('The clothing items in the user\'s digital closet, as created from analyzeClothingItem results. May be omitted when a userId is given.'),
+  weather: WeatherInputSchema,
+  stylePreferences: z.string().optional().describe('The user style preferences. With a userId, the preferences learned from earlier ratings are used as well.'),
+  fashionTrends: z.string().describe('The current fashion trends.'),
+  occasion: OccasionSchema.optional().describe('The occasion to dress for. The outfit must meet its dress code.'),
+  preferUnderusedItems: z.boolean().optional().describe('Requires userId: prefer items the user rarely wears according to the wear log.'),
+  imageResponseFormat: ImageResponseFormatSchema.optional(),
+  locale: LocaleSchema.optional(),
+}).merge(ClosetSelectionSchema);
+export type GenerateOutfitSuggestionInput = z.infer<typeof GenerateOutfitSuggestionInputSchema>;
+
+// The prompt gets the resolved forecast as text, including the derived layering hints.
+const GenerateOutfitSuggestionPromptInputSchema = GenerateOutfitSuggestionInputSchema.pick({stylePreferences: true, fashionTrends: true}).extend({
+  closetItems: z.array(ClosetItemSchema),
+  weatherDescription: z.string(),
+  occasion: z.string().optional(),
+  underusedItemIds: z.array(z.string()).optional(),
+  styleProfile: z.string().optional(),
+  language: z.string(),
+  previousAttempt: z.object({
+    outfitSuggestion: z.string(),
+    violations: z.array(z.string()),
+  }).optional(),
+});
+
+export const OutfitSuggestionTextSchema = OutfitTextSchema.extend({
+  violations: z.array(OutfitViolationSchema).describe('Rules the outfit still breaks after all attempts (e.g. because the closet offers no alternative). Empty when it passed validation.'),
+});
+export type OutfitSuggestionText = z.infer<typeof OutfitSuggestionTextSchema>;
+
+const textPrompt = ai.definePrompt({
+  name: 'generateOutfitSuggestionTextPrompt',
+  input: {schema: GenerateOutfitSuggestionPromptInputSchema},
+  output: {schema: OutfitTextSchema.extend({
+    reasoning: z.string().describe('The reasoning behind the outfit suggestion, including how the weather influenced the layering and, for an occasion, how the outfit meets its dress code.'),
+  })},
+  prompt: `You are a personal AI stylist that generates outfit suggestions for users.
+
+  Consider the following information when making your suggestion:
+
+  User Closet:
+  ${CLOSET_ITEMS_PROMPT}
+  Weather:
+  {{{weatherDescription}}}
+  {{#if stylePreferences}}Style Preferences: {{{stylePreferences}}}{{/if}}
+  {{#if occasion}}
+  Occasion and dress code (mandatory; the outfit must meet it, also above the style preferences and trends):
+  {{{occasion}}}
+  {{/if}}
+  {{#if styleProfile}}
+  Learned from the user's ratings of earlier outfits (follow these preferences and avoid what the user disliked):
+  {{{styleProfile}}}
+  {{/if}}
+  Fashion Trends: {{{fashionTrends}}}
+  {{#if underusedItemIds}}
+  The user wants to wear neglected items more often. Where they suit the weather and style, build the outfit around these rarely worn items (ids, least worn first): {{#each underusedItemIds}}[{{{this}}}] {{/each}}
+  {{/if}}
+
+  Generate a detailed outfit suggestion for the main clothing items (top, bottom, outerwear etc.) and provide a brief reasoning.
+  In the reasoning, explain explicitly how the weather (temperature range, chance of rain, wind and UV) influenced the number of layers, the fabrics and the shoes.
+  {{#if occasion}}Also explain explicitly in the reasoning how the outfit, including the shoes, meets the dress code of the occasion.{{/if}}
+  ${OUTFIT_INSTRUCTIONS}
+  {{#if previousAttempt}}
+
+  Your previous suggestion was rejected by the outfit checker:
+  "{{{previousAttempt.outfitSuggestion}}}"
+  Problems:
+  {{#each previousAttempt.violations}}
+  - {{{this}}}
+  {{/each}}
+  Generate a new suggestion that fixes all of these problems.
+  {{/if}}
+  Format the output in JSON according to the schema. Ensure all text is in {{{language}}}.
+  `,
+});
+
+/** The number of text prompts per suggestion, including the re-prompts after validation. */
+const MAX_SUGGESTION_ATTEMPTS = 3;
+
+/** `source` is the calling flow; it is used in errors and logs. */
+export async function generateSuggestionText(
+  source: string,
+  input: GenerateOutfitSuggestionInput,
+  abortSignal: AbortSignal
+): Promise<OutfitSuggestionText> {
+  const closetItems = await resolveClosetItems(source, input);
+  const weather = await resolveWeather(input.weather);
+  const weatherDescription = describeWeatherForPrompt(weather);
+  const underusedItemIds = input.preferUnderusedItems ? await loadUnderusedItemIds(source, input, closetItems) : undefined;
+  const styleProfile = input.userId ? describeStyleProfileForPrompt(await loadStyleProfile(input.userId)) : undefined;
+  const locale = resolveLocale(input);
+  const occasion = input.occasion ? resolveOccasion(input.occasion, locale) : undefined;
+  const promptInput = {
+    closetItems,
+    stylePreferences: input.stylePreferences,
+    fashionTrends: input.fashionTrends,
+    underusedItemIds,
+    styleProfile,
+    weatherDescription,
+    occasion: occasion && describeOccasionForPrompt(occasion),
+    language: getLanguageName(locale),
+  };
+  const colorAnalysis = input.userId ? (await getWardrobeRepository().getLatestColorAnalysis(input.userId))?.analysis : undefined;
+
+  const {textOutput, violations} = await generateValidatedText(source, promptInput, {closetItems, weather, colorAnalysis, occasion, locale}, abortSignal);
+  return {
+    outfitSuggestion: textOutput.outfitSuggestion,
+    reasoning: textOutput.reasoning,
+    suggestedShoes: textOutput.suggestedShoes,
+    suggestedSocks: textOutput.suggestedSocks,
+    usedItemIds: filterKnownItemIds(textOutput.usedItemIds, closetItems),
+    violations,
+  };
+}
+
+/**
+ * Runs the text prompt until the outfit passes validation, feeding the violations of the previous
+ * attempt back to the model. After MAX_SUGGESTION_ATTEMPTS the attempt with the fewest violations wins.
+ */
+async function generateValidatedText(
+  source: string,
+  promptInput: z.infer<typeof GenerateOutfitSuggestionPromptInputSchema>,
+  context: OutfitValidationContext,
+  abortSignal: AbortSignal
+) {
+  let best: {textOutput: z.infer<typeof OutfitTextSchema>; violations: OutfitViolation[]} | undefined;
+  let previousAttempt: z.infer<typeof GenerateOutfitSuggestionPromptInputSchema>['previousAttempt'];
+
+  for (let attempt = 1; attempt <= MAX_SUGGESTION_ATTEMPTS; attempt++) {
+    const textOutput = await callWithResilience(
+      async ({signal}) => assertModelOutput(source, await textPrompt({...promptInput, previousAttempt}, {abortSignal: signal})),
+      {label: 'generateOutfitSuggestionTextPrompt', signal: abortSignal}
+    );
+    if (!textOutput.outfitSuggestion || !textOutput.suggestedShoes || !textOutput.reasoning) {
+      throw new EmptyOutputError(source);
+    }
+
+    const violations = validateOutfit(textOutput, context);
+    if (!best || violations.length < best.violations.length) {
+      best = {textOutput, violations};
+    }
+    if (violations.length === 0) {
+      break;
+    }
+    console.warn(`Outfitvoorstel afgekeurd in ${source} (poging ${attempt}):`, violations.map(violation => violation.code));
+    previousAttempt = {outfitSuggestion: textOutput.outfitSuggestion, violations: describeViolationsForPrompt(violations)};
+  }
+  return best!;
+}
+
+async function loadUnderusedItemIds(source: string, input: GenerateOutfitSuggestionInput, closetItems: ClosetItem[]): Promise<string[]> {
+  if (!input.userId) {
+    throw new InvalidInputError(source, 'preferUnderusedItems', {
+      nl: 'hiervoor is een userId nodig, zodat het draaglogboek gebruikt kan worden.',
+      en: 'this needs a userId, so that the wear log can be used.',
+      de: 'dafür ist eine userId nötig, damit das Trageprotokoll verwendet werden kann.',
+    });
+  }
+  const wearLog = await getWardrobeRepository().listWearLog(input.userId);
+  return findUnderusedItemIds(closetItems, summarizeWearLog(wearLog));
+}
+
+export async function generateOutfitImage(source: string, text: OutfitSuggestionText, abortSignal: AbortSignal): Promise<IngestedImage> {
+  const imagePromptText = `Generate a high-quality, realistic image of a person wearing the following outfit: ${text.outfitSuggestion}. The person should also be wearing ${text.suggestedShoes}${text.suggestedSocks ? ' with ' + text.suggestedSocks : ''}. Ensure the style is fashionable and clear, and that the shoes and any visible socks are clearly depicted. The image should be suitable for a fashion app.`;
+
+  const generatedImage = await callWithResilience(
+    async ({signal}) => assertModelMedia(source, await ai.generate({
+      model: IMAGE_MODEL,
+      prompt: imagePromptText,
+      config: {
+        responseModalities: ['TEXT', 'IMAGE'],
+      },
+      abortSignal: signal,
+    })),
+    {label: 'generateOutfitSuggestionImage', signal: abortSignal}
+  );
+  return storeGeneratedImage(generatedImage);
+}
+
+/** Saves the suggestion so it does not vanish after the call, and returns the saved outfit id. */
+export async function saveSuggestion(userId: string, text: OutfitSuggestionText, imageRef?: string): Promise<string> {
+  const saved = await getWardrobeRepository().saveOutfit({
+    userId,
+    source: 'suggestion',
+    itemIds: text.usedItemIds,
+    description: text.outfitSuggestion,
+    reasoning: text.reasoning,
+    suggestedShoes: text.suggestedShoes,
+    suggestedSocks: text.suggestedSocks,
+    imageRef,
+  });
+  return saved.id;
+}
@@ -0,0 +1,247 @@
+/**
+ * @fileOverview Deterministic checks of a generated outfit against the closet, the weather, the season
+ * palette, the dress code and basic layering rules. The outfit flows feed the violations back to the model.
+ *
+ * - OutfitViolationSchema - A single broken rule, with a message in the requested locale and the items involved.
+ * - validateOutfit - Returns all violations of an outfit; an empty list means the outfit is valid.
+ * - findDressCodeViolations - Only the dress-code check, for outfits that are not fully specified.
+ * - describeViolationsForPrompt - The violations as feedback lines for a re-prompt.
+ */
+
+import {z} from 'genkit';
+import {ClosetItem, getItemCategory} from '@/ai/closet-item';
+import {scoreColorCompatibility} from '@/ai/color-compatibility';
+import type {PerformColorAnalysisOutput} from '@/ai/flows/perform-color-analysis-flow';
+import {ITEM_TYPES, isItemType} from '@/ai/item-vocabulary';
+import {DEFAULT_LOCALE, Locale, LocalizedText} from '@/ai/locale';
+import type {ResolvedOccasion} from '@/ai/occasion';
+import {getSeasonLabel} from '@/ai/seasonal-palettes';
+import type {Weather} from '@/ai/weather';
+
+export const OutfitViolationSchema = z.object({
+  code: z.enum([
+    'UNKNOWN_ITEM',
+    'NO_ITEMS',
+    'MISSING_BOTTOM',
+    'MULTIPLE_BOTTOMS',
+    'MULTIPLE_OUTERWEAR',
+    'MISSING_FOOTWEAR',
+    'UNSUITABLE_SHOES_FOR_RAIN',
+    'AVOID_COLOR',
+    'DRESS_CODE_MISMATCH',
+  ]),
+  message: z.string().describe('What is wrong, in the requested locale.'),
+  itemIds: z.array(z.string()).describe('The items involved, if any.'),
+});
+export type OutfitViolation = z.infer<typeof OutfitViolationSchema>;
+
+/** From this chance of rain on, open or delicate shoes are a violation (matches the weather hints). */
+const RAIN_PROBABILITY_THRESHOLD = 60;
+const RAIN_UNSUITABLE_SHOE_KEYWORDS = [
+  'sandaal', 'sandalen', 'sandal', 'sandals', 'sandale', 'slipper', 'slippers', 'flip-flop', 'flip-flops',
+  'zehentrenner', 'espadrille', 'espadrilles', 'open schoen', 'open schoenen', 'open neus', 'open toe', 'open-toe',
+  'peeptoe', 'peeptoes', 'peep toe', 'peep-toe', 'suède', 'suede', 'wildleder',
+];
+
+export interface OutfitToValidate {
+  usedItemIds: string[];
+  suggestedShoes?: string;
+}
+
+export interface OutfitValidationContext {
+  closetItems: ClosetItem[];
+  weather?: Weather;
+  colorAnalysis?: Pick<PerformColorAnalysisOutput, 'seasonType' | 'recommendedColors' | 'avoidColors'>;
+  occasion?: ResolvedOccasion;
+  /** The language of the violation messages. Defaults to Dutch. */
+  locale?: Locale;
+}
+
+/** The item's type in every locale, so keywords in any language match the canonical item type. */
+function describeItemForMatching(item: ClosetItem): string {
+  const typeLabels = isItemType(item.itemType) ? Object.values(ITEM_TYPES[item.itemType].labels).join(' ') : item.itemType;
+  return `${typeLabels} ${item.itemName} ${item.itemStyle} ${item.fullDescription}`;
+}
+
+/** Whether `text` contains `phrase` as whole words, ignoring case: 'Pumps' matches 'black pumps', not 'pumpsole'. */
+function containsWords(text: string, phrase: string): boolean {
+  const escaped = phrase.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text.toLowerCase());
+}
+
+function mentionsUnsuitableShoes(text: string): boolean {
+  return RAIN_UNSUITABLE_SHOE_KEYWORDS.some(keyword => containsWords(text, keyword));
+}
+
+export function validateOutfit(outfit: OutfitToValidate, context: OutfitValidationContext): OutfitViolation[] {
+  const violations: OutfitViolation[] = [];
+  const locale = context.locale ?? DEFAULT_LOCALE;
+  const text = (messages: LocalizedText) => messages[locale];
+  const closetById = new Map(context.closetItems.map(item => [item.id, item]));
+  const usedIds = Array.from(new Set(outfit.usedItemIds));
+
+  const unknownIds = usedIds.filter(id => !closetById.has(id));
+  if (unknownIds.length) {
+    violations.push({
+      code: 'UNKNOWN_ITEM',
+      message: text({
+        nl: `Deze ids staan niet in de kast van de gebruiker: ${unknownIds.join(', ')}. Gebruik alleen items uit de kast.`,
+        en: `These ids are not in the user's closet: ${unknownIds.join(', ')}. Only use items from the closet.`,
+        de: `Diese IDs sind nicht im Kleiderschrank des Nutzers: ${unknownIds.join(', ')}. Verwende nur Teile aus dem Kleiderschrank.`,
+      }),
+      itemIds: unknownIds,
+    });
+  }
+
+  const items = usedIds.flatMap(id => closetById.get(id) ?? []);
+  if (items.length === 0) {
+    violations.push({
+      code: 'NO_ITEMS',
+      message: text({
+        nl: 'De outfit gebruikt geen enkel item uit de kast.',
+        en: 'The outfit does not use a single item from the closet.',
+        de: 'Das Outfit verwendet kein einziges Teil aus dem Kleiderschrank.',
+      }),
+      itemIds: [],
+    });
+    return violations;
+  }
+
+  const byCategory = (...categories: ReturnType<typeof getItemCategory>[]) =>
+    items.filter(item => categories.includes(getItemCategory(item.itemType)));
+  const describe = (list: ClosetItem[]) => list.map(item => item.itemName).join(', ');
+
+  const bottoms = byCategory('bottom', 'onePiece');
+  if (bottoms.length === 0) {
+    violations.push({
+      code: 'MISSING_BOTTOM',
+      message: text({
+        nl: 'De outfit heeft geen onderstuk (broek, rok) of jurk.',
+        en: 'The outfit has no bottom (trousers, skirt) or dress.',
+        de: 'Das Outfit hat kein Unterteil (Hose, Rock) und kein Kleid.',
+      }),
+      itemIds: [],
+    });
+  } else if (bottoms.length > 1) {
+    violations.push({
+      code: 'MULTIPLE_BOTTOMS',
+      message: text({
+        nl: `De outfit bevat meer dan één onderstuk of jurk: ${describe(bottoms)}. Kies er één.`,
+        en: `The outfit contains more than one bottom or dress: ${describe(bottoms)}. Choose one.`,
+        de: `Das Outfit enthält mehr als ein Unterteil oder Kleid: ${describe(bottoms)}. Wähle eines aus.`,
+      }),
+      itemIds: bottoms.map(item => item.id),
+    });
+  }
+
+  const outerwear = byCategory('outerwear');
+  if (outerwear.length > 1) {
+    violations.push({
+      code: 'MULTIPLE_OUTERWEAR',
+      message: text({
+        nl: `De outfit bevat meer dan één jas of buitenlaag: ${describe(outerwear)}. Kies er hoogstens één.`,
+        en: `The outfit contains more than one coat or outer layer: ${describe(outerwear)}. Choose one at most.`,
+        de: `Das Outfit enthält mehr als eine Jacke oder äußere Schicht: ${describe(outerwear)}. Wähle höchstens eine aus.`,
+      }),
+      itemIds: outerwear.map(item => item.id),
+    });
+  }
+
+  const footwear = byCategory('footwear');
+  if (footwear.length === 0 && !outfit.suggestedShoes?.trim()) {
+    violations.push({
+      code: 'MISSING_FOOTWEAR',
+      message: text({nl: 'De outfit heeft geen schoenen.', en: 'The outfit has no shoes.', de: 'Das Outfit hat keine Schuhe.'}),
+      itemIds: [],
+    });
+  }
+
+  if (context.weather && context.weather.precipitationProbability >= RAIN_PROBABILITY_THRESHOLD) {
+    const unsuitable = footwear.filter(item => mentionsUnsuitableShoes(describeItemForMatching(item)));
+    if (unsuitable.length || (outfit.suggestedShoes && mentionsUnsuitableShoes(outfit.suggestedShoes))) {
+      const {precipitationProbability} = context.weather;
+      const shoes = describe(unsuitable) || outfit.suggestedShoes;
+      violations.push({
+        code: 'UNSUITABLE_SHOES_FOR_RAIN',
+        message: text({
+          nl: `De kans op regen is ${precipitationProbability}%, maar de schoenen (${shoes}) zijn open of van suède. Kies dichte, waterbestendige schoenen.`,
+          en: `The chance of rain is ${precipitationProbability}%, but the shoes (${shoes}) are open or made of suede. Choose closed, water-resistant shoes.`,
+          de: `Die Regenwahrscheinlichkeit liegt bei ${precipitationProbability} %, aber die Schuhe (${shoes}) sind offen oder aus Wildleder. Wähle geschlossene, wasserfeste Schuhe.`,
+        }),
+        itemIds: unsuitable.map(item => item.id),
+      });
+    }
+  }
+
+  if (context.colorAnalysis) {
+    const {colorAnalysis} = context;
+    const clashing = items.filter(item => scoreColorCompatibility(item, colorAnalysis).verdict === 'avoid');
+    if (clashing.length) {
+      const season = getSeasonLabel(colorAnalysis.seasonType, locale);
+      const list = clashing.map(item => `${item.itemName} (${item.itemColor})`).join(', ');
+      violations.push({
+        code: 'AVOID_COLOR',
+        message: text({
+          nl: `Deze items hebben een kleur die ${season} beter kan vermijden: ${list}.`,
+          en: `These items have a colour that ${season} should rather avoid: ${list}.`,
+          de: `Diese Teile haben eine Farbe, die ${season} besser meiden sollte: ${list}.`,
+        }),
+        itemIds: clashing.map(item => item.id),
+      });
+    }
+  }
+
+  if (context.occasion) {
+    violations.push(...findDressCodeViolations(items, outfit.suggestedShoes, context.occasion, locale));
+  }
+
+  return violations;
+}
+
+export function findDressCodeViolations(
+  items: ClosetItem[],
+  suggestedShoes: string | undefined,
+  occasion: ResolvedOccasion,
+  locale: Locale = DEFAULT_LOCALE
+): OutfitViolation[] {
+  const violations: OutfitViolation[] = [];
+  const matchesAny = (text: string, keywords: string[]) => keywords.some(keyword => containsWords(text, keyword));
+
+  // Items are checked by their itemType code; descriptions such as 'short-sleeved blouse' are free text.
+  const excluded = items.filter(item => occasion.excludedItemTypes.includes(item.itemType));
+  const excludedShoeLabels = occasion.excludedItemTypes
+    .filter(itemType => ITEM_TYPES[itemType].category === 'footwear')
+    .flatMap(itemType => Object.values(ITEM_TYPES[itemType].labels));
+  const excludedShoes = suggestedShoes && excludedShoeLabels.some(label => containsWords(suggestedShoes, label)) ? suggestedShoes : undefined;
+  if (excluded.length || excludedShoes) {
+    const names = [...excluded.map(item => item.itemName), ...(excludedShoes ? [excludedShoes] : [])].join(', ');
+    violations.push({
+      code: 'DRESS_CODE_MISMATCH',
+      message: {
+        nl: `Dit past niet bij de dresscode van ${occasion.label}: ${names}.`,
+        en: `This does not fit the dress code of ${occasion.label}: ${names}.`,
+        de: `Das passt nicht zum Dresscode von ${occasion.label}: ${names}.`,
+      }[locale],
+      itemIds: excluded.map(item => item.id),
+    });
+  }
+
+  const wrongColor = items.filter(item => matchesAny(item.itemColor, occasion.excludedColors));
+  if (wrongColor.length) {
+    const list = wrongColor.map(item => `${item.itemName} (${item.itemColor})`).join(', ');
+    violations.push({
+      code: 'DRESS_CODE_MISMATCH',
+      message: {
+        nl: `Deze kleuren zijn ongepast voor ${occasion.label}: ${list}.`,
+        en: `These colours are inappropriate for ${occasion.label}: ${list}.`,
+        de: `Diese Farben sind unpassend für ${occasion.label}: ${list}.`,
+      }[locale],
+      itemIds: wrongColor.map(item => item.id),
+    });
+  }
+  return violations;
+}
+
+export function describeViolationsForPrompt(violations: OutfitViolation[]): string[] {
+  return violations.map(violation => `${violation.code}: ${violation.message}`);
+}
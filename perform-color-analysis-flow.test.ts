@@ -0,0 +1,104 @@
+/**
+ * @fileOverview Tests for performColorAnalysisFlow: the local photo check before the model call, the
+ * 'Niet te bepalen' (undetermined) result and the reconciliation with the canonical season palettes.
+ *
+ * Run with `npx tsx --test *.test.ts`.
+ */
+
+import {createPortraitPhoto, modelColorAnalysis, resetTestState} from '@/ai/test-support';
+import assert from 'node:assert/strict';
+import {beforeEach, describe, test} from 'node:test';
+import {performColorAnalysis} from '@/ai/flows/perform-color-analysis-flow';
+import {mockModelController} from '@/ai/mock-model';
+import {findSeasonalPalette, UNDETERMINED_LABELS} from '@/ai/seasonal-palettes';
+import {getWardrobeRepository} from '@/ai/wardrobe-store';
+
+beforeEach(resetTestState);
+
+describe('performColorAnalysis without a determinable season', () => {
+  test("clears the colours, fills in 'Niet te bepalen' and does not store the analysis", async () => {
+    mockModelController.enqueue('text', {output: modelColorAnalysis({seasonType: 'undetermined', analysisDescription: ' '})});
+
+    const result = await performColorAnalysis({userDataUri: await createPortraitPhoto(), userId: 'user-1'});
+
+    assert.equal(result.seasonType, 'undetermined');
+    assert.deepEqual(result.recommendedColors, []);
+    assert.deepEqual(result.avoidColors, []);
+    assert.deepEqual(result.characteristics, {skinTone: 'Niet te bepalen', hairColor: 'Niet te bepalen', eyeColor: 'Niet te bepalen'});
+    assert.equal(result.paletteDescription, 'Niet te bepalen');
+    assert.ok(result.analysisDescription.trim().length > 0);
+    assert.equal(result.analysisId, undefined);
+    assert.equal(await getWardrobeRepository().getLatestColorAnalysis('user-1'), undefined);
+  });
+
+  test("uses the undetermined label of the requested locale and keeps the model's explanation", async () => {
+    mockModelController.enqueue('text', {output: modelColorAnalysis({seasonType: 'undetermined', analysisDescription: 'The face is in deep shadow.'})});
+
+    const result = await performColorAnalysis({userDataUri: await createPortraitPhoto(), locale: 'en'});
+
+    assert.equal(result.characteristics.skinTone, UNDETERMINED_LABELS.en);
+    assert.equal(result.paletteDescription, UNDETERMINED_LABELS.en);
+    assert.equal(result.analysisDescription, 'The face is in deep shadow.');
+    assert.match(mockModelController.calls[0].prompt, /Undetermined/);
+  });
+});
+
+describe('performColorAnalysis with a season', () => {
+  test('tops up a short palette from the canonical season palette', async () => {
+    mockModelController.enqueue('text', {output: modelColorAnalysis({
+      seasonType: 'soft_summer',
+      recommendedColors: [{name: 'Dusty rose', hex: '#C9A0A4'}],
+      avoidColors: [],
+      paletteDescription: '',
+    })});
+
+    const result = await performColorAnalysis({userDataUri: await createPortraitPhoto(), locale: 'de'});
+    const palette = findSeasonalPalette('soft_summer')!;
+
+    assert.equal(result.recommendedColors.length, 5);
+    assert.equal(result.avoidColors.length, 3);
+    assert.equal(result.recommendedColors[0].name, 'Dusty rose');
+    assert.equal(result.paletteDescription, palette.description.de);
+  });
+});
+
+describe('performColorAnalysis photo check', () => {
+  test('reports an unusable photo without calling the model', async () => {
+    const result = await performColorAnalysis({userDataUri: await createPortraitPhoto({size: 150, brightness: 0.15}), userId: 'user-1'});
+
+    assert.equal(mockModelController.calls.length, 0);
+    assert.equal(result.seasonType, 'undetermined');
+    assert.equal(result.confidence, 0);
+    assert.equal(result.photoQuality.score, 0);
+    const blocking = result.photoQuality.issues.filter(issue => issue.severity === 'blocking');
+    assert.deepEqual(blocking.map(issue => issue.code), ['too_small', 'too_dark']);
+    assert.match(result.analysisDescription, /te klein.*te donker/);
+    assert.equal(await getWardrobeRepository().getLatestColorAnalysis('user-1'), undefined);
+  });
+
+  test('corrects a yellow cast before the analysis and tells the model', async () => {
+    mockModelController.enqueue('text', {output: modelColorAnalysis()});
+    const photo = await createPortraitPhoto({tint: [1.2, 1.05, 0.7]});
+
+    const result = await performColorAnalysis({userDataUri: photo, locale: 'en'});
+
+    assert.equal(result.photoQuality.colorCast, 'yellow');
+    assert.equal(result.photoQuality.whiteBalanceCorrected, true);
+    assert.match(result.photoQuality.issues[0].message, /yellow colour cast/);
+    const [call] = mockModelController.calls;
+    assert.match(call.prompt, /corrected automatically/);
+    const sentPhoto = call.request.messages.flatMap(message => message.content).find(part => part.media)?.media?.url;
+    assert.notEqual(sentPhoto, photo);
+    assert.equal(result.confidence, 0.76);
+  });
+
+  test('leaves the photo as it is when the correction is turned off', async () => {
+    mockModelController.enqueue('text', {output: modelColorAnalysis()});
+
+    const result = await performColorAnalysis({userDataUri: await createPortraitPhoto({tint: [1.2, 1.05, 0.7]}), correctWhiteBalance: false});
+
+    assert.equal(result.photoQuality.whiteBalanceCorrected, false);
+    assert.match(result.photoQuality.issues[0].message, /gele kleurzweem/);
+    assert.equal(result.confidence, 0.68);
+  });
+});
@@ -3,71 +3,118 @@
 /**
  * @fileOverview AI-powered color analysis (seasonal analysis).
  *
- * - performColorAnalysis - A function that analyzes a user's photo to determine their color season.
+ * - performColorAnalysis - A function that analyzes a user's photo to determine their color season, and stores the result when a userId is given.
+ *   The photo is checked locally first (size, exposure, colour cast); an unusable photo is reported without a model call.
  * - PerformColorAnalysisInput - The input type for the performColorAnalysis function.
  * - PerformColorAnalysisOutput - The return type for the performColorAnalysis function.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
-import { ZodError } from 'zod';
+import {assertModelOutput, FlowError, OutputValidationError, toFlowError} from '@/ai/errors';
+import {ingestImage} from '@/ai/image-assets';
+import {getLanguageName, LocaleSchema, LocalizedText, resolveLocale} from '@/ai/locale';
+import {checkPhotoQuality, describePhotoQualityForPrompt, PhotoQualitySchema} from '@/ai/photo-quality';
+import {callWithResilience} from '@/ai/resilient-call';
+import {reconcilePaletteColors, SEASONAL_PALETTES, SeasonTypeSchema, UNDETERMINED_LABELS} from '@/ai/seasonal-palettes';
+import {getWardrobeRepository} from '@/ai/wardrobe-store';
 
 const PerformColorAnalysisInputSchema = z.object({
   userDataUri: z
     .string()
     .describe(
-      "A photo of the user's face, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'. This photo will be used to analyze skin tone, hair color, and eye color for seasonal color analysis."
+      "A photo of the user's face: an image asset reference ('asset://<key>'), or a JPEG, PNG or WebP data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'. This photo will be used to analyze skin tone, hair color, and eye color for seasonal color analysis."
     ),
+  userId: z.string().min(1).optional().describe('When given, the analysis is stored for this user.'),
+  correctWhiteBalance: z.boolean().optional().describe('Defaults to true: a colour cast from the lighting (e.g. yellow lamp light) is corrected with a grey-world white balance before the analysis.'),
+  locale: LocaleSchema.optional(),
 });
 export type PerformColorAnalysisInput = z.infer<typeof PerformColorAnalysisInputSchema>;
 
 const ColorInfoSchema = z.object({
-  name: z.string().describe("De Nederlandse naam van de kleur (bijv. 'Warm Oranje', 'Koel Blauw')."),
-  hex: z.string().regex(/^#[0-9A-F]{6}$/i, "Moet een geldige hex-kleurcode zijn (bijv. #FF5733).").describe("De hex-kleurcode (bijv. #FF5733).")
+  name: z.string().describe("The name of the colour in the requested language (e.g. 'Warm orange', 'Cool blue')."),
+  hex: z.string().regex(/^#[0-9A-F]{6}$/i, "Moet een geldige hex-kleurcode zijn (bijv. #FF5733).").describe("The hex colour code (e.g. #FF5733).")
+});
+
+// The model's hex codes are repaired by reconcilePaletteColors, so the prompt output accepts any string.
+const ModelColorInfoSchema = ColorInfoSchema.extend({
+  hex: z.string().describe("The hex colour code (e.g. #FF5733)."),
 });
 
 const PerformColorAnalysisOutputSchema = z.object({
-  seasonType: z.string().describe('Het gedetecteerde kleurseizoen (bijv. "Lente", "Zomer", "Herfst", "Winter", of "Niet te bepalen").'),
-  analysisDescription: z.string().describe('Een gedetailleerde uitleg van de analyse in het Nederlands. Als geen seizoen bepaald kan worden, leg uit waarom (bijv. onduidelijke foto, geen gezicht).'),
+  seasonType: SeasonTypeSchema.describe("The detected colour season in the 12-season system as a language-neutral code (e.g. 'deep_winter', 'soft_summer', 'warm_autumn'), or 'undetermined'. Use getSeasonLabel for its display name."),
+  analysisDescription: z.string().describe('A detailed explanation of the analysis. If no season could be determined, explains why (e.g. an unclear photo, no face).'),
   characteristics: z.object({
-    skinTone: z.string().describe("Korte beschrijving van de huidtint (bijv. 'Warm met gouden ondertoon', 'Koel met roze ondertoon', of 'Niet te bepalen')."),
-    hairColor: z.string().describe("Korte beschrijving van de haarkleur (bijv. 'Donkerbruin met warme highlights', 'Asblond', of 'Niet te bepalen')."),
-    eyeColor: z.string().describe("Korte beschrijving van de oogkleur (bijv. 'Helderblauw', 'Donkerbruin met spikkels', of 'Niet te bepalen').")
-  }).describe("Waargenomen kenmerken van de persoon. 'Niet te bepalen' indien onmogelijk vast te stellen."),
-  recommendedColors: z.array(ColorInfoSchema).describe('Een lijst van aanbevolen kleuren die flatterend zijn voor dit seizoen, inclusief Nederlandse naam en hex-code. Leeg indien seizoen "Niet te bepalen" is.'),
-  avoidColors: z.array(ColorInfoSchema).describe('Een lijst van kleuren die minder flatterend zijn voor dit seizoen of beter vermeden kunnen worden, inclusief Nederlandse naam en hex-code. Leeg indien seizoen "Niet te bepalen" is.'),
-  paletteDescription: z.string().describe("Een algemene beschrijving van het kleurenpalet dat bij het seizoen past (bijv. 'Heldere, warme kleuren', 'Gedempte, koele tinten', of 'Niet te bepalen').")
+    skinTone: z.string().describe("A short description of the skin tone (e.g. 'Warm with golden undertones', 'Cool with pink undertones')."),
+    hairColor: z.string().describe("A short description of the hair colour (e.g. 'Dark brown with warm highlights', 'Ash blonde')."),
+    eyeColor: z.string().describe("A short description of the eye colour (e.g. 'Bright blue', 'Dark brown with flecks').")
+  }).describe("The observed characteristics of the person; the label of 'undetermined' in the requested language where they cannot be determined."),
+  recommendedColors: z.array(ColorInfoSchema).describe("A list of recommended colours that flatter this season, with name and hex code. Empty when the season is 'undetermined'."),
+  avoidColors: z.array(ColorInfoSchema).describe("A list of colours that are less flattering for this season or better avoided, with name and hex code. Empty when the season is 'undetermined'."),
+  paletteDescription: z.string().describe("A general description of the colour palette of the season (e.g. 'Clear, warm colours', 'Muted, cool shades')."),
+  confidence: z.number().min(0).max(1).describe("How reliable the season is (0 - 1): the certainty of the model multiplied by the photo quality score. 0 when the season is 'undetermined'."),
+  photoQuality: PhotoQualitySchema.describe('The result of the local photo check, with actionable feedback.'),
+  analysisId: z.string().optional().describe('The id of the stored analysis. Only present when a userId was given.'),
+  photoRef: z.string().optional().describe("The analysed photo in the image store ('asset://<key>')."),
 });
 export type PerformColorAnalysisOutput = z.infer<typeof PerformColorAnalysisOutputSchema>;
 
+const PerformColorAnalysisPromptOutputSchema = PerformColorAnalysisOutputSchema.omit({analysisId: true, photoRef: true, photoQuality: true}).extend({
+  confidence: z.number().min(0).max(1).describe("How certain you are of the season (0 - 1), judged from how clearly the skin, hair and eyes can be seen. 0 when the season is 'undetermined'."),
+  recommendedColors: z.array(ModelColorInfoSchema).describe(PerformColorAnalysisOutputSchema.shape.recommendedColors.description!),
+  avoidColors: z.array(ModelColorInfoSchema).describe(PerformColorAnalysisOutputSchema.shape.avoidColors.description!),
+});
+
+const UNANALYZABLE_DESCRIPTIONS: LocalizedText = {
+  nl: 'De AI kon geen betrouwbare kleuranalyse uitvoeren op basis van de verstrekte afbeelding. Zorg voor een duidelijke foto van het gezicht bij goed daglicht, zonder zware make-up en met een neutrale achtergrond.',
+  en: 'The AI could not perform a reliable colour analysis based on the provided image. Use a clear photo of the face in good daylight, without heavy make-up and against a neutral background.',
+  de: 'Die KI konnte anhand des Bildes keine zuverlässige Farbanalyse durchführen. Verwende ein deutliches Foto des Gesichts bei gutem Tageslicht, ohne starkes Make-up und vor einem neutralen Hintergrund.',
+};
+
+const UNUSABLE_PHOTO_INTRODUCTIONS: LocalizedText = {
+  nl: 'Deze foto is niet geschikt voor een kleuranalyse:',
+  en: 'This photo is not suitable for a colour analysis:',
+  de: 'Dieses Foto ist für eine Farbanalyse nicht geeignet:',
+};
+
 export async function performColorAnalysis(input: PerformColorAnalysisInput): Promise<PerformColorAnalysisOutput> {
   return performColorAnalysisFlow(input);
 }
 
 const prompt = ai.definePrompt({
   name: 'performColorAnalysisPrompt',
-  input: {schema: PerformColorAnalysisInputSchema},
-  output: {schema: PerformColorAnalysisOutputSchema},
-  prompt: `Je bent een AI-expert in seizoenskleuranalyse voor mode en styling. Analyseer de meegeleverde foto van het gezicht van een persoon. 
-Identificeer hun huidtint (let op ondertonen: warm, koel, neutraal), natuurlijke haarkleur en oogkleur.
-
-Op basis van deze kenmerken, bepaal je het kleurseizoen van de persoon (Lente, Zomer, Herfst, of Winter).
-
-Belangrijk:
-- Als je geen duidelijk kleurseizoen kunt bepalen (bijvoorbeeld omdat het gezicht niet goed zichtbaar is, de foto geen persoon bevat, de belichting onvoldoende is, of de focus verkeerd ligt), stel \`seasonType\` dan in op "Niet te bepalen".
-- In het geval dat \`seasonType\` "Niet te bepalen" is:
-    - Moeten \`recommendedColors\` en \`avoidColors\` **lege arrays** zijn ([]).
-    - Moet \`analysisDescription\` duidelijk uitleggen waarom geen analyse mogelijk was (bijv. "Het is lastig om een nauwkeurige seizoenskleuranalyse te maken op basis van deze foto, omdat de focus ligt op [iets anders] en niet op het gezicht van een persoon. Ik kan geen huidtint, haarkleur en oogkleur identificeren...").
-    - Moeten de velden in \`characteristics\` (skinTone, hairColor, eyeColor) ingesteld worden op "Niet te bepalen".
-    - Moet \`paletteDescription\` ingesteld worden op "Niet te bepalen".
-- Geef *alleen* kleuraanbevelingen (minimaal 5) en te vermijden kleuren (minimaal 3), en gedetailleerde karakteristieken als een seizoen met zekerheid kan worden vastgesteld.
-- Geef een algemene beschrijving van het kleurenpalet dat bij het seizoen past.
-
-Zorg ervoor dat alle tekstuele output in het Nederlands is. De hex-codes moeten correct geformatteerd zijn (bijv. #RRGGBB).
-
-Foto van de gebruiker: {{media url=userDataUri}}
-
-Lever de output strikt volgens het opgegeven JSON-schema, rekening houdend met bovenstaande uitzonderingsregels.`,
+  input: {schema: PerformColorAnalysisInputSchema.pick({userDataUri: true}).extend({
+    language: z.string(),
+    undetermined: z.string(),
+    photoNotes: z.string().optional(),
+  })},
+  output: {schema: PerformColorAnalysisPromptOutputSchema},
+  prompt: `You are an AI expert in seasonal colour analysis for fashion and styling. Analyse the provided photo of a person's face.
+Identify their skin tone (pay attention to undertones: warm, cool, neutral), natural hair colour and eye colour.
+
+Based on these characteristics, determine the person's colour season in the 12-season system. For \`seasonType\`, use exactly one of the following codes: ${SEASONAL_PALETTES.map(palette => `${palette.code} (${palette.labels.en})`).join(', ')}.
+
+Important:
+- If you cannot determine a clear colour season (for example because the face is not clearly visible, the photo does not show a person, the lighting is insufficient or the focus is elsewhere), set \`seasonType\` to "undetermined".
+- If \`seasonType\` is "undetermined":
+    - \`recommendedColors\` and \`avoidColors\` must be **empty arrays** ([]).
+    - \`analysisDescription\` must clearly explain why no analysis was possible (e.g. "It is difficult to make an accurate seasonal colour analysis from this photo, because the focus is on [something else] and not on a person's face. I cannot identify a skin tone, hair colour and eye colour...").
+    - The fields in \`characteristics\` (skinTone, hairColor, eyeColor) must be set to "{{{undetermined}}}".
+    - \`paletteDescription\` must be set to "{{{undetermined}}}".
+- Only give recommended colours (at least 5), colours to avoid (at least 3) and detailed characteristics if a season can be determined with certainty.
+- Give a general description of the colour palette that suits the season.
+- Set \`confidence\` to how certain you are of the season, from 0 to 1. Lower it when the lighting, make-up, hair dye or a filter may distort the colours.
+{{#if photoNotes}}
+
+A local check of the photo found the following; take it into account when judging the colours:
+{{{photoNotes}}}
+{{/if}}
+
+Ensure all text is in {{{language}}}, including the colour names. The hex codes must be formatted correctly (e.g. #RRGGBB).
+
+User photo: {{media url=userDataUri}}
+
+Deliver the output strictly according to the given JSON schema, taking the exceptions above into account.`,
    safetySettings: [
     { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_LOW_AND_ABOVE' },
     { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
@@ -82,92 +129,83 @@ const performColorAnalysisFlow = ai.defineFlow(
     inputSchema: PerformColorAnalysisInputSchema,
     outputSchema: PerformColorAnalysisOutputSchema,
   },
-  async (input: PerformColorAnalysisInput): Promise<PerformColorAnalysisOutput> => {
-    const maxRetries = 3;
-    let delay = 2000; 
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        let { output } = await prompt(input);
-
-        if (!output) {
-          throw new Error('AI-analyse antwoordde, maar de output was leeg of niet in het verwachte formaat.');
-        }
-
-        // Post-processing to ensure consistency if analysis is not possible
-        const unanalyzableSeasonKeywords = ["niet te bepalen", "onvoldoende informatie", "kan niet analyseren", "geen gezicht", "onmogelijk te bepalen"];
-        const isUnanalyzable = output.seasonType && unanalyzableSeasonKeywords.some(keyword => output.seasonType.toLowerCase().includes(keyword.toLowerCase()));
-
-        if (isUnanalyzable) {
-          output.recommendedColors = [];
-          output.avoidColors = [];
-          
-          if (!output.analysisDescription || !unanalyzableSeasonKeywords.some(keyword => output.analysisDescription.toLowerCase().includes(keyword.toLowerCase()))) {
-            output.analysisDescription = "De AI kon geen betrouwbare kleuranalyse uitvoeren op basis van de verstrekte afbeelding. Zorg voor een duidelijke foto van het gezicht bij goed daglicht, zonder zware make-up en met een neutrale achtergrond.";
-          }
-          if (!output.characteristics || !output.characteristics.skinTone.toLowerCase().includes("niet te bepalen")) {
-              output.characteristics = {
-                  skinTone: "Niet te bepalen",
-                  hairColor: "Niet te bepalen",
-                  eyeColor: "Niet te bepalen",
-              };
-          }
-          if (!output.paletteDescription || !output.paletteDescription.toLowerCase().includes("niet te bepalen")) {
-                output.paletteDescription = "Niet te bepalen omdat het seizoen niet vastgesteld kon worden."
-          }
-        } else {
-          // Ensure color arrays meet minimums if season IS determined, otherwise Zod will fail if prompt didn't provide enough
-          if (output.recommendedColors.length < 5 && output.recommendedColors.length > 0) { 
-            // If some colors are there, but not enough, it's an LLM mistake. For simplicity, clear them if not meeting min.
-            // A better approach might be to try and get the LLM to provide more, or fill with generic defaults.
-            // For now, if the LLM fails to provide enough for a valid season, this will cause a Zod error below.
-            // This indicates the LLM did not follow instructions for a valid season.
-          }
-           if (output.avoidColors.length < 3 && output.avoidColors.length > 0) {
-            // Similar logic for avoidColors
-          }
+  async (input: PerformColorAnalysisInput, {abortSignal}): Promise<PerformColorAnalysisOutput> => {
+    const photo = await ingestImage('performColorAnalysisFlow', 'userDataUri', input.userDataUri);
+    const locale = resolveLocale(input);
+    const undetermined = UNDETERMINED_LABELS[locale];
+    const photoCheck = await checkPhotoQuality(photo.dataUri, {locale, correctWhiteBalance: input.correctWhiteBalance});
+    const blockingIssues = photoCheck.quality.issues.filter(issue => issue.severity === 'blocking');
+    if (blockingIssues.length > 0) {
+      // The photo cannot give a reliable result, so the model is not asked and nothing is stored.
+      return {
+        seasonType: 'undetermined',
+        analysisDescription: `${UNUSABLE_PHOTO_INTRODUCTIONS[locale]} ${blockingIssues.map(issue => issue.message).join(' ')}`,
+        characteristics: {skinTone: undetermined, hairColor: undetermined, eyeColor: undetermined},
+        recommendedColors: [],
+        avoidColors: [],
+        paletteDescription: undetermined,
+        confidence: 0,
+        photoQuality: photoCheck.quality,
+        photoRef: photo.ref,
+      };
+    }
+    try {
+      const output = await callWithResilience(
+        async ({signal}) => assertModelOutput('performColorAnalysisFlow', await prompt(
+          {
+            userDataUri: photoCheck.dataUri,
+            language: getLanguageName(locale),
+            undetermined,
+            photoNotes: describePhotoQualityForPrompt(photoCheck) || undefined,
+          },
+          {abortSignal: signal}
+        )),
+        {label: 'performColorAnalysisFlow', signal: abortSignal}
+      );
+
+      // Post-processing to ensure consistency if analysis is not possible
+      const isUnanalyzable = output.seasonType === 'undetermined';
+
+      if (isUnanalyzable) {
+        output.recommendedColors = [];
+        output.avoidColors = [];
+
+        if (!output.analysisDescription?.trim()) {
+          output.analysisDescription = UNANALYZABLE_DESCRIPTIONS[locale];
         }
-        
-        PerformColorAnalysisOutputSchema.parse(output); // Validate output
-        return output;
-
-      } catch (error: any) {
-        if (error instanceof ZodError) {
-          console.error("Zod validation error in performColorAnalysisFlow:", error.errors);
-          const zodErrorMessages = error.errors.map(e => `Veld '${e.path.join('.') || 'root'}': ${e.message}`).join('; ');
-          throw new Error(
-            `AI-output validatiefout: ${zodErrorMessages}. Controleer of de AI de data in het juiste formaat retourneert, inclusief het correcte aantal kleuren indien een seizoen is bepaald.`
-          );
+        output.characteristics = {skinTone: undetermined, hairColor: undetermined, eyeColor: undetermined};
+        output.paletteDescription = undetermined;
+        output.confidence = 0;
+      } else {
+        // Repair invalid hex codes, drop colours that contradict the canonical season palette and
+        // top up from that palette when the model returned fewer than 5 recommended or 3 avoid colours.
+        const {recommendedColors, avoidColors, palette} = reconcilePaletteColors(
+          output.seasonType, output.recommendedColors, output.avoidColors, {locale}
+        );
+        output.recommendedColors = recommendedColors;
+        output.avoidColors = avoidColors;
+        if (palette && !output.paletteDescription?.trim()) {
+          output.paletteDescription = palette.description[locale];
         }
+      }
 
-        const errorMessage = String(error.message || 'Onbekende fout opgetreden').toLowerCase();
-        const isRetryableError =
-          errorMessage.includes('503') || 
-          errorMessage.includes('service unavailable') ||
-          errorMessage.includes('model is overloaded') ||
-          errorMessage.includes('model_is_overloaded') ||
-          errorMessage.includes('resource has been exhausted') || 
-          errorMessage.includes('rate limit') || 
-          errorMessage.includes('try again'); 
-
-        if (isRetryableError) {
-          if (attempt < maxRetries - 1) {
-            console.warn(`Poging ${attempt + 1} mislukt (herstelbare fout): ${error.message}. Opnieuw proberen na ${delay}ms...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            delay *= 2; 
-          } else {
-            console.error(`AI-analyse mislukt na ${maxRetries} pogingen vanwege API-problemen. Laatste fout: ${error.message}`);
-            throw new Error(
-              `AI-analyse mislukt na ${maxRetries} pogingen vanwege API-problemen (bijv. overbelasting, rate limits). Probeer het later opnieuw. Fout: ${error.message || 'Onbekende API fout'}`
-            );
-          }
-        } else {
-          console.error("Niet-herstelbare fout in performColorAnalysisFlow:", error);
-          throw error; 
-        }
+      const confidence = Math.round(output.confidence * photoCheck.quality.score * 100) / 100;
+      const analysis = PerformColorAnalysisOutputSchema.parse({...output, confidence, photoQuality: photoCheck.quality, photoRef: photo.ref}); // Validate output
+      if (input.userId && !isUnanalyzable) {
+        const stored = await getWardrobeRepository().saveColorAnalysis(input.userId, analysis);
+        return {...analysis, analysisId: stored.id};
+      }
+      return analysis;
+
+    } catch (error: any) {
+      const flowError = toFlowError('performColorAnalysisFlow', error, {imageField: 'userDataUri'});
+      if (flowError instanceof OutputValidationError) {
+        console.error("Zod validation error in performColorAnalysisFlow:", flowError.issues);
+      } else if (!(flowError instanceof FlowError)) {
+        console.error("Niet-herstelbare fout in performColorAnalysisFlow:", error);
       }
+      throw flowError;
     }
-    throw new Error('De kleuranalyse is onverwacht mislukt na alle pogingen.');
   }
 );
 
@@ -0,0 +1,54 @@
+/**
+ * @fileOverview Tests for the local photo quality check and the grey-world white balance.
+ *
+ * Run with `npx tsx --test *.test.ts`.
+ */
+
+import {createPortraitPhoto} from '@/ai/test-support';
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {applyGreyWorldWhiteBalance, checkPhotoQuality} from '@/ai/photo-quality';
+
+describe('checkPhotoQuality', () => {
+  test('finds no issues in a well exposed, neutral photo', async () => {
+    const {quality} = await checkPhotoQuality(await createPortraitPhoto());
+
+    assert.deepEqual(quality.issues, []);
+    assert.equal(quality.score, 1);
+    assert.equal(quality.colorCast, 'none');
+    assert.deepEqual([quality.metrics.width, quality.metrics.height], [640, 640]);
+  });
+
+  test('warns about a dim photo and blocks a nearly black one', async () => {
+    const dim = await checkPhotoQuality(await createPortraitPhoto({brightness: 0.4}));
+    const black = await checkPhotoQuality(await createPortraitPhoto({brightness: 0.1}), {locale: 'de'});
+
+    assert.deepEqual(dim.quality.issues.map(issue => [issue.code, issue.severity]), [['too_dark', 'warning']]);
+    assert.equal(dim.quality.score, 0.85);
+    assert.equal(black.quality.issues[0].severity, 'blocking');
+    assert.match(black.quality.issues[0].message, /zu dunkel/);
+    assert.equal(black.quality.score, 0);
+  });
+
+  test('recognizes the direction of a colour cast', async () => {
+    const blue = await checkPhotoQuality(await createPortraitPhoto({tint: [0.75, 0.95, 1.25]}), {correctWhiteBalance: false});
+    const green = await checkPhotoQuality(await createPortraitPhoto({tint: [0.8, 1.2, 0.8]}), {correctWhiteBalance: false});
+
+    assert.equal(blue.quality.colorCast, 'blue');
+    assert.equal(green.quality.colorCast, 'green');
+    assert.match(green.quality.issues[0].message, /groene kleurzweem/);
+  });
+});
+
+describe('applyGreyWorldWhiteBalance', () => {
+  test('removes a moderate colour cast', async () => {
+    const tinted = await createPortraitPhoto({tint: [1.2, 1.05, 0.8]});
+    const bytes = Buffer.from(tinted.slice(tinted.indexOf(',') + 1), 'base64');
+
+    const corrected = await applyGreyWorldWhiteBalance(bytes);
+    const {quality} = await checkPhotoQuality(`data:image/jpeg;base64,${corrected.toString('base64')}`);
+
+    assert.equal(quality.colorCast, 'none');
+    assert.ok(quality.metrics.castStrength < 6);
+  });
+});
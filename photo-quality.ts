@@ -0,0 +1,289 @@
+/**
+ * @fileOverview Local quality check of the photo for the colour analysis, run before the model call.
+ *
+ * The photo is measured on a scaled-down copy: its size, exposure (brightness, clipped highlights,
+ * contrast) and colour cast. The cast is the grey-world estimate: the average colour of a photo is
+ * assumed to be neutral, so a clearly tinted average points at the light source (e.g. yellow lamp
+ * light). Skin is warm by nature and a close-up of a face is never fully neutral, so only a strong
+ * tint counts as a cast and the correction is limited to a modest gain per channel.
+ *
+ * - PhotoQualitySchema - The quality report: score, actionable issues, colour cast and metrics.
+ * - checkPhotoQuality - Measures a photo, optionally corrects its white balance and reports the issues.
+ * - applyGreyWorldWhiteBalance - Scales the colour channels so the average colour of the photo becomes neutral.
+ * - describePhotoQualityForPrompt - The issues as notes for the model, in English.
+ */
+
+import sharp from 'sharp';
+import {z} from 'genkit';
+import {rgbToLab} from '@/ai/color-science';
+import {DEFAULT_LOCALE, Locale, LocalizedText} from '@/ai/locale';
+
+/** The side of the copy the measurements are made on. */
+const SAMPLE_DIMENSION = 256;
+
+const MIN_SIDE_BLOCKING = 200;
+const MIN_SIDE_WARNING = 480;
+/** Mean luma (0 - 255) below which a photo is unusable, or too dark for a reliable analysis. */
+const DARK_BLOCKING = 35;
+const DARK_WARNING = 70;
+const BRIGHT_BLOCKING = 230;
+const BRIGHT_WARNING = 200;
+/** The share of (nearly) white pixels above which the highlights are burnt out. */
+const CLIPPED_HIGHLIGHTS_WARNING = 0.2;
+/** The standard deviation of the luma below which the photo is flat, e.g. blurred or hazy. */
+const LOW_CONTRAST_WARNING = 18;
+/** The chroma (C*ab) of the average colour above which it counts as a colour cast. */
+const COLOR_CAST_THRESHOLD = 12;
+/** The grey-world gains are limited to this range, so a face close-up is not turned blue. */
+const MIN_GAIN = 0.8;
+const MAX_GAIN = 1.25;
+
+const WARNING_PENALTY = 0.15;
+const CORRECTED_CAST_PENALTY = 0.05;
+
+const PhotoQualityIssueCodeSchema = z.enum(['too_small', 'too_dark', 'too_bright', 'clipped_highlights', 'low_contrast', 'color_cast']);
+type PhotoQualityIssueCode = z.infer<typeof PhotoQualityIssueCodeSchema>;
+
+const ColorCastSchema = z.enum(['none', 'yellow', 'blue', 'green', 'magenta']);
+type ColorCast = z.infer<typeof ColorCastSchema>;
+
+export const PhotoQualitySchema = z.object({
+  score: z.number().min(0).max(1).describe('How suitable the photo is for a colour analysis: 1 without issues, 0 when a blocking issue was found.'),
+  issues: z.array(z.object({
+    code: PhotoQualityIssueCodeSchema,
+    severity: z.enum(['blocking', 'warning']).describe("A 'blocking' issue makes the photo unusable: the model is not called."),
+    message: z.string().describe("Actionable feedback in the requested locale, e.g. 'te donker: fotografeer bij daglicht'."),
+  })),
+  colorCast: ColorCastSchema.describe('The tint of the light in the photo, estimated with the grey-world assumption.'),
+  whiteBalanceCorrected: z.boolean().describe('Whether the colour cast was corrected before the photo was analysed.'),
+  metrics: z.object({
+    width: z.number().int(),
+    height: z.number().int(),
+    brightness: z.number().describe('The mean luma, 0 (black) - 1 (white).'),
+    contrast: z.number().describe('The standard deviation of the luma, 0 - 1.'),
+    castStrength: z.number().describe('The chroma (C*ab) of the average colour; 0 is perfectly neutral.'),
+  }),
+});
+export type PhotoQuality = z.infer<typeof PhotoQualitySchema>;
+
+interface Measurements {
+  width: number;
+  height: number;
+  meanLuma: number;
+  lumaDeviation: number;
+  clippedHighlights: number;
+  channelMeans: [number, number, number];
+  cast: ColorCast;
+  castStrength: number;
+}
+
+interface Issue {
+  code: PhotoQualityIssueCode;
+  severity: 'blocking' | 'warning';
+  messages: LocalizedText;
+}
+
+export interface PhotoQualityCheck {
+  quality: PhotoQuality;
+  /** The photo to analyse: the white-balanced version when it was corrected, otherwise the original. */
+  dataUri: string;
+  /** The issues in English, for describePhotoQualityForPrompt. */
+  notes: string[];
+}
+
+const CAST_NAMES: Record<Exclude<ColorCast, 'none'>, LocalizedText & {cause: LocalizedText}> = {
+  yellow: {nl: 'gele', en: 'yellow', de: 'Gelb', cause: {nl: 'lamplicht', en: 'lamp light', de: 'Lampenlicht'}},
+  blue: {nl: 'blauwe', en: 'blue', de: 'Blau', cause: {nl: 'schaduw of een bewolkte lucht', en: 'shade or an overcast sky', de: 'Schatten oder bewölkten Himmel'}},
+  green: {nl: 'groene', en: 'green', de: 'Grün', cause: {nl: 'tl-licht', en: 'fluorescent light', de: 'Leuchtstofflampen'}},
+  magenta: {nl: 'paarsroze', en: 'magenta', de: 'Magenta', cause: {nl: 'gekleurde lampen', en: 'coloured lights', de: 'farbige Lampen'}},
+};
+
+function parseDataUri(dataUri: string): Buffer {
+  return Buffer.from(dataUri.slice(dataUri.indexOf(',') + 1), 'base64');
+}
+
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+/** The hue angle of the average colour decides the cast: a* > 0 magenta, b* > 0 yellow, a* < 0 green, b* < 0 blue. */
+function classifyCast(a: number, b: number): ColorCast {
+  if (Math.hypot(a, b) < COLOR_CAST_THRESHOLD) {
+    return 'none';
+  }
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  if (hue >= -45 && hue < 45) {
+    return 'magenta';
+  }
+  if (hue >= 45 && hue < 135) {
+    return 'yellow';
+  }
+  return hue >= 135 || hue < -135 ? 'green' : 'blue';
+}
+
+async function measure(bytes: Buffer): Promise<Measurements> {
+  const image = sharp(bytes).rotate();
+  const {width = 0, height = 0, orientation = 1} = await sharp(bytes).metadata();
+  const {data, info} = await image
+    .resize({width: SAMPLE_DIMENSION, height: SAMPLE_DIMENSION, fit: 'inside', withoutEnlargement: true})
+    .removeAlpha()
+    .raw()
+    .toBuffer({resolveWithObject: true});
+
+  const pixelCount = info.width * info.height;
+  const channelSums = [0, 0, 0];
+  let lumaSum = 0;
+  let lumaSquares = 0;
+  let clipped = 0;
+  for (let offset = 0; offset < data.length; offset += info.channels) {
+    const [r, g, b] = [data[offset], data[offset + 1], data[offset + 2]];
+    const y = luma(r, g, b);
+    channelSums[0] += r;
+    channelSums[1] += g;
+    channelSums[2] += b;
+    lumaSum += y;
+    lumaSquares += y * y;
+    if (y > 245) {
+      clipped++;
+    }
+  }
+  const meanLuma = lumaSum / pixelCount;
+  const channelMeans = channelSums.map(sum => sum / pixelCount) as [number, number, number];
+  const {a, b} = rgbToLab({r: channelMeans[0], g: channelMeans[1], b: channelMeans[2]});
+  // EXIF orientations 5 - 8 rotate the photo by 90 degrees.
+  const rotated = orientation >= 5;
+  return {
+    width: rotated ? height : width,
+    height: rotated ? width : height,
+    meanLuma,
+    lumaDeviation: Math.sqrt(Math.max(0, lumaSquares / pixelCount - meanLuma * meanLuma)),
+    clippedHighlights: clipped / pixelCount,
+    channelMeans,
+    cast: classifyCast(a, b),
+    castStrength: Math.hypot(a, b),
+  };
+}
+
+function findExposureIssues(measured: Measurements): Issue[] {
+  const issues: Issue[] = [];
+  const shortSide = Math.min(measured.width, measured.height);
+  if (shortSide < MIN_SIDE_WARNING) {
+    const size = `${measured.width}×${measured.height} px`;
+    issues.push({code: 'too_small', severity: shortSide < MIN_SIDE_BLOCKING ? 'blocking' : 'warning', messages: {
+      nl: `te klein (${size}): gebruik een foto van minstens ${MIN_SIDE_WARNING} px breed en hoog.`,
+      en: `too small (${size}): use a photo of at least ${MIN_SIDE_WARNING} px wide and high.`,
+      de: `zu klein (${size}): verwende ein Foto mit mindestens ${MIN_SIDE_WARNING} px Breite und Höhe.`,
+    }});
+  }
+  if (measured.meanLuma < DARK_WARNING) {
+    issues.push({code: 'too_dark', severity: measured.meanLuma < DARK_BLOCKING ? 'blocking' : 'warning', messages: {
+      nl: 'te donker: fotografeer bij daglicht, met het gezicht naar het raam.',
+      en: 'too dark: take the photo in daylight, facing a window.',
+      de: 'zu dunkel: fotografiere bei Tageslicht, mit dem Gesicht zum Fenster.',
+    }});
+  } else if (measured.meanLuma > BRIGHT_WARNING) {
+    issues.push({code: 'too_bright', severity: measured.meanLuma > BRIGHT_BLOCKING ? 'blocking' : 'warning', messages: {
+      nl: 'te licht (overbelicht): vermijd direct zonlicht en flits.',
+      en: 'too bright (overexposed): avoid direct sunlight and flash.',
+      de: 'zu hell (überbelichtet): vermeide direktes Sonnenlicht und Blitz.',
+    }});
+  }
+  if (measured.clippedHighlights > CLIPPED_HIGHLIGHTS_WARNING && measured.meanLuma <= BRIGHT_WARNING) {
+    issues.push({code: 'clipped_highlights', severity: 'warning', messages: {
+      nl: 'uitgebeten lichte delen: vermijd flits en fel licht op het gezicht.',
+      en: 'burnt-out highlights: avoid flash and harsh light on the face.',
+      de: 'ausgefressene Lichter: vermeide Blitz und grelles Licht im Gesicht.',
+    }});
+  }
+  if (measured.lumaDeviation < LOW_CONTRAST_WARNING) {
+    issues.push({code: 'low_contrast', severity: 'warning', messages: {
+      nl: 'weinig contrast: de foto is mogelijk wazig, beslagen of mistig.',
+      en: 'low contrast: the photo may be blurred or hazy.',
+      de: 'wenig Kontrast: das Foto ist möglicherweise unscharf oder trüb.',
+    }});
+  }
+  return issues;
+}
+
+function colorCastIssue(colorCast: Exclude<ColorCast, 'none'>, whiteBalanceCorrected: boolean): Issue {
+  const cast = CAST_NAMES[colorCast];
+  const messages: LocalizedText = whiteBalanceCorrected
+    ? {
+        nl: `${cast.nl} kleurzweem (bijv. door ${cast.cause.nl}): de witbalans is automatisch gecorrigeerd, maar daglicht geeft het betrouwbaarste resultaat.`,
+        en: `${cast.en} colour cast (e.g. from ${cast.cause.en}): the white balance was corrected automatically, but daylight gives the most reliable result.`,
+        de: `${cast.de}stich (z. B. durch ${cast.cause.de}): der Weißabgleich wurde automatisch korrigiert, aber Tageslicht liefert das zuverlässigste Ergebnis.`,
+      }
+    : {
+        nl: `${cast.nl} kleurzweem (bijv. door ${cast.cause.nl}): fotografeer bij neutraal daglicht.`,
+        en: `${cast.en} colour cast (e.g. from ${cast.cause.en}): take the photo in neutral daylight.`,
+        de: `${cast.de}stich (z. B. durch ${cast.cause.de}): fotografiere bei neutralem Tageslicht.`,
+      };
+  return {code: 'color_cast', severity: 'warning', messages};
+}
+
+/** A corrected colour cast costs less than the other warnings. */
+function scoreIssues(issues: Issue[], whiteBalanceCorrected: boolean): number {
+  if (issues.some(issue => issue.severity === 'blocking')) {
+    return 0;
+  }
+  const penalty = issues.reduce((sum, issue) =>
+    sum + (issue.code === 'color_cast' && whiteBalanceCorrected ? CORRECTED_CAST_PENALTY : WARNING_PENALTY), 0);
+  return Math.max(0, Math.round((1 - penalty) * 100) / 100);
+}
+
+const clampGain = (gain: number) => Math.min(MAX_GAIN, Math.max(MIN_GAIN, gain));
+
+/**
+ * Multiplies every channel so its mean matches the mean of all channels. Returns a JPEG, as the
+ * photo is only passed on to the model.
+ */
+export async function applyGreyWorldWhiteBalance(bytes: Buffer, channelMeans?: [number, number, number]): Promise<Buffer> {
+  const means = channelMeans ?? (await measure(bytes)).channelMeans;
+  const grey = (means[0] + means[1] + means[2]) / 3;
+  const gains = means.map(mean => clampGain(mean > 0 ? grey / mean : 1));
+  return sharp(bytes).rotate().removeAlpha().linear(gains, [0, 0, 0]).jpeg({quality: 92}).toBuffer();
+}
+
+/**
+ * Measures the photo (a data URI) and reports the issues in `locale`. With correctWhiteBalance
+ * (the default) a colour cast is corrected with applyGreyWorldWhiteBalance; the corrected photo is
+ * returned in `dataUri`.
+ */
+export async function checkPhotoQuality(
+  dataUri: string,
+  options: {locale?: Locale; correctWhiteBalance?: boolean} = {}
+): Promise<PhotoQualityCheck> {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const bytes = parseDataUri(dataUri);
+  const measured = await measure(bytes);
+  const issues = findExposureIssues(measured);
+  // An unusable photo is not analysed, so there is no point in correcting it.
+  const blocked = issues.some(issue => issue.severity === 'blocking');
+  const whiteBalanceCorrected = (options.correctWhiteBalance ?? true) && measured.cast !== 'none' && !blocked;
+  if (measured.cast !== 'none') {
+    issues.push(colorCastIssue(measured.cast, whiteBalanceCorrected));
+  }
+  const corrected = whiteBalanceCorrected
+    ? `data:image/jpeg;base64,${(await applyGreyWorldWhiteBalance(bytes, measured.channelMeans)).toString('base64')}`
+    : undefined;
+
+  return {
+    quality: {
+      score: scoreIssues(issues, whiteBalanceCorrected),
+      issues: issues.map(issue => ({code: issue.code, severity: issue.severity, message: issue.messages[locale]})),
+      colorCast: measured.cast,
+      whiteBalanceCorrected,
+      metrics: {
+        width: measured.width,
+        height: measured.height,
+        brightness: Math.round((measured.meanLuma / 255) * 1000) / 1000,
+        contrast: Math.round((measured.lumaDeviation / 255) * 1000) / 1000,
+        castStrength: Math.round(measured.castStrength * 10) / 10,
+      },
+    },
+    dataUri: corrected ?? dataUri,
+    notes: issues.map(issue => issue.messages.en),
+  };
+}
+
+export function describePhotoQualityForPrompt(check: PhotoQualityCheck): string {
+  return check.notes.map(note => `- ${note}`).join('\n');
+}
@@ -0,0 +1,122 @@
+/**
+ * @fileOverview Per-user rate limiting and daily quotas for the HTTP API.
+ *
+ * The rate limit is a token bucket: a user can make `burst` requests at once, after which requests are
+ * refilled at `requestsPerMinute`. The quotas count the flow requests and the model tokens per user
+ * per UTC day. Token usage is only known afterwards, so a request is rejected once the tokens of the
+ * earlier requests of that day have reached the quota. The counters are kept in memory and start over
+ * when the process restarts. Users whose counters belong to an earlier day and whose bucket is full
+ * again are dropped once a minute, so the map does not grow with every user ever seen.
+ *
+ * - RateLimitOptions - The limits; every limit has a default.
+ * - RateLimitDecision - Whether a request may proceed, and otherwise why not and when to retry.
+ * - UserRateLimiter - Keeps the buckets and daily counters per user.
+ */
+
+export interface RateLimitOptions {
+  /** Requests a user can make at once. Defaults to 10. */
+  burst?: number;
+  /** Sustained requests per user per minute. Defaults to 30. */
+  requestsPerMinute?: number;
+  /** Flow requests per user per UTC day. Defaults to 500. */
+  dailyRequestQuota?: number;
+  /** Model tokens per user per UTC day. Defaults to 500000. */
+  dailyTokenQuota?: number;
+  /** The clock, in milliseconds. Defaults to Date.now. */
+  now?: () => number;
+}
+
+export type RateLimitDecision =
+  | {allowed: true}
+  | {allowed: false; reason: 'rate_limited' | 'request_quota_exceeded' | 'token_quota_exceeded'; retryAfterSeconds: number};
+
+interface UserCounters {
+  tokens: number;
+  refilledAt: number;
+  day: string;
+  requests: number;
+  modelTokens: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EVICTION_INTERVAL_MS = 60 * 1000;
+
+export class UserRateLimiter {
+  private readonly burst: number;
+  private readonly requestsPerMinute: number;
+  private readonly dailyRequestQuota: number;
+  private readonly dailyTokenQuota: number;
+  private readonly now: () => number;
+  private readonly counters = new Map<string, UserCounters>();
+  private evictedAt = 0;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.burst = options.burst ?? 10;
+    this.requestsPerMinute = options.requestsPerMinute ?? 30;
+    this.dailyRequestQuota = options.dailyRequestQuota ?? 500;
+    this.dailyTokenQuota = options.dailyTokenQuota ?? 500_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Counts a request of the user when it is allowed. */
+  tryAcquire(userId: string): RateLimitDecision {
+    const now = this.now();
+    this.evictIdleUsers(now);
+    const counters = this.getCounters(userId, now);
+    const secondsToNextDay = Math.ceil((DAY_MS - now % DAY_MS) / 1000);
+    if (counters.modelTokens >= this.dailyTokenQuota) {
+      return {allowed: false, reason: 'token_quota_exceeded', retryAfterSeconds: secondsToNextDay};
+    }
+    if (counters.requests >= this.dailyRequestQuota) {
+      return {allowed: false, reason: 'request_quota_exceeded', retryAfterSeconds: secondsToNextDay};
+    }
+    const refillPerMs = this.requestsPerMinute / 60_000;
+    counters.tokens = Math.min(this.burst, counters.tokens + (now - counters.refilledAt) * refillPerMs);
+    counters.refilledAt = now;
+    if (counters.tokens < 1) {
+      return {allowed: false, reason: 'rate_limited', retryAfterSeconds: Math.ceil((1 - counters.tokens) / refillPerMs / 1000)};
+    }
+    counters.tokens--;
+    counters.requests++;
+    return {allowed: true};
+  }
+
+  /** Adds the model tokens used by a request to the user's daily total. */
+  recordTokens(userId: string, tokens: number): void {
+    this.getCounters(userId, this.now()).modelTokens += tokens;
+  }
+
+  /** The number of users with counters, for monitoring. */
+  get size(): number {
+    return this.counters.size;
+  }
+
+  // A user from an earlier day with a full bucket has nothing left to limit: a new entry starts the same.
+  private evictIdleUsers(now: number): void {
+    if (now - this.evictedAt < EVICTION_INTERVAL_MS) {
+      return;
+    }
+    this.evictedAt = now;
+    const today = new Date(now).toISOString().slice(0, 10);
+    const refillMs = this.burst / this.requestsPerMinute * 60_000;
+    for (const [userId, counters] of this.counters) {
+      if (counters.day !== today && now - counters.refilledAt >= refillMs) {
+        this.counters.delete(userId);
+      }
+    }
+  }
+
+  private getCounters(userId: string, now: number): UserCounters {
+    const day = new Date(now).toISOString().slice(0, 10);
+    let counters = this.counters.get(userId);
+    if (!counters) {
+      counters = {tokens: this.burst, refilledAt: now, day, requests: 0, modelTokens: 0};
+      this.counters.set(userId, counters);
+    } else if (counters.day !== day) {
+      counters.day = day;
+      counters.requests = 0;
+      counters.modelTokens = 0;
+    }
+    return counters;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * @fileOverview Tests for retries, input validation and the mapping of model failures onto the error taxonomy.
+ *
+ * Run with `npx tsx --test *.test.ts`.
+ */
+
+import {collectFailure, CLOSET, createTestPhoto, modelClothingItem, resetTestState} from '@/ai/test-support';
+import assert from 'node:assert/strict';
+import {mkdtempSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {beforeEach, describe, test} from 'node:test';
+import {GenkitError} from 'genkit';
+import {ZodError} from 'zod';
+import {analyzeClothingItem} from '@/ai/flows/analyze-clothing-item-flow';
+import {analyzeClothingItems} from '@/ai/flows/analyze-clothing-items-batch-flow';
+import {analyzeWardrobeGaps} from '@/ai/flows/analyze-wardrobe-gaps-flow';
+import {generateOutfitPlan} from '@/ai/flows/generate-outfit-plan-flow';
+import {generateOutfitSuggestion} from '@/ai/flows/generate-outfit-suggestion';
+import {generateOutfitVisualization} from '@/ai/flows/generate-outfit-visualization-flow';
+import {ai} from '@/ai/genkit';
+import {FlowError, QuotaExhaustedError} from '@/ai/errors';
+import {mockModelController} from '@/ai/mock-model';
+import {callWithResilience, ResilientCallError} from '@/ai/resilient-call';
+import {FixtureWeatherProvider, resolveWeather, setWeatherProvider} from '@/ai/weather';
+
+beforeEach(resetTestState);
+
+describe('retries', () => {
+  test('a flow succeeds when the model recovers after a 503', async () => {
+    mockModelController.enqueue('text', {error: 'UNAVAILABLE'}, {output: modelClothingItem()});
+
+    const result = await analyzeClothingItem({photoDataUri: await createTestPhoto()});
+
+    assert.equal(result.itemType, 'jeans');
+    assert.equal(mockModelController.calls.length, 2);
+  });
+
+  test('gives up after the maximum number of attempts', async () => {
+    let attempts = 0;
+    const error = await collectFailure(callWithResilience(async () => {
+      attempts++;
+      throw new GenkitError({status: 'UNAVAILABLE', message: '[503] Service Unavailable'});
+    }, {label: 'test', initialDelayMs: 1}));
+
+    assert.ok(error instanceof ResilientCallError);
+    assert.equal(error.code, 'SERVICE_UNAVAILABLE');
+    assert.equal(error.reason, 'attempts_exhausted');
+    assert.equal(attempts, 3);
+  });
+
+  test('reports an exhausted quota as QUOTA_EXHAUSTED', async () => {
+    const error = await collectFailure(callWithResilience(async () => {
+      throw new GenkitError({status: 'RESOURCE_EXHAUSTED', message: '[429] Too Many Requests'});
+    }, {label: 'test', initialDelayMs: 1, maxAttempts: 2}));
+
+    assert.ok(error instanceof QuotaExhaustedError);
+    assert.equal(error.code, 'QUOTA_EXHAUSTED');
+    assert.equal(error.attempts, 2);
+  });
+
+  test('does not retry errors that are not transient', async () => {
+    let attempts = 0;
+    const error = await collectFailure(callWithResilience(async () => {
+      attempts++;
+      throw new GenkitError({status: 'PERMISSION_DENIED', message: 'API key not valid'});
+    }, {label: 'test', initialDelayMs: 1}));
+
+    assert.ok(error instanceof GenkitError);
+    assert.equal(attempts, 1);
+  });
+});
+
+describe('input validation', () => {
+  test('rejects input that does not match the input schema', async () => {
+    const error = await collectFailure(analyzeWardrobeGaps({closetItems: CLOSET, maxSuggestions: 50}));
+
+    assert.ok(error instanceof GenkitError);
+    assert.equal(error.status, 'INVALID_ARGUMENT');
+    assert.equal(mockModelController.calls.length, 0);
+  });
+
+  test('rejects a malformed date in a plan day', async () => {
+    const weather = {temperatureMinC: 10, temperatureMaxC: 15, precipitationProbability: 0, windSpeedKmh: 5, uvIndex: 2};
+    const error = await collectFailure(generateOutfitPlan({closetItems: CLOSET, days: [{date: '4 mei', occasion: 'Kantoor', weather}]}));
+
+    assert.ok(error instanceof GenkitError);
+    assert.equal(error.status, 'INVALID_ARGUMENT');
+  });
+
+  test('rejects a plan that names the same date twice', async () => {
+    const weather = {temperatureMinC: 10, temperatureMaxC: 15, precipitationProbability: 0, windSpeedKmh: 5, uvIndex: 2};
+    const error = await collectFailure(generateOutfitPlan({
+      closetItems: CLOSET,
+      days: [{date: '2026-05-04', occasion: 'Kantoor', weather}, {date: '2026-05-04', occasion: 'Etentje', weather}],
+    }));
+
+    assert.ok(error instanceof FlowError);
+    assert.equal(error.code, 'INVALID_INPUT');
+    assert.equal(mockModelController.calls.length, 0);
+  });
+
+  test('rejects an occasion without preset, dress code or description', async () => {
+    const weather = {temperatureMinC: 14, temperatureMaxC: 20, precipitationProbability: 10, windSpeedKmh: 12, uvIndex: 4};
+    const error = await collectFailure(generateOutfitSuggestion({closetItems: CLOSET, weather, fashionTrends: 'Relaxed denim', occasion: {}}));
+
+    assert.ok(error instanceof FlowError);
+    assert.equal(error.code, 'INVALID_INPUT');
+    assert.equal(mockModelController.calls.length, 0);
+  });
+
+  test('rejects a photo that is not an image data URI', async () => {
+    const error = await collectFailure(analyzeClothingItem({photoDataUri: 'data:text/plain;base64,aGFsbG8='}));
+
+    assert.ok(error instanceof FlowError);
+    assert.equal(error.code, 'INVALID_INPUT_IMAGE');
+  });
+
+  test('reports a rejected photo per photo in a batch', async () => {
+    mockModelController.enqueue('text', {output: modelClothingItem()});
+
+    const result = await analyzeClothingItems({
+      photoDataUris: ['data:image/png;base64,bm90IGFuIGltYWdl', await createTestPhoto()],
+      detectMultiple: false,
+      concurrency: 1,
+    });
+
+    assert.equal(result.failedPhotoCount, 1);
+    assert.equal(result.results[0].error?.code, 'INVALID_INPUT_IMAGE');
+    assert.equal(result.results[1].status, 'ok');
+  });
+
+  test('rejects a cancelled batch instead of reporting its photos as failed', async () => {
+    const flow = await ai.registry.lookupAction('/flow/analyzeClothingItemsFlow');
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await collectFailure(flow.run(
+      {photoDataUris: [await createTestPhoto(), await createTestPhoto()], detectMultiple: false},
+      {abortSignal: controller.signal}
+    ));
+
+    assert.ok(error instanceof ResilientCallError);
+    assert.equal(error.reason, 'aborted');
+    assert.equal(error.code, 'CANCELLED');
+    assert.equal(mockModelController.calls.length, 0);
+  });
+});
+
+describe('weather', () => {
+  const weather = {temperatureMinC: 18, temperatureMaxC: 12, precipitationProbability: 0, windSpeedKmh: 5, uvIndex: 2};
+
+  test('reports an invalid forecast from the provider as WEATHER_UNAVAILABLE', async () => {
+    const fixturePath = join(mkdtempSync(join(tmpdir(), 'colorme-weather-')), 'weather.json');
+    writeFileSync(fixturePath, JSON.stringify({Utrecht: {'2026-05-04': weather}}));
+    setWeatherProvider(new FixtureWeatherProvider(fixturePath));
+
+    const error = await collectFailure(resolveWeather({location: 'Utrecht', date: '2026-05-04'}));
+
+    assert.ok(error instanceof FlowError);
+    assert.equal(error.code, 'WEATHER_UNAVAILABLE');
+    assert.ok(error.cause instanceof ZodError);
+  });
+
+  test('rejects a forecast whose minimum is above its maximum', async () => {
+    const error = await collectFailure(generateOutfitPlan({closetItems: CLOSET, days: [{date: '2026-05-04', occasion: 'Kantoor', weather}]}));
+
+    assert.ok(error instanceof FlowError);
+    assert.equal(error.code, 'INVALID_INPUT');
+    assert.equal(mockModelController.calls.length, 0);
+  });
+});
+
+describe('model output', () => {
+  test('malformed JSON becomes an output validation error', async () => {
+    mockModelController.enqueue('text', {text: '{"itemName": "Jeans", "itemType": '});
+
+    const error = await collectFailure(analyzeClothingItem({photoDataUri: await createTestPhoto()}));
+
+    assert.ok(error instanceof FlowError);
+    assert.equal(error.code, 'OUTPUT_VALIDATION_FAILED');
+  });
+
+  test('output outside the schema becomes an output validation error', async () => {
+    mockModelController.enqueue('text', {output: modelClothingItem({itemType: 'broek'})});
+
+    const error = await collectFailure(analyzeClothingItem({photoDataUri: await createTestPhoto()}));
+
+    assert.ok(error instanceof FlowError);
+    assert.equal(error.code, 'OUTPUT_VALIDATION_FAILED');
+  });
+
+  test('a blocked response becomes MODEL_REFUSED with a localized message', async () => {
+    mockModelController.enqueue('image', {blocked: true});
+
+    const error = await collectFailure(generateOutfitVisualization({description: 'A red dress'}));
+
+    assert.ok(error instanceof FlowError);
+    assert.equal(error.code, 'MODEL_REFUSED');
+    assert.match(error.getLocalizedMessage('en'), /safety filters/);
+    assert.equal(mockModelController.calls.length, 1);
+  });
+
+  test('an image response without image becomes EMPTY_OUTPUT', async () => {
+    mockModelController.enqueue('image', {text: 'Here is your outfit!'});
+
+    const error = await collectFailure(generateOutfitVisualization({description: 'A red dress'}));
+
+    assert.ok(error instanceof FlowError);
+    assert.equal(error.code, 'EMPTY_OUTPUT');
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * @fileOverview Shared retry wrapper for model calls made by the Genkit flows.
+ *
+ * - callWithResilience - Runs a model call with retries, exponential backoff, jitter, a total deadline and cancellation.
+ * - getErrorStatus - Extracts a structured status (HTTP code or Genkit status name) from an error.
+ * - isRetryableError - Whether an error is a transient API problem worth retrying.
+ * - ResilientCallError - Thrown when a call is given up on, with the number of attempts made.
+ *   When the quota stays exhausted, a QuotaExhaustedError is thrown instead; a cancelled call has the code CANCELLED.
+ * - ResilientCallOptions - The options for callWithResilience.
+ */
+
+import {FlowError, QuotaExhaustedError} from '@/ai/errors';
+
+export interface ResilientCallOptions {
+  /** Name used in log messages, usually the flow name. */
+  label: string;
+  /** Maximum number of attempts, including the first one. Defaults to 3. */
+  maxAttempts?: number;
+  /** Delay before the first retry. Defaults to 2000 ms. */
+  initialDelayMs?: number;
+  /** Upper bound for a single backoff delay. Defaults to 30000 ms. */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after every retry. Defaults to 2. */
+  backoffFactor?: number;
+  /** Random spread applied to every delay, as a fraction of the delay (0 - 1). Defaults to 0.2. */
+  jitter?: number;
+  /** Total time budget for all attempts and delays together. Defaults to 60000 ms. */
+  deadlineMs?: number;
+  /** Cancels the call, including any pending backoff delay. */
+  signal?: AbortSignal;
+  /** Overrides the default classification of retryable errors. */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+export type ResilientCallFailureReason = 'attempts_exhausted' | 'deadline_exceeded' | 'aborted';
+
+export class ResilientCallError extends FlowError {
+  readonly attempts: number;
+  readonly reason: ResilientCallFailureReason;
+  readonly status?: number | string;
+  readonly lastError: unknown;
+
+  constructor(label: string, reason: ResilientCallFailureReason, attempts: number, lastError: unknown) {
+    const lastMessage = lastError instanceof Error ? lastError.message : String(lastError ?? 'Onbekende API fout');
+    const reasonText = {
+      attempts_exhausted: {
+        nl: `mislukt na ${attempts} pogingen vanwege API-problemen (bijv. overbelasting, rate limits)`,
+        en: `failed after ${attempts} attempts due to API problems (e.g. overload, rate limits)`,
+        de: `nach ${attempts} Versuchen wegen API-Problemen fehlgeschlagen (z. B. Überlastung, Ratenlimits)`,
+      },
+      deadline_exceeded: {
+        nl: `niet binnen de tijdslimiet voltooid na ${attempts} pogingen`,
+        en: `did not complete within the time limit after ${attempts} attempts`,
+        de: `nach ${attempts} Versuchen nicht innerhalb des Zeitlimits abgeschlossen`,
+      },
+    };
+    // A cancellation is the caller's choice, not an outage, so it gets its own code.
+    super(reason === 'aborted' ? 'CANCELLED' : 'SERVICE_UNAVAILABLE', label, reason === 'aborted' ? {
+      nl: `AI-aanroep ${label} is afgebroken na ${attempts} pogingen.`,
+      en: `AI call ${label} was cancelled after ${attempts} attempts.`,
+      de: `KI-Aufruf ${label} wurde nach ${attempts} Versuchen abgebrochen.`,
+    } : {
+      nl: `AI-aanroep ${label} ${reasonText[reason].nl}. Probeer het later opnieuw. Laatste fout: ${lastMessage}`,
+      en: `AI call ${label} ${reasonText[reason].en}. Please try again later. Last error: ${lastMessage}`,
+      de: `KI-Aufruf ${label} ${reasonText[reason].de}. Bitte versuche es später erneut. Letzter Fehler: ${lastMessage}`,
+    }, {cause: lastError});
+    this.name = 'ResilientCallError';
+    this.attempts = attempts;
+    this.reason = reason;
+    this.status = getErrorStatus(lastError);
+    this.lastError = lastError;
+  }
+}
+
+const RETRYABLE_HTTP_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_STATUS_NAMES = new Set(['UNAVAILABLE', 'RESOURCE_EXHAUSTED', 'DEADLINE_EXCEEDED', 'INTERNAL', 'ECONNRESET', 'ETIMEDOUT']);
+const QUOTA_STATUSES = new Set<number | string>([429, 'RESOURCE_EXHAUSTED']);
+
+/**
+ * Reads the status from Genkit errors (`status` name and `code`), from the Google AI SDK errors
+ * (numeric `status`) and from a wrapped `cause`. As a last resort the HTTP status the Google AI SDK
+ * puts in its message, e.g. "[503 Service Unavailable]", is used.
+ */
+export function getErrorStatus(error: unknown): number | string | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+  const {status, code, statusCode, cause, message} = error as Record<string, unknown>;
+  for (const candidate of [status, statusCode, code]) {
+    if (typeof candidate === 'number' && candidate >= 100 && candidate < 600) {
+      return candidate;
+    }
+    if (typeof candidate === 'string' && /^[A-Z_]+$/.test(candidate)) {
+      return candidate;
+    }
+  }
+  const causeStatus = cause !== error ? getErrorStatus(cause) : undefined;
+  if (causeStatus !== undefined) {
+    return causeStatus;
+  }
+  const httpStatusInMessage = typeof message === 'string' ? message.match(/\[(\d{3})[ \]]/) : null;
+  return httpStatusInMessage ? Number(httpStatusInMessage[1]) : undefined;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (typeof status === 'number') {
+    return RETRYABLE_HTTP_STATUSES.has(status);
+  }
+  return status !== undefined && RETRYABLE_STATUS_NAMES.has(status);
+}
+
+function abortableDelay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, {once: true});
+  });
+}
+
+/**
+ * Runs `operation` until it succeeds, a non-retryable error is thrown, the attempts run out,
+ * the deadline passes or the caller aborts. The signal handed to `operation` is aborted on
+ * deadline or cancellation and should be passed on to the model call (`abortSignal`).
+ */
+export async function callWithResilience<T>(
+  operation: (context: {attempt: number; signal: AbortSignal}) => Promise<T>,
+  options: ResilientCallOptions
+): Promise<T> {
+  const {
+    label,
+    maxAttempts = 3,
+    initialDelayMs = 2000,
+    maxDelayMs = 30000,
+    backoffFactor = 2,
+    jitter = 0.2,
+    deadlineMs = 60000,
+    isRetryable = isRetryableError,
+  } = options;
+
+  const deadlineController = new AbortController();
+  const deadlineTimer = setTimeout(() => deadlineController.abort(), deadlineMs);
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, deadlineController.signal])
+    : deadlineController.signal;
+  const failureReason = (): ResilientCallFailureReason =>
+    options.signal?.aborted ? 'aborted' : 'deadline_exceeded';
+
+  let delay = initialDelayMs;
+  let lastError: unknown;
+  let attempt = 0;
+  try {
+    while (attempt < maxAttempts) {
+      if (signal.aborted) {
+        throw new ResilientCallError(label, failureReason(), attempt, lastError ?? signal.reason);
+      }
+      attempt++;
+      try {
+        return await operation({attempt, signal});
+      } catch (error) {
+        lastError = error;
+        if (signal.aborted) {
+          throw new ResilientCallError(label, failureReason(), attempt, error);
+        }
+        if (!isRetryable(error)) {
+          throw error;
+        }
+        if (attempt >= maxAttempts) {
+          break;
+        }
+        const spread = delay * jitter * (Math.random() * 2 - 1);
+        const wait = Math.max(0, Math.round(delay + spread));
+        console.warn(`Poging ${attempt} van ${label} mislukt (herstelbare fout, status ${getErrorStatus(error)}): ${error instanceof Error ? error.message : error}. Opnieuw proberen na ${wait}ms...`);
+        try {
+          await abortableDelay(wait, signal);
+        } catch {
+          throw new ResilientCallError(label, failureReason(), attempt, error);
+        }
+        delay = Math.min(delay * backoffFactor, maxDelayMs);
+      }
+    }
+    console.error(`${label} mislukt na ${attempt} pogingen vanwege API-problemen.`);
+    const lastStatus = getErrorStatus(lastError);
+    if (lastStatus !== undefined && QUOTA_STATUSES.has(lastStatus)) {
+      throw new QuotaExhaustedError(label, attempt, lastError);
+    }
+    throw new ResilientCallError(label, 'attempts_exhausted', attempt, lastError);
+  } finally {
+    clearTimeout(deadlineTimer);
+  }
+}
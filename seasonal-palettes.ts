@@ -0,0 +1,598 @@
+/**
+ * @fileOverview Canonical seasonal colour palettes (12-season system) used to back the colour analysis.
+ *
+ * - SEASONAL_PALETTES - The 12 sub-type palettes with their labels, Dutch colour names and hex values.
+ * - SEASON_TYPES / SeasonTypeSchema - The language-neutral season codes, e.g. 'deep_winter', plus 'undetermined'.
+ * - getSeasonLabel - The display label of a season code in a locale, e.g. 'Diepe Winter' or 'Deep Winter'.
+ * - findSeasonalPalette - Resolves a season code or a (model-provided or stored) season name to its canonical palette.
+ * - normalizeSeasonType - Maps a code or a season name in any language onto its code.
+ * - localizePaletteColor - A palette colour with its name in another locale.
+ * - findNearestPaletteColor - The named palette colour closest to a hex colour, in a locale.
+ * - normalizeHexColor - Normalizes hex notations like 'abc' or '#aabbcc' to '#AABBCC'.
+ * - reconcilePaletteColors - Repairs, validates and tops up the model's recommended and avoid colours.
+ */
+
+import {z} from 'genkit';
+import {colorDistance} from '@/ai/color-science';
+import {DEFAULT_LOCALE, Locale, LocalizedText} from '@/ai/locale';
+
+export type SeasonFamily = 'Lente' | 'Zomer' | 'Herfst' | 'Winter';
+
+export interface PaletteColor {
+  name: string;
+  hex: string;
+}
+
+export type SeasonCode =
+  | 'light_spring' | 'warm_spring' | 'clear_spring'
+  | 'light_summer' | 'cool_summer' | 'soft_summer'
+  | 'soft_autumn' | 'warm_autumn' | 'deep_autumn'
+  | 'deep_winter' | 'cool_winter' | 'clear_winter';
+
+export interface SeasonalPalette {
+  code: SeasonCode;
+  /** The name of the sub-type, e.g. 'Diepe Winter'. */
+  labels: LocalizedText;
+  family: SeasonFamily;
+  description: LocalizedText;
+  recommendedColors: PaletteColor[];
+  avoidColors: PaletteColor[];
+}
+
+export const SEASONAL_PALETTES: SeasonalPalette[] = [
+  {
+    code: 'light_spring',
+    labels: {nl: 'Lichte Lente', en: 'Light Spring', de: 'Heller Frühling'},
+    family: 'Lente',
+    description: {
+      nl: 'Lichte, warme en frisse kleuren met een zachte helderheid.',
+      en: 'Light, warm and fresh colours with a soft clarity.',
+      de: 'Helle, warme und frische Farben mit sanfter Klarheit.',
+    },
+    recommendedColors: [
+      {name: 'Perzik', hex: '#FFDAB9'},
+      {name: 'Lichtkoraal', hex: '#F88379'},
+      {name: 'Zachtgeel', hex: '#FFF5A5'},
+      {name: 'Lichtaqua', hex: '#8FD8D2'},
+      {name: 'Lichtturquoise', hex: '#66D2C9'},
+      {name: 'Warm Roze', hex: '#F7A1A8'},
+      {name: 'Lichte Camel', hex: '#D9B48F'},
+      {name: 'Ivoor', hex: '#FFFFF0'},
+    ],
+    avoidColors: [
+      {name: 'Zwart', hex: '#000000'},
+      {name: 'Donker Bordeaux', hex: '#5E0B1F'},
+      {name: 'Antraciet', hex: '#36454F'},
+      {name: 'Donkerpaars', hex: '#4B0082'},
+    ],
+  },
+  {
+    code: 'warm_spring',
+    labels: {nl: 'Warme Lente', en: 'Warm Spring', de: 'Warmer Frühling'},
+    family: 'Lente',
+    description: {
+      nl: 'Warme, heldere kleuren met een gouden ondertoon.',
+      en: 'Warm, clear colours with a golden undertone.',
+      de: 'Warme, klare Farben mit goldenem Unterton.',
+    },
+    recommendedColors: [
+      {name: 'Koraal', hex: '#FF7F50'},
+      {name: 'Warm Oranje', hex: '#FF8C42'},
+      {name: 'Goudgeel', hex: '#FFC300'},
+      {name: 'Appelgroen', hex: '#8DB600'},
+      {name: 'Turquoise', hex: '#30D5C8'},
+      {name: 'Camel', hex: '#C19A6B'},
+      {name: 'Zalm', hex: '#FA8072'},
+      {name: 'Crème', hex: '#FFFDD0'},
+    ],
+    avoidColors: [
+      {name: 'Zwart', hex: '#000000'},
+      {name: 'IJsblauw', hex: '#D6ECEF'},
+      {name: 'Koel Roze', hex: '#F4C2C2'},
+      {name: 'Zilvergrijs', hex: '#C0C0C0'},
+    ],
+  },
+  {
+    code: 'clear_spring',
+    labels: {nl: 'Heldere Lente', en: 'Clear Spring', de: 'Klarer Frühling'},
+    family: 'Lente',
+    description: {
+      nl: 'Heldere, verzadigde en warme kleuren met veel contrast.',
+      en: 'Clear, saturated and warm colours with a lot of contrast.',
+      de: 'Klare, gesättigte und warme Farben mit viel Kontrast.',
+    },
+    recommendedColors: [
+      {name: 'Papaverrood', hex: '#E35335'},
+      {name: 'Helder Koraal', hex: '#FF6F61'},
+      {name: 'Zonnegeel', hex: '#FFD300'},
+      {name: 'Helder Turquoise', hex: '#00C5CD'},
+      {name: 'Grasgroen', hex: '#4CBB17'},
+      {name: 'Helder Aqua', hex: '#1DE9D6'},
+      {name: 'Warm Wit', hex: '#FAF3E0'},
+      {name: 'Helder Marineblauw', hex: '#1F3A93'},
+    ],
+    avoidColors: [
+      {name: 'Stoffig Roze', hex: '#C9A9A6'},
+      {name: 'Olijfgroen', hex: '#708238'},
+      {name: 'Taupe', hex: '#8B8589'},
+      {name: 'Donkerbruin', hex: '#4B3621'},
+    ],
+  },
+  {
+    code: 'light_summer',
+    labels: {nl: 'Lichte Zomer', en: 'Light Summer', de: 'Heller Sommer'},
+    family: 'Zomer',
+    description: {
+      nl: 'Lichte, koele en zachte pasteltinten.',
+      en: 'Light, cool and soft pastel shades.',
+      de: 'Helle, kühle und sanfte Pastelltöne.',
+    },
+    recommendedColors: [
+      {name: 'Poederblauw', hex: '#B0E0E6'},
+      {name: 'Lavendel', hex: '#C8A2C8'},
+      {name: 'Lichtroze', hex: '#F4C2C2'},
+      {name: 'Mintgroen', hex: '#AAF0D1'},
+      {name: 'Zacht Grijs', hex: '#B8B8C0'},
+      {name: 'Lichte Pruim', hex: '#C39BD3'},
+      {name: 'Lichtblauw', hex: '#89CFF0'},
+      {name: 'Gebroken Wit', hex: '#F5F5F0'},
+    ],
+    avoidColors: [
+      {name: 'Zwart', hex: '#000000'},
+      {name: 'Oranje', hex: '#FF8C00'},
+      {name: 'Mosterdgeel', hex: '#E1AD01'},
+      {name: 'Donkerbruin', hex: '#4B3621'},
+    ],
+  },
+  {
+    code: 'cool_summer',
+    labels: {nl: 'Koele Zomer', en: 'Cool Summer', de: 'Kühler Sommer'},
+    family: 'Zomer',
+    description: {
+      nl: 'Koele, middelzware kleuren met een blauwe ondertoon.',
+      en: 'Cool, medium-depth colours with a blue undertone.',
+      de: 'Kühle, mittlere Farben mit blauem Unterton.',
+    },
+    recommendedColors: [
+      {name: 'Hemelsblauw', hex: '#6CA0DC'},
+      {name: 'Framboos', hex: '#C72C48'},
+      {name: 'Rozenrood', hex: '#C21E56'},
+      {name: 'Koel Zeegroen', hex: '#3B9C9C'},
+      {name: 'Leisteenblauw', hex: '#6A7BA2'},
+      {name: 'Pruim', hex: '#8E4585'},
+      {name: 'Blauwgrijs', hex: '#6699CC'},
+      {name: 'Zacht Wit', hex: '#F5F5F5'},
+    ],
+    avoidColors: [
+      {name: 'Oranje', hex: '#FF8C00'},
+      {name: 'Goudgeel', hex: '#FFC300'},
+      {name: 'Camel', hex: '#C19A6B'},
+      {name: 'Olijfgroen', hex: '#708238'},
+    ],
+  },
+  {
+    code: 'soft_summer',
+    labels: {nl: 'Zachte Zomer', en: 'Soft Summer', de: 'Sanfter Sommer'},
+    family: 'Zomer',
+    description: {
+      nl: 'Gedempte, koel-neutrale kleuren met weinig contrast.',
+      en: 'Muted, cool-neutral colours with little contrast.',
+      de: 'Gedämpfte, kühl-neutrale Farben mit wenig Kontrast.',
+    },
+    recommendedColors: [
+      {name: 'Oudroze', hex: '#C08081'},
+      {name: 'Grijsblauw', hex: '#7393B3'},
+      {name: 'Saliegroen', hex: '#9CAF88'},
+      {name: 'Mauve', hex: '#B784A7'},
+      {name: 'Rozenhout', hex: '#9E6B6B'},
+      {name: 'Gedempt Jadegroen', hex: '#7BA89B'},
+      {name: 'Zacht Marineblauw', hex: '#3F4E6B'},
+      {name: 'Parelgrijs', hex: '#C9C0BB'},
+    ],
+    avoidColors: [
+      {name: 'Fel Oranje', hex: '#FF5F00'},
+      {name: 'Zwart', hex: '#000000'},
+      {name: 'Fuchsia', hex: '#FF00FF'},
+      {name: 'Helder Geel', hex: '#FFEF00'},
+    ],
+  },
+  {
+    code: 'soft_autumn',
+    labels: {nl: 'Zachte Herfst', en: 'Soft Autumn', de: 'Sanfter Herbst'},
+    family: 'Herfst',
+    description: {
+      nl: 'Gedempte, warm-neutrale aardetinten.',
+      en: 'Muted, warm-neutral earth tones.',
+      de: 'Gedämpfte, warm-neutrale Erdtöne.',
+    },
+    recommendedColors: [
+      {name: 'Saliegroen', hex: '#9CAF88'},
+      {name: 'Kaki', hex: '#A39A6B'},
+      {name: 'Zalmroze', hex: '#E9967A'},
+      {name: 'Camel', hex: '#C19A6B'},
+      {name: 'Olijfgroen', hex: '#708238'},
+      {name: 'Mosgroen', hex: '#8A9A5B'},
+      {name: 'Warm Taupe', hex: '#A67B5B'},
+      {name: 'Gedempt Petrol', hex: '#4E8B8B'},
+    ],
+    avoidColors: [
+      {name: 'Zwart', hex: '#000000'},
+      {name: 'Fuchsia', hex: '#FF00FF'},
+      {name: 'Koningsblauw', hex: '#4169E1'},
+      {name: 'Helder Wit', hex: '#FFFFFF'},
+    ],
+  },
+  {
+    code: 'warm_autumn',
+    labels: {nl: 'Warme Herfst', en: 'Warm Autumn', de: 'Warmer Herbst'},
+    family: 'Herfst',
+    description: {
+      nl: 'Rijke, warme aardetinten met een gouden ondertoon.',
+      en: 'Rich, warm earth tones with a golden undertone.',
+      de: 'Satte, warme Erdtöne mit goldenem Unterton.',
+    },
+    recommendedColors: [
+      {name: 'Roestbruin', hex: '#B7410E'},
+      {name: 'Mosterdgeel', hex: '#E1AD01'},
+      {name: 'Olijfgroen', hex: '#708238'},
+      {name: 'Terracotta', hex: '#E2725B'},
+      {name: 'Pompoenoranje', hex: '#FF7518'},
+      {name: 'Chocoladebruin', hex: '#7B3F00'},
+      {name: 'Petrol', hex: '#005F6A'},
+      {name: 'Warm Goud', hex: '#D4AF37'},
+    ],
+    avoidColors: [
+      {name: 'Zwart', hex: '#000000'},
+      {name: 'IJsroze', hex: '#F8D7E3'},
+      {name: 'Koningsblauw', hex: '#4169E1'},
+      {name: 'Zilvergrijs', hex: '#C0C0C0'},
+    ],
+  },
+  {
+    code: 'deep_autumn',
+    labels: {nl: 'Diepe Herfst', en: 'Deep Autumn', de: 'Dunkler Herbst'},
+    family: 'Herfst',
+    description: {
+      nl: 'Diepe, warme en intense kleuren.',
+      en: 'Deep, warm and intense colours.',
+      de: 'Tiefe, warme und intensive Farben.',
+    },
+    recommendedColors: [
+      {name: 'Donkerbruin', hex: '#4B3621'},
+      {name: 'Bordeauxrood', hex: '#800020'},
+      {name: 'Donker Olijfgroen', hex: '#556B2F'},
+      {name: 'Koper', hex: '#B87333'},
+      {name: 'Dennengroen', hex: '#01796F'},
+      {name: 'Steenrood', hex: '#A93226'},
+      {name: 'Mosterd', hex: '#C9A227'},
+      {name: 'Donker Petrol', hex: '#014D4E'},
+    ],
+    avoidColors: [
+      {name: 'Pastelroze', hex: '#FFD1DC'},
+      {name: 'Babyblauw', hex: '#89CFF0'},
+      {name: 'Zilvergrijs', hex: '#C0C0C0'},
+      {name: 'Lavendel', hex: '#C8A2C8'},
+    ],
+  },
+  {
+    code: 'deep_winter',
+    labels: {nl: 'Diepe Winter', en: 'Deep Winter', de: 'Dunkler Winter'},
+    family: 'Winter',
+    description: {
+      nl: 'Diepe, koele kleuren met sterk contrast.',
+      en: 'Deep, cool colours with strong contrast.',
+      de: 'Tiefe, kühle Farben mit starkem Kontrast.',
+    },
+    recommendedColors: [
+      {name: 'Zwart', hex: '#000000'},
+      {name: 'Zuiver Wit', hex: '#FFFFFF'},
+      {name: 'Bordeaux', hex: '#800020'},
+      {name: 'Smaragdgroen', hex: '#046307'},
+      {name: 'Koningsblauw', hex: '#4169E1'},
+      {name: 'Diep Paars', hex: '#4B0082'},
+      {name: 'Robijnrood', hex: '#9B111E'},
+      {name: 'Antraciet', hex: '#36454F'},
+    ],
+    avoidColors: [
+      {name: 'Perzik', hex: '#FFDAB9'},
+      {name: 'Camel', hex: '#C19A6B'},
+      {name: 'Oranje', hex: '#FF8C00'},
+      {name: 'Mosterdgeel', hex: '#E1AD01'},
+    ],
+  },
+  {
+    code: 'cool_winter',
+    labels: {nl: 'Koele Winter', en: 'Cool Winter', de: 'Kühler Winter'},
+    family: 'Winter',
+    description: {
+      nl: 'Koele, heldere kleuren met een blauwe ondertoon.',
+      en: 'Cool, clear colours with a blue undertone.',
+      de: 'Kühle, klare Farben mit blauem Unterton.',
+    },
+    recommendedColors: [
+      {name: 'IJsblauw', hex: '#D6ECEF'},
+      {name: 'Koningsblauw', hex: '#4169E1'},
+      {name: 'Fuchsia', hex: '#FF00FF'},
+      {name: 'Smaragdgroen', hex: '#009B77'},
+      {name: 'Zwart', hex: '#000000'},
+      {name: 'Zuiver Wit', hex: '#FFFFFF'},
+      {name: 'Karmijnrood', hex: '#D2042D'},
+      {name: 'Zilvergrijs', hex: '#C0C0C0'},
+    ],
+    avoidColors: [
+      {name: 'Oranje', hex: '#FF8C00'},
+      {name: 'Camel', hex: '#C19A6B'},
+      {name: 'Olijfgroen', hex: '#708238'},
+      {name: 'Goudgeel', hex: '#FFC300'},
+    ],
+  },
+  {
+    code: 'clear_winter',
+    labels: {nl: 'Heldere Winter', en: 'Clear Winter', de: 'Klarer Winter'},
+    family: 'Winter',
+    description: {
+      nl: 'Heldere, koele en verzadigde kleuren met maximaal contrast.',
+      en: 'Clear, cool and saturated colours with maximum contrast.',
+      de: 'Klare, kühle und gesättigte Farben mit maximalem Kontrast.',
+    },
+    recommendedColors: [
+      {name: 'Zuiver Wit', hex: '#FFFFFF'},
+      {name: 'Zwart', hex: '#000000'},
+      {name: 'Signaalrood', hex: '#E4002B'},
+      {name: 'Kobaltblauw', hex: '#0047AB'},
+      {name: 'Dieproze', hex: '#FF1493'},
+      {name: 'Smaragdgroen', hex: '#009B77'},
+      {name: 'IJsgeel', hex: '#FFF44F'},
+      {name: 'Koel Turquoise', hex: '#00CED1'},
+    ],
+    avoidColors: [
+      {name: 'Taupe', hex: '#8B8589'},
+      {name: 'Oudroze', hex: '#C08081'},
+      {name: 'Olijfgroen', hex: '#708238'},
+      {name: 'Camel', hex: '#C19A6B'},
+    ],
+  },
+];
+
+/** The season types the colour analysis returns: a sub-type, or 'undetermined' when the photo does not allow an analysis. */
+export type SeasonType = SeasonCode | 'undetermined';
+export const SEASON_TYPES: SeasonType[] = [...SEASONAL_PALETTES.map(palette => palette.code), 'undetermined'];
+export const SeasonTypeSchema = z.enum(SEASON_TYPES as [SeasonType, ...SeasonType[]]);
+
+export const UNDETERMINED_LABELS: LocalizedText = {nl: 'Niet te bepalen', en: 'Undetermined', de: 'Nicht bestimmbar'};
+
+export function getSeasonLabel(seasonType: SeasonType, locale: Locale = DEFAULT_LOCALE): string {
+  const palette = SEASONAL_PALETTES.find(candidate => candidate.code === seasonType);
+  return (palette?.labels ?? UNDETERMINED_LABELS)[locale];
+}
+
+/** When only the family is known ('Winter'), the "true" sub-type of that family is used. */
+const FAMILY_DEFAULT_SEASON: Record<SeasonFamily, SeasonCode> = {
+  Lente: 'warm_spring',
+  Zomer: 'cool_summer',
+  Herfst: 'warm_autumn',
+  Winter: 'cool_winter',
+};
+
+const FAMILY_NAMES: Record<SeasonFamily, string[]> = {
+  Lente: ['lente', 'spring', 'frühling'],
+  Zomer: ['zomer', 'summer', 'sommer'],
+  Herfst: ['herfst', 'autumn', 'fall', 'herbst'],
+  Winter: ['winter'],
+};
+
+export function findSeasonalPalette(seasonType: string | undefined): SeasonalPalette | undefined {
+  const normalized = (seasonType ?? '').trim().toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+  const subType = SEASONAL_PALETTES.find(palette =>
+    palette.code === normalized || Object.values(palette.labels).some(label => normalized.includes(label.toLowerCase()))
+  );
+  if (subType) {
+    return subType;
+  }
+  const family = (Object.keys(FAMILY_NAMES) as SeasonFamily[]).find(name => FAMILY_NAMES[name].some(word => normalized.includes(word)));
+  return family ? SEASONAL_PALETTES.find(palette => palette.code === FAMILY_DEFAULT_SEASON[family]) : undefined;
+}
+
+/** For season types stored before the codes, e.g. 'Diepe Winter'. Anything that matches no palette is 'undetermined'. */
+export function normalizeSeasonType(value: string): SeasonType {
+  return findSeasonalPalette(value)?.code ?? 'undetermined';
+}
+
+// The palettes name their colours in Dutch; these are the names in the other locales.
+const PALETTE_COLOR_NAMES: Record<string, Omit<LocalizedText, 'nl'>> = {
+  'Perzik': {en: 'Peach', de: 'Pfirsich'},
+  'Lichtkoraal': {en: 'Light coral', de: 'Hellkoralle'},
+  'Zachtgeel': {en: 'Soft yellow', de: 'Zartgelb'},
+  'Lichtaqua': {en: 'Light aqua', de: 'Hellaqua'},
+  'Lichtturquoise': {en: 'Light turquoise', de: 'Helltürkis'},
+  'Warm Roze': {en: 'Warm pink', de: 'Warmes Rosa'},
+  'Lichte Camel': {en: 'Light camel', de: 'Helles Camel'},
+  'Ivoor': {en: 'Ivory', de: 'Elfenbein'},
+  'Zwart': {en: 'Black', de: 'Schwarz'},
+  'Donker Bordeaux': {en: 'Dark burgundy', de: 'Dunkles Bordeaux'},
+  'Antraciet': {en: 'Charcoal', de: 'Anthrazit'},
+  'Donkerpaars': {en: 'Dark purple', de: 'Dunkelviolett'},
+  'Koraal': {en: 'Coral', de: 'Koralle'},
+  'Warm Oranje': {en: 'Warm orange', de: 'Warmes Orange'},
+  'Goudgeel': {en: 'Golden yellow', de: 'Goldgelb'},
+  'Appelgroen': {en: 'Apple green', de: 'Apfelgrün'},
+  'Turquoise': {en: 'Turquoise', de: 'Türkis'},
+  'Camel': {en: 'Camel', de: 'Camel'},
+  'Zalm': {en: 'Salmon', de: 'Lachs'},
+  'Crème': {en: 'Cream', de: 'Creme'},
+  'IJsblauw': {en: 'Icy blue', de: 'Eisblau'},
+  'Koel Roze': {en: 'Cool pink', de: 'Kühles Rosa'},
+  'Zilvergrijs': {en: 'Silver grey', de: 'Silbergrau'},
+  'Papaverrood': {en: 'Poppy red', de: 'Mohnrot'},
+  'Helder Koraal': {en: 'Bright coral', de: 'Leuchtende Koralle'},
+  'Zonnegeel': {en: 'Sunflower yellow', de: 'Sonnengelb'},
+  'Helder Turquoise': {en: 'Bright turquoise', de: 'Leuchtendes Türkis'},
+  'Grasgroen': {en: 'Grass green', de: 'Grasgrün'},
+  'Helder Aqua': {en: 'Bright aqua', de: 'Leuchtendes Aqua'},
+  'Warm Wit': {en: 'Warm white', de: 'Warmweiß'},
+  'Helder Marineblauw': {en: 'Bright navy', de: 'Leuchtendes Marineblau'},
+  'Stoffig Roze': {en: 'Dusty pink', de: 'Altrosa'},
+  'Olijfgroen': {en: 'Olive green', de: 'Olivgrün'},
+  'Taupe': {en: 'Taupe', de: 'Taupe'},
+  'Donkerbruin': {en: 'Dark brown', de: 'Dunkelbraun'},
+  'Poederblauw': {en: 'Powder blue', de: 'Puderblau'},
+  'Lavendel': {en: 'Lavender', de: 'Lavendel'},
+  'Lichtroze': {en: 'Light pink', de: 'Hellrosa'},
+  'Mintgroen': {en: 'Mint green', de: 'Mintgrün'},
+  'Zacht Grijs': {en: 'Soft grey', de: 'Sanftes Grau'},
+  'Lichte Pruim': {en: 'Light plum', de: 'Helle Pflaume'},
+  'Lichtblauw': {en: 'Light blue', de: 'Hellblau'},
+  'Gebroken Wit': {en: 'Off-white', de: 'Gebrochenes Weiß'},
+  'Oranje': {en: 'Orange', de: 'Orange'},
+  'Mosterdgeel': {en: 'Mustard yellow', de: 'Senfgelb'},
+  'Hemelsblauw': {en: 'Sky blue', de: 'Himmelblau'},
+  'Framboos': {en: 'Raspberry', de: 'Himbeere'},
+  'Rozenrood': {en: 'Rose red', de: 'Rosenrot'},
+  'Koel Zeegroen': {en: 'Cool sea green', de: 'Kühles Meergrün'},
+  'Leisteenblauw': {en: 'Slate blue', de: 'Schieferblau'},
+  'Pruim': {en: 'Plum', de: 'Pflaume'},
+  'Blauwgrijs': {en: 'Blue grey', de: 'Blaugrau'},
+  'Zacht Wit': {en: 'Soft white', de: 'Sanftes Weiß'},
+  'Oudroze': {en: 'Old rose', de: 'Altrosa'},
+  'Grijsblauw': {en: 'Grey blue', de: 'Graublau'},
+  'Saliegroen': {en: 'Sage green', de: 'Salbeigrün'},
+  'Mauve': {en: 'Mauve', de: 'Mauve'},
+  'Rozenhout': {en: 'Rosewood', de: 'Rosenholz'},
+  'Gedempt Jadegroen': {en: 'Muted jade', de: 'Gedämpftes Jadegrün'},
+  'Zacht Marineblauw': {en: 'Soft navy', de: 'Sanftes Marineblau'},
+  'Parelgrijs': {en: 'Pearl grey', de: 'Perlgrau'},
+  'Fel Oranje': {en: 'Vivid orange', de: 'Knallorange'},
+  'Fuchsia': {en: 'Fuchsia', de: 'Fuchsia'},
+  'Helder Geel': {en: 'Bright yellow', de: 'Leuchtendes Gelb'},
+  'Kaki': {en: 'Khaki', de: 'Khaki'},
+  'Zalmroze': {en: 'Salmon pink', de: 'Lachsrosa'},
+  'Mosgroen': {en: 'Moss green', de: 'Moosgrün'},
+  'Warm Taupe': {en: 'Warm taupe', de: 'Warmes Taupe'},
+  'Gedempt Petrol': {en: 'Muted teal', de: 'Gedämpftes Petrol'},
+  'Koningsblauw': {en: 'Royal blue', de: 'Königsblau'},
+  'Helder Wit': {en: 'Bright white', de: 'Strahlendes Weiß'},
+  'Roestbruin': {en: 'Rust brown', de: 'Rostbraun'},
+  'Terracotta': {en: 'Terracotta', de: 'Terrakotta'},
+  'Pompoenoranje': {en: 'Pumpkin orange', de: 'Kürbisorange'},
+  'Chocoladebruin': {en: 'Chocolate brown', de: 'Schokoladenbraun'},
+  'Petrol': {en: 'Teal', de: 'Petrol'},
+  'Warm Goud': {en: 'Warm gold', de: 'Warmes Gold'},
+  'IJsroze': {en: 'Icy pink', de: 'Eisrosa'},
+  'Bordeauxrood': {en: 'Burgundy', de: 'Bordeauxrot'},
+  'Donker Olijfgroen': {en: 'Dark olive', de: 'Dunkles Olivgrün'},
+  'Koper': {en: 'Copper', de: 'Kupfer'},
+  'Dennengroen': {en: 'Pine green', de: 'Tannengrün'},
+  'Steenrood': {en: 'Brick red', de: 'Ziegelrot'},
+  'Mosterd': {en: 'Mustard', de: 'Senf'},
+  'Donker Petrol': {en: 'Dark teal', de: 'Dunkles Petrol'},
+  'Pastelroze': {en: 'Pastel pink', de: 'Pastellrosa'},
+  'Babyblauw': {en: 'Baby blue', de: 'Babyblau'},
+  'Zuiver Wit': {en: 'Pure white', de: 'Reinweiß'},
+  'Bordeaux': {en: 'Bordeaux', de: 'Bordeaux'},
+  'Smaragdgroen': {en: 'Emerald green', de: 'Smaragdgrün'},
+  'Diep Paars': {en: 'Deep purple', de: 'Tiefviolett'},
+  'Robijnrood': {en: 'Ruby red', de: 'Rubinrot'},
+  'Karmijnrood': {en: 'Carmine red', de: 'Karminrot'},
+  'Signaalrood': {en: 'Signal red', de: 'Signalrot'},
+  'Kobaltblauw': {en: 'Cobalt blue', de: 'Kobaltblau'},
+  'Dieproze': {en: 'Deep pink', de: 'Tiefrosa'},
+  'IJsgeel': {en: 'Icy yellow', de: 'Eisgelb'},
+  'Koel Turquoise': {en: 'Cool turquoise', de: 'Kühles Türkis'},
+};
+
+export function localizePaletteColor(color: PaletteColor, locale: Locale): PaletteColor {
+  const names = PALETTE_COLOR_NAMES[color.name];
+  return locale === 'nl' || !names ? color : {...color, name: names[locale]};
+}
+
+const PALETTE_COLORS: PaletteColor[] = Array.from(new Map(
+  SEASONAL_PALETTES.flatMap(palette => [...palette.recommendedColors, ...palette.avoidColors]).map(color => [color.name, color])
+).values());
+
+/** Maps a garment colour onto a fixed set of named colours, so colours can be compared across locales. */
+export function findNearestPaletteColor(hex: string, locale: Locale = DEFAULT_LOCALE): PaletteColor {
+  const nearest = PALETTE_COLORS.reduce((best, color) => colorDistance(hex, color.hex) < colorDistance(hex, best.hex) ? color : best);
+  return localizePaletteColor(nearest, locale);
+}
+
+export function normalizeHexColor(value: string | undefined): string | undefined {
+  const match = (value ?? '').trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) {
+    return undefined;
+  }
+  const digits = match[1].length === 3 ? match[1].split('').map(digit => digit + digit).join('') : match[1];
+  return `#${digits.toUpperCase()}`;
+}
+
+/** Colours closer than this CIEDE2000 distance are treated as the same colour. */
+const SAME_COLOR_DISTANCE = 5;
+
+function isNearAny(hex: string, colors: PaletteColor[]): boolean {
+  return colors.some(color => colorDistance(hex, color.hex) < SAME_COLOR_DISTANCE);
+}
+
+function normalizeColors(colors: Array<{name?: string; hex?: string}> | undefined): PaletteColor[] {
+  const result: PaletteColor[] = [];
+  for (const color of colors ?? []) {
+    const hex = normalizeHexColor(color.hex);
+    if (!hex || isNearAny(hex, result)) {
+      continue;
+    }
+    result.push({name: color.name?.trim() || hex, hex});
+  }
+  return result;
+}
+
+function topUp(colors: PaletteColor[], candidates: PaletteColor[], minimum: number, excluded: PaletteColor[]): PaletteColor[] {
+  const result = [...colors];
+  for (const candidate of candidates) {
+    if (result.length >= minimum) {
+      break;
+    }
+    if (!isNearAny(candidate.hex, excluded) && !isNearAny(candidate.hex, result)) {
+      result.push(candidate);
+    }
+  }
+  return result;
+}
+
+export interface ReconciledPalette {
+  recommendedColors: PaletteColor[];
+  avoidColors: PaletteColor[];
+  /** The canonical palette the colours were checked against, if the season could be resolved. */
+  palette?: SeasonalPalette;
+}
+
+/**
+ * Repairs the model's colour lists so the result is consistent and always meets the minimums:
+ * hex codes are normalized, invalid entries and (near-)duplicates are dropped, colours that contradict the
+ * canonical palette (a recommended colour the season should avoid, or vice versa) are removed, and
+ * the lists are topped up from the canonical palette when the model returned too few colours, with the
+ * colour names in `locale`.
+ */
+export function reconcilePaletteColors(
+  seasonType: string,
+  recommendedColors: Array<{name?: string; hex?: string}> | undefined,
+  avoidColors: Array<{name?: string; hex?: string}> | undefined,
+  {minRecommended = 5, minAvoid = 3, locale = DEFAULT_LOCALE}: {minRecommended?: number; minAvoid?: number; locale?: Locale} = {}
+): ReconciledPalette {
+  let recommended = normalizeColors(recommendedColors);
+  let avoid = normalizeColors(avoidColors);
+
+  const palette = findSeasonalPalette(seasonType);
+  if (!palette) {
+    return {recommendedColors: recommended, avoidColors: avoid.filter(color => !isNearAny(color.hex, recommended))};
+  }
+
+  recommended = recommended.filter(color => !isNearAny(color.hex, palette.avoidColors));
+  avoid = avoid.filter(color => !isNearAny(color.hex, palette.recommendedColors) && !isNearAny(color.hex, recommended));
+
+  const localized = (colors: PaletteColor[]) => colors.map(color => localizePaletteColor(color, locale));
+  recommended = topUp(recommended, localized(palette.recommendedColors), minRecommended, avoid);
+  avoid = topUp(avoid, localized(palette.avoidColors), minAvoid, recommended);
+
+  return {recommendedColors: recommended, avoidColors: avoid, palette};
+}
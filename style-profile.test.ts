@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Tests for the style profile learned from outfit ratings.
+ *
+ * Run with `npx tsx --test *.test.ts`.
+ */
+
+import {CLOSET} from '@/ai/test-support';
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {buildStyleProfile} from '@/ai/style-profile';
+import type {OutfitFeedback, SavedOutfit, StoredClosetItem} from '@/ai/wardrobe-store';
+
+const ITEMS: StoredClosetItem[] = [
+  ...CLOSET.map(item => ({...item, userId: 'user-1', createdAt: '2026-05-01T00:00:00.000Z'})),
+  {...CLOSET[2], id: 'dark-jeans', itemName: 'Donkere jeans', itemColor: 'Marineblauw', itemColorHex: '#232D48', userId: 'user-1', createdAt: '2026-05-01T00:00:00.000Z'},
+];
+
+const outfit = (id: string, itemIds: string[]): SavedOutfit => ({
+  id,
+  userId: 'user-1',
+  source: 'suggestion',
+  itemIds,
+  description: id,
+  createdAt: '2026-05-01T00:00:00.000Z',
+});
+
+const OUTFITS = [
+  outfit('casual', ['white-tee', 'navy-jeans', 'white-sneakers']),
+  outfit('office', ['blue-blouse', 'black-trousers', 'black-loafers']),
+  outfit('blouse-and-jeans', ['blue-blouse', 'dark-jeans', 'black-loafers']),
+];
+
+let ratingCount = 0;
+
+const rating = (outfitId: string, value: OutfitFeedback['rating'], reasons: string[] = []): OutfitFeedback => ({
+  id: `rating-${++ratingCount}`,
+  userId: 'user-1',
+  outfitId,
+  rating: value,
+  reasons,
+  createdAt: `2026-05-02T00:00:${String(ratingCount).padStart(2, '0')}.000Z`,
+});
+
+describe('buildStyleProfile', () => {
+  test('scores the styles of liked outfits up and those of disliked outfits down', () => {
+    const profile = buildStyleProfile(
+      [rating('casual', 'like', ['comfortabel']), rating('office', 'dislike', ['te formeel']), rating('deleted', 'like')],
+      OUTFITS,
+      ITEMS
+    );
+
+    assert.equal(profile.ratingCount, 2);
+    assert.deepEqual(profile.favouredStyles, [{label: 'casual', score: 1}]);
+    assert.deepEqual(profile.dislikedStyles.map(entry => entry.label).sort(), ['business', 'classic', 'smart_casual']);
+    assert.deepEqual(profile.likeReasons, [{reason: 'comfortabel', count: 1}]);
+    assert.deepEqual(profile.dislikeReasons, [{reason: 'te formeel', count: 1}]);
+  });
+
+  test('replaces an earlier rating of the same outfit instead of cancelling it out', () => {
+    const profile = buildStyleProfile([rating('casual', 'like'), rating('casual', 'dislike')], OUTFITS, ITEMS);
+
+    assert.equal(profile.ratingCount, 1);
+    assert.deepEqual(profile.favouredStyles, []);
+    assert.deepEqual(profile.dislikedStyles, [{label: 'casual', score: -1}]);
+  });
+
+  test('orders the colour affinities best first and counts a colour once in every language', () => {
+    const profile = buildStyleProfile(
+      [rating('casual', 'like'), rating('blouse-and-jeans', 'like'), rating('office', 'dislike')],
+      OUTFITS,
+      ITEMS
+    );
+
+    // The navy jeans and the 'Marineblauw' jeans are one colour; the blouse and black pieces were liked and disliked once.
+    assert.deepEqual(profile.colorAffinities, [
+      {label: 'Soft navy', score: 2},
+      {label: 'Soft white', score: 1},
+      {label: 'Bright white', score: 1},
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * @fileOverview Outfit ratings and the style profile learned from them.
+ *
+ * Users like or dislike saved outfits, optionally with reasons. The profile is aggregated locally from
+ * those ratings and the rated outfits' items, and the outfit flows add it to their prompts, so callers
+ * no longer have to re-send their preferences on every call.
+ *
+ * - FEEDBACK_REASONS - Suggested reasons for the rating UI.
+ * - rateOutfit - Stores a like or dislike for a saved outfit.
+ * - StyleProfileSchema - Structured preferences: favoured and disliked styles, colour affinities, disliked colour combinations.
+ * - buildStyleProfile - Aggregates ratings into a StyleProfile.
+ * - loadStyleProfile - Builds the profile of a user from the wardrobe store.
+ * - describeStyleProfileForPrompt - An English description of the profile for prompts.
+ */
+
+import {z} from 'genkit';
+import {InvalidInputError, RecordNotFoundError} from '@/ai/errors';
+import {findNearestPaletteColor} from '@/ai/seasonal-palettes';
+import {getWardrobeRepository, OutfitFeedback, SavedOutfit, StoredClosetItem} from '@/ai/wardrobe-store';
+
+export const FEEDBACK_REASONS = {
+  like: ['mooie kleuren', 'past bij mijn stijl', 'goed voor het weer', 'comfortabel', 'verrassende combinatie'],
+  dislike: ['te formeel', 'te casual', 'kleuren botsen', 'niet mijn stijl', 'past niet bij het weer', 'te saai'],
+} as const;
+
+/** Only the most recent ratings count, so the profile follows changes in taste. */
+const MAX_RATINGS = 100;
+
+export async function rateOutfit(
+  userId: string,
+  outfitId: string,
+  rating: OutfitFeedback['rating'],
+  reasons: string[] = []
+): Promise<OutfitFeedback> {
+  if (rating !== 'like' && rating !== 'dislike') {
+    throw new InvalidInputError('styleProfile', 'rating', {
+      nl: "gebruik 'like' of 'dislike'.",
+      en: "use 'like' or 'dislike'.",
+      de: "verwende 'like' oder 'dislike'.",
+    });
+  }
+  const repository = getWardrobeRepository();
+  if (!(await repository.getOutfit(userId, outfitId))) {
+    throw new RecordNotFoundError('styleProfile', 'outfit', outfitId);
+  }
+  return repository.saveFeedback({
+    userId,
+    outfitId,
+    rating,
+    reasons: Array.from(new Set(reasons.map(reason => reason.trim().toLowerCase()).filter(Boolean))),
+  });
+}
+
+const ScoredLabelSchema = z.object({
+  label: z.string(),
+  score: z.number().int().describe('Likes minus dislikes of outfits containing this label.'),
+});
+
+export const StyleProfileSchema = z.object({
+  ratingCount: z.number().int(),
+  favouredStyles: z.array(ScoredLabelSchema).describe('itemStyle values that occur more in liked than in disliked outfits, best first.'),
+  dislikedStyles: z.array(ScoredLabelSchema).describe('itemStyle values that occur more in disliked outfits, worst first.'),
+  colorAffinities: z.array(ScoredLabelSchema).describe("Item colours with a non-zero score, best first. The colours are mapped onto the nearest palette colour (by itemColorHex, English name), so 'Marineblauw' and 'Navy' count as one."),
+  dislikedColorCombinations: z.array(
+    z.object({
+      colors: z.tuple([z.string(), z.string()]),
+      count: z.number().int().describe('The number of disliked outfits with this combination.'),
+    })
+  ).describe('Palette colour pairs that only appear in disliked outfits.'),
+  likeReasons: z.array(z.object({reason: z.string(), count: z.number().int()})),
+  dislikeReasons: z.array(z.object({reason: z.string(), count: z.number().int()})),
+});
+export type StyleProfile = z.infer<typeof StyleProfileSchema>;
+
+class LabelScores {
+  private readonly scores = new Map<string, {label: string; score: number}>();
+
+  add(label: string, delta: number): void {
+    const key = label.trim().toLowerCase();
+    const entry = this.scores.get(key) ?? {label: label.trim(), score: 0};
+    entry.score += delta;
+    this.scores.set(key, entry);
+  }
+
+  sorted(filter: (score: number) => boolean, direction: 1 | -1): Array<{label: string; score: number}> {
+    return Array.from(this.scores.values())
+      .filter(entry => filter(entry.score))
+      .sort((a, b) => direction * (b.score - a.score));
+  }
+}
+
+function countReasons(feedback: OutfitFeedback[]): Array<{reason: string; count: number}> {
+  const counts = new Map<string, number>();
+  for (const reason of feedback.flatMap(entry => entry.reasons)) {
+    counts.set(reason, (counts.get(reason) ?? 0) + 1);
+  }
+  return Array.from(counts, ([reason, count]) => ({reason, count})).sort((a, b) => b.count - a.count);
+}
+
+// itemColor is free text in the language of the analysis; the palette colour is the same in every locale.
+function paletteColorName(item: StoredClosetItem): string {
+  return findNearestPaletteColor(item.itemColorHex, 'en').name;
+}
+
+function colorPairs(items: StoredClosetItem[]): string[] {
+  const colors = Array.from(new Set(items.map(paletteColorName))).sort();
+  return colors.flatMap((first, index) => colors.slice(index + 1).map(second => `${first}|${second}`));
+}
+
+/**
+ * Aggregates ratings into a profile. Every item style and colour in a liked outfit scores +1,
+ * in a disliked outfit -1. Only the latest rating of an outfit counts, so changing a like into a
+ * dislike does not cancel out. Ratings of outfits that no longer exist are ignored.
+ */
+export function buildStyleProfile(
+  feedback: OutfitFeedback[],
+  outfits: SavedOutfit[],
+  closetItems: StoredClosetItem[]
+): StyleProfile {
+  const latestPerOutfit = new Map<string, OutfitFeedback>();
+  for (const entry of [...feedback].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+    latestPerOutfit.delete(entry.outfitId);
+    latestPerOutfit.set(entry.outfitId, entry);
+  }
+  const recent = Array.from(latestPerOutfit.values()).slice(-MAX_RATINGS);
+  const styles = new LabelScores();
+  const colors = new LabelScores();
+  const likedPairs = new Set<string>();
+  const dislikedPairs = new Map<string, number>();
+  const rated: OutfitFeedback[] = [];
+
+  for (const entry of recent) {
+    const outfit = outfits.find(candidate => candidate.id === entry.outfitId);
+    if (!outfit) {
+      continue;
+    }
+    rated.push(entry);
+    const items = closetItems.filter(item => outfit.itemIds.includes(item.id));
+    const delta = entry.rating === 'like' ? 1 : -1;
+    new Set(items.map(item => item.itemStyle)).forEach(style => styles.add(style, delta));
+    new Set(items.map(paletteColorName)).forEach(color => colors.add(color, delta));
+    for (const pair of colorPairs(items)) {
+      if (entry.rating === 'like') {
+        likedPairs.add(pair);
+      } else {
+        dislikedPairs.set(pair, (dislikedPairs.get(pair) ?? 0) + 1);
+      }
+    }
+  }
+
+  return {
+    ratingCount: rated.length,
+    favouredStyles: styles.sorted(score => score > 0, 1),
+    dislikedStyles: styles.sorted(score => score < 0, -1),
+    colorAffinities: colors.sorted(score => score !== 0, 1),
+    dislikedColorCombinations: Array.from(dislikedPairs)
+      .filter(([pair]) => !likedPairs.has(pair))
+      .map(([pair, count]) => ({colors: pair.split('|') as [string, string], count}))
+      .sort((a, b) => b.count - a.count),
+    likeReasons: countReasons(rated.filter(entry => entry.rating === 'like')),
+    dislikeReasons: countReasons(rated.filter(entry => entry.rating === 'dislike')),
+  };
+}
+
+export async function loadStyleProfile(userId: string): Promise<StyleProfile> {
+  const repository = getWardrobeRepository();
+  const [feedback, outfits, items] = await Promise.all([
+    repository.listFeedback(userId),
+    repository.listOutfits(userId),
+    repository.listItems(userId),
+  ]);
+  return buildStyleProfile(feedback, outfits, items);
+}
+
+/** Returns undefined when there is nothing learned yet, so prompts can leave the section out. */
+export function describeStyleProfileForPrompt(profile: StyleProfile): string | undefined {
+  if (profile.ratingCount === 0) {
+    return undefined;
+  }
+  const list = (entries: Array<{label: string}>) => entries.slice(0, 5).map(entry => entry.label).join(', ');
+  const lines: string[] = [];
+  if (profile.favouredStyles.length) {
+    lines.push(`Favoured styles: ${list(profile.favouredStyles)}`);
+  }
+  if (profile.dislikedStyles.length) {
+    lines.push(`Less appreciated styles: ${list(profile.dislikedStyles)}`);
+  }
+  const likedColors = profile.colorAffinities.filter(entry => entry.score > 0);
+  const dislikedColors = profile.colorAffinities.filter(entry => entry.score < 0).reverse();
+  if (likedColors.length) {
+    lines.push(`Favourite colours: ${list(likedColors)}`);
+  }
+  if (dislikedColors.length) {
+    lines.push(`Less liked colours: ${list(dislikedColors)}`);
+  }
+  if (profile.dislikedColorCombinations.length) {
+    const combinations = profile.dislikedColorCombinations.slice(0, 5).map(({colors}) => `${colors[0]} with ${colors[1]}`);
+    lines.push(`Avoid these colour combinations: ${combinations.join('; ')}`);
+  }
+  if (profile.likeReasons.length) {
+    lines.push(`Often mentioned for liked outfits: ${profile.likeReasons.slice(0, 5).map(entry => entry.reason).join(', ')}`);
+  }
+  if (profile.dislikeReasons.length) {
+    lines.push(`Often mentioned for disliked outfits: ${profile.dislikeReasons.slice(0, 5).map(entry => entry.reason).join(', ')}`);
+  }
+  return lines.length ? lines.join('\n') : undefined;
+}
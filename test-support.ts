@@ -0,0 +1,124 @@
+/**
+ * @fileOverview Shared setup for the tests: mock models, temporary stores and sample data.
+ *
+ * Import this module before any flow, so genkit.ts registers the mock models instead of Google AI.
+ * Run the tests with `npx tsx --test *.test.ts`; no API key or network access is needed.
+ *
+ * - resetTestState - Clears the mock model script and gives every test an empty wardrobe store.
+ * - createTestPhoto - A small JPEG data URI that passes the image checks.
+ * - createPortraitPhoto - A simple portrait that passes the photo quality check of the colour analysis,
+ *   optionally tinted or darkened.
+ * - CLOSET - A small closet with tops, bottoms, shoes and a coat.
+ * - modelClothingItem / modelColorAnalysis - Valid structured outputs for the analysis prompts.
+ * - collectFailure - Awaits a promise that should fail and returns the error.
+ */
+
+import {mkdtempSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+
+process.env.AI_MODEL_PROVIDER = 'mock';
+const testDir = mkdtempSync(join(tmpdir(), 'colorme-test-'));
+process.env.IMAGE_ASSET_DIR = join(testDir, 'image-assets');
+
+import sharp from 'sharp';
+import type {ClosetItem} from '@/ai/closet-item';
+import {mockModelController} from '@/ai/mock-model';
+import {JsonFileWardrobeRepository, setWardrobeRepository} from '@/ai/wardrobe-store';
+
+let storeCount = 0;
+
+export function resetTestState(): void {
+  mockModelController.reset();
+  setWardrobeRepository(new JsonFileWardrobeRepository(join(testDir, `wardrobe-${++storeCount}.json`)));
+}
+
+export async function createTestPhoto(background = '#B58A6E'): Promise<string> {
+  const bytes = await sharp({create: {width: 64, height: 64, channels: 3, background}}).jpeg().toBuffer();
+  return `data:image/jpeg;base64,${bytes.toString('base64')}`;
+}
+
+/** A head and shoulders in front of a grey wall: neutral on average, like a portrait in daylight. */
+const PORTRAIT_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100" viewBox="0 0 100 100">
+  <rect width="100" height="100" fill="#C8C8C8"/>
+  <ellipse cx="50" cy="42" rx="30" ry="34" fill="#3B2A20"/>
+  <ellipse cx="50" cy="52" rx="21" ry="27" fill="#D9A88C"/>
+  <rect x="25" y="80" width="50" height="20" fill="#2F3E5C"/>
+  <circle cx="42" cy="48" r="2.5" fill="#4A3222"/>
+  <circle cx="58" cy="48" r="2.5" fill="#4A3222"/>
+</svg>`;
+
+/** `tint` multiplies the red, green and blue channels, e.g. [1.2, 1.05, 0.7] for yellow lamp light. */
+export async function createPortraitPhoto(options: {size?: number; tint?: [number, number, number]; brightness?: number} = {}): Promise<string> {
+  const {size = 640, tint = [1, 1, 1], brightness = 1} = options;
+  const bytes = await sharp(Buffer.from(PORTRAIT_SVG))
+    .resize(size, size)
+    .linear(tint.map(gain => gain * brightness), [0, 0, 0])
+    .jpeg()
+    .toBuffer();
+  return `data:image/jpeg;base64,${bytes.toString('base64')}`;
+}
+
+const item = (id: string, itemType: ClosetItem['itemType'], itemColor: string, itemColorHex: string, itemStyle: ClosetItem['itemStyle'] = 'casual'): ClosetItem => ({
+  id,
+  itemName: `${itemColor} ${itemType}`,
+  itemType,
+  itemColor,
+  itemColorHex,
+  itemStyle,
+  fullDescription: `A ${itemColor.toLowerCase()} ${itemType.replace(/_/g, ' ')}.`,
+});
+
+export const CLOSET: ClosetItem[] = [
+  item('white-tee', 't_shirt', 'White', '#F5F5F5'),
+  item('blue-blouse', 'blouse', 'Light blue', '#A7C7E7', 'smart_casual'),
+  item('navy-jeans', 'jeans', 'Navy', '#1F2A44'),
+  item('black-trousers', 'tailored_trousers', 'Black', '#111111', 'business'),
+  item('white-sneakers', 'sneakers', 'White', '#FAFAFA'),
+  item('black-loafers', 'loafers', 'Black', '#151515', 'classic'),
+  item('camel-trench', 'trench_coat', 'Camel', '#C19A6B', 'classic'),
+];
+
+export function modelClothingItem(overrides: Record<string, unknown> = {}) {
+  return {
+    itemName: 'Dark blue jeans',
+    itemType: 'jeans',
+    itemColor: 'Dark blue',
+    itemColorHex: '#1F2A44',
+    itemStyle: 'casual',
+    fullDescription: 'Straight-leg jeans in a dark wash.',
+    ...overrides,
+  };
+}
+
+export function modelColorAnalysis(overrides: Record<string, unknown> = {}) {
+  return {
+    seasonType: 'deep_winter',
+    analysisDescription: 'High contrast between dark hair and light skin with cool undertones.',
+    characteristics: {skinTone: 'Cool with pink undertones', hairColor: 'Dark brown', eyeColor: 'Dark brown'},
+    recommendedColors: [
+      {name: 'Black', hex: '#000000'},
+      {name: 'Pure white', hex: '#FFFFFF'},
+      {name: 'Emerald green', hex: '#009B77'},
+      {name: 'Royal blue', hex: '#4169E1'},
+      {name: 'Ruby red', hex: '#9B111E'},
+    ],
+    avoidColors: [
+      {name: 'Peach', hex: '#FFCBA4'},
+      {name: 'Camel', hex: '#C19A6B'},
+      {name: 'Orange', hex: '#FFA500'},
+    ],
+    paletteDescription: 'Deep, cool and clear colours with strong contrast.',
+    confidence: 0.8,
+    ...overrides,
+  };
+}
+
+export async function collectFailure(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the promise to be rejected.');
+}
@@ -0,0 +1,46 @@
+/**
+ * @fileOverview Token usage of the model calls made while handling one request.
+ *
+ * Every model response passes through assertModelOutput or assertModelMedia, which report its usage
+ * here. The usage is added to the meter of the surrounding trackUsage call, so nested flows (the batch
+ * flow calls the item flow) and retried calls are counted as well.
+ *
+ * - ModelUsage - The number of model calls and tokens.
+ * - createModelUsage - An empty ModelUsage.
+ * - trackUsage - Runs a function and adds the usage of the model calls inside it to a ModelUsage.
+ * - recordModelUsage - Adds the usage of one model response to the current meter, if any.
+ */
+
+import {AsyncLocalStorage} from 'node:async_hooks';
+import type {GenerationUsage} from 'genkit';
+
+export interface ModelUsage {
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+const currentUsage = new AsyncLocalStorage<ModelUsage>();
+
+export function createModelUsage(): ModelUsage {
+  return {modelCalls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0};
+}
+
+/** `usage` is updated while `fn` runs, so it also holds the usage of a call that fails. */
+export function trackUsage<T>(usage: ModelUsage, fn: () => Promise<T>): Promise<T> {
+  return currentUsage.run(usage, fn);
+}
+
+export function recordModelUsage(response: {usage?: GenerationUsage}): void {
+  const usage = currentUsage.getStore();
+  if (!usage) {
+    return;
+  }
+  const inputTokens = response.usage?.inputTokens ?? 0;
+  const outputTokens = response.usage?.outputTokens ?? 0;
+  usage.modelCalls++;
+  usage.inputTokens += inputTokens;
+  usage.outputTokens += outputTokens;
+  usage.totalTokens += response.usage?.totalTokens ?? inputTokens + outputTokens;
+}
@@ -0,0 +1,192 @@
+/**
+ * @fileOverview Local wardrobe gap detection and outfit counting for the gap analysis.
+ *
+ * An outfit is a top with a bottom, or a one-piece, worn with a pair of shoes and with or without one
+ * of the coats. Items in colours the user's season should avoid are left out, so a purchase in the
+ * palette is worth more than one the user should not wear anyway.
+ *
+ * - WardrobeGapSchema - A gap found in the closet, with a message in the requested locale.
+ * - findWardrobeGaps - Finds missing categories, imbalances and palette gaps.
+ * - countOutfitCombinations - The number of outfits a closet allows.
+ * - countUnlockedOutfits - How many new outfits a purchase would add.
+ * - isNeutralColor - Whether a colour is a neutral (black, white, grey, navy, beige, camel, ...).
+ */
+
+import {z} from 'genkit';
+import {ClosetItem, getItemCategory, ItemCategory, ITEM_CATEGORY_LABELS} from '@/ai/closet-item';
+import {scoreColorCompatibility} from '@/ai/color-compatibility';
+import {colorDistance, hexToRgb, rgbToLab} from '@/ai/color-science';
+import type {PerformColorAnalysisOutput} from '@/ai/flows/perform-color-analysis-flow';
+import {DEFAULT_LOCALE, Locale, LocalizedText} from '@/ai/locale';
+import {getSeasonLabel} from '@/ai/seasonal-palettes';
+
+export type SeasonPalette = Pick<PerformColorAnalysisOutput, 'seasonType' | 'recommendedColors' | 'avoidColors'>;
+
+export const WardrobeGapSchema = z.object({
+  code: z.enum([
+    'MISSING_CATEGORY',
+    'CATEGORY_IMBALANCE',
+    'NO_NEUTRAL_OUTERWEAR_IN_PALETTE',
+    'FEW_ITEMS_IN_PALETTE',
+    'OBSERVED',
+  ]).describe("'OBSERVED' gaps were noticed by the stylist model; the others are found locally."),
+  category: z.enum(['top', 'bottom', 'onePiece', 'outerwear', 'footwear', 'accessory']).optional(),
+  message: z.string().describe('The gap, in the requested locale.'),
+});
+export type WardrobeGap = z.infer<typeof WardrobeGapSchema>;
+
+/** One category counts as outnumbering another from this ratio on (e.g. 12 tops against 3 bottoms). */
+const IMBALANCE_RATIO = 4;
+/** Below this share of items in the palette, the palette itself is a gap (only for closets of MIN_ITEMS_FOR_SHARE+). */
+const MIN_PALETTE_SHARE = 0.25;
+const MIN_ITEMS_FOR_SHARE = 5;
+
+// Neutrals with some colour (navy, camel) are not caught by the chroma threshold alone.
+const NEUTRAL_REFERENCE_COLORS = ['#1F2A44', '#F5F0E1', '#D8C3A5', '#C19A6B', '#8B7D6B', '#6B4F3A', '#36454F'];
+const NEUTRAL_MAX_CHROMA = 10;
+const NEUTRAL_MATCH_DISTANCE = 12;
+
+export function isNeutralColor(hex: string): boolean {
+  const {a, b} = rgbToLab(hexToRgb(hex));
+  return Math.hypot(a, b) < NEUTRAL_MAX_CHROMA
+    || NEUTRAL_REFERENCE_COLORS.some(reference => colorDistance(hex, reference) < NEUTRAL_MATCH_DISTANCE);
+}
+
+function wearable(items: ClosetItem[], palette?: SeasonPalette): ClosetItem[] {
+  return palette ? items.filter(item => scoreColorCompatibility(item, palette).verdict !== 'avoid') : items;
+}
+
+function countByCategory(items: ClosetItem[]): Record<ItemCategory, number> {
+  const counts: Record<ItemCategory, number> = {top: 0, bottom: 0, onePiece: 0, outerwear: 0, footwear: 0, accessory: 0};
+  for (const item of items) {
+    counts[getItemCategory(item.itemType)]++;
+  }
+  return counts;
+}
+
+function combinations(counts: Record<ItemCategory, number>): number {
+  return (counts.top * counts.bottom + counts.onePiece) * Math.max(1, counts.footwear) * (counts.outerwear + 1);
+}
+
+/**
+ * (tops x bottoms + one-pieces) x pairs of shoes x (coats + 1). A closet without shoes counts as one
+ * pair, so the other categories still count; the missing shoes are reported as a gap instead.
+ */
+export function countOutfitCombinations(items: ClosetItem[], palette?: SeasonPalette): number {
+  return combinations(countByCategory(wearable(items, palette)));
+}
+
+/**
+ * The first pair of shoes completes every outfit that still lacked shoes, so for a closet without
+ * shoes all outfits with the new pair count as unlocked.
+ */
+export function countUnlockedOutfits(
+  items: ClosetItem[],
+  purchase: Pick<ClosetItem, 'itemType' | 'itemColor' | 'itemColorHex'>,
+  palette?: SeasonPalette
+): number {
+  const purchased: ClosetItem = {
+    ...purchase,
+    id: 'purchase',
+    itemName: purchase.itemType,
+    itemStyle: 'casual',
+    fullDescription: '',
+  };
+  const before = countByCategory(wearable(items, palette));
+  const after = countByCategory(wearable([...items, purchased], palette));
+  return before.footwear === 0 && after.footwear > 0 ? combinations(after) : combinations(after) - combinations(before);
+}
+
+function plural(count: number, singular: string, pluralForm: string): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+export function findWardrobeGaps(items: ClosetItem[], palette?: SeasonPalette, locale: Locale = DEFAULT_LOCALE): WardrobeGap[] {
+  const gaps: WardrobeGap[] = [];
+  const text = (messages: LocalizedText) => messages[locale];
+  const counts = countByCategory(items);
+  const bottoms = counts.bottom + counts.onePiece;
+
+  for (const category of ['bottom', 'top', 'footwear', 'outerwear'] as const) {
+    const count = category === 'bottom' ? bottoms : counts[category];
+    if (count === 0) {
+      const labels = ITEM_CATEGORY_LABELS[category];
+      gaps.push({
+        code: 'MISSING_CATEGORY',
+        category,
+        message: text({
+          nl: `Je kast heeft nog geen ${labels.nl.toLowerCase()}.`,
+          en: `Your closet has no ${labels.en.toLowerCase()} yet.`,
+          de: `Dein Kleiderschrank hat noch keine ${labels.de}.`,
+        }),
+      });
+    }
+  }
+
+  const tops = {
+    nl: plural(counts.top, 'bovenstuk', 'bovenstukken'),
+    en: plural(counts.top, 'top', 'tops'),
+    de: plural(counts.top, 'Oberteil', 'Oberteile'),
+  };
+  const bottomsText = {
+    nl: plural(bottoms, 'broek, rok of jurk', 'broeken, rokken of jurken'),
+    en: plural(bottoms, 'pair of trousers, skirt or dress', 'trousers, skirts or dresses'),
+    de: plural(bottoms, 'Hose, Rock oder Kleid', 'Hosen, Röcke oder Kleider'),
+  };
+  if (counts.top > 0 && bottoms > 0 && counts.top >= IMBALANCE_RATIO * bottoms) {
+    gaps.push({
+      code: 'CATEGORY_IMBALANCE',
+      category: 'bottom',
+      message: text({
+        nl: `Je hebt ${tops.nl} maar ${bottomsText.nl}.`,
+        en: `You have ${tops.en} but ${bottomsText.en}.`,
+        de: `Du hast ${tops.de}, aber ${bottomsText.de}.`,
+      }),
+    });
+  } else if (counts.top > 0 && bottoms > 0 && bottoms >= IMBALANCE_RATIO * counts.top) {
+    gaps.push({
+      code: 'CATEGORY_IMBALANCE',
+      category: 'top',
+      message: text({
+        nl: `Je hebt ${bottomsText.nl} maar ${tops.nl}.`,
+        en: `You have ${bottomsText.en} but ${tops.en}.`,
+        de: `Du hast ${bottomsText.de}, aber ${tops.de}.`,
+      }),
+    });
+  }
+
+  const season = palette && getSeasonLabel(palette.seasonType, locale);
+  if (palette && counts.outerwear > 0) {
+    const neutralCoats = wearable(items, palette).filter(
+      item => getItemCategory(item.itemType) === 'outerwear' && isNeutralColor(item.itemColorHex)
+    );
+    if (neutralCoats.length === 0) {
+      gaps.push({
+        code: 'NO_NEUTRAL_OUTERWEAR_IN_PALETTE',
+        category: 'outerwear',
+        message: text({
+          nl: `Je hebt geen neutrale jas in je palet (${season}), terwijl die bij bijna alles past.`,
+          en: `You have no neutral coat in your palette (${season}), although one goes with almost everything.`,
+          de: `Du hast keine neutrale Jacke in deiner Palette (${season}), obwohl sie zu fast allem passt.`,
+        }),
+      });
+    }
+  }
+
+  if (palette && items.length >= MIN_ITEMS_FOR_SHARE) {
+    const fitting = items.filter(item => scoreColorCompatibility(item, palette).verdict === 'fits').length;
+    if (fitting / items.length < MIN_PALETTE_SHARE) {
+      const percentage = Math.round((fitting / items.length) * 100);
+      gaps.push({
+        code: 'FEW_ITEMS_IN_PALETTE',
+        message: text({
+          nl: `Maar ${percentage}% van je kast valt in het palet van ${season}.`,
+          en: `Only ${percentage}% of your closet is in the palette of ${season}.`,
+          de: `Nur ${percentage} % deines Kleiderschranks liegen in der Palette von ${season}.`,
+        }),
+      });
+    }
+  }
+
+  return gaps;
+}
@@ -0,0 +1,395 @@
+/**
+ * @fileOverview Persistent wardrobe store: closet items, colour analyses, saved outfits, the wear log and outfit ratings per user.
+ *
+ * Flows talk to the store through the WardrobeRepository interface, so the JSON file used for local
+ * development can be swapped for a database without touching the flows.
+ *
+ * - StoredClosetItem / StoredColorAnalysis / SavedOutfit / WearLogEntry / OutfitFeedback / StoredAvatar - The records kept per user.
+ * - WardrobeRepository - The interface storage implementations implement.
+ * - JsonFileWardrobeRepository - Keeps everything in a single local JSON file.
+ * - setWardrobeRepository / getWardrobeRepository - Configure the repository used by the flows.
+ * - ClosetSelectionSchema - Input fields with which flows select a stored closet instead of receiving it.
+ * - resolveClosetItems - Returns the closet items of a flow input, loading them from the store if needed.
+ * - resolveItemPhoto - Returns the photo of a stored item as a data URI.
+ */
+
+import {mkdir, readFile, rename, writeFile} from 'node:fs/promises';
+import {dirname, extname} from 'node:path';
+import {z} from 'genkit';
+import {ClosetItem, normalizeItemType} from '@/ai/closet-item';
+import {InvalidInputError, RecordNotFoundError} from '@/ai/errors';
+import {loadImageAsDataUri} from '@/ai/image-assets';
+import {normalizeItemStyle} from '@/ai/item-vocabulary';
+import {normalizeSeasonType} from '@/ai/seasonal-palettes';
+import type {Avatar} from '@/ai/avatar';
+import type {PerformColorAnalysisOutput} from '@/ai/flows/perform-color-analysis-flow';
+
+export interface StoredClosetItem extends ClosetItem {
+  userId: string;
+  /** The photo of the item in the image asset store ('asset://...'). */
+  photoRef?: string;
+  /** The photo of the item as a data URI. Kept for items stored before the image asset store. */
+  photoDataUri?: string;
+  /** A path to the photo of the item, as an alternative to photoDataUri for large collections. */
+  photoFile?: string;
+  /** The perceptual hash of the photo, for duplicate detection. Items stored before it are hashed on demand. */
+  photoHash?: string;
+  /** What the user paid for the item, in euros. Used for cost-per-wear. */
+  purchasePrice?: number;
+  createdAt: string;
+}
+
+export interface StoredColorAnalysis {
+  id: string;
+  userId: string;
+  /** Analyses stored before the photo quality check have no confidence and photoQuality. */
+  analysis: Omit<PerformColorAnalysisOutput, 'confidence' | 'photoQuality'> & Partial<Pick<PerformColorAnalysisOutput, 'confidence' | 'photoQuality'>>;
+  createdAt: string;
+}
+
+export interface SavedOutfit {
+  id: string;
+  userId: string;
+  /** The flow that generated the outfit, or 'manual' when the user put it together. */
+  source: 'suggestion' | 'inspiration' | 'manual';
+  itemIds: string[];
+  description: string;
+  reasoning?: string;
+  suggestedShoes?: string;
+  suggestedSocks?: string;
+  /** The generated image in the image asset store ('asset://...'). */
+  imageRef?: string;
+  /** The generated image as a data URI. Kept for outfits saved before the image asset store. */
+  imageDataUri?: string;
+  createdAt: string;
+}
+
+export interface WearLogEntry {
+  id: string;
+  userId: string;
+  /** The day the items were worn (YYYY-MM-DD). */
+  date: string;
+  itemIds: string[];
+  /** The saved outfit that was worn, when the whole outfit was logged. */
+  outfitId?: string;
+  createdAt: string;
+}
+
+export interface OutfitFeedback {
+  id: string;
+  userId: string;
+  outfitId: string;
+  rating: 'like' | 'dislike';
+  /** Why the user liked or disliked the outfit, e.g. 'te formeel' or 'kleuren botsen'. */
+  reasons: string[];
+  createdAt: string;
+}
+
+export interface StoredAvatar {
+  userId: string;
+  /** The reference photo, if any, is an asset reference. */
+  avatar: Avatar;
+  updatedAt: string;
+}
+
+export type NewClosetItem = Omit<StoredClosetItem, 'id' | 'createdAt'> & {id?: string};
+export type NewSavedOutfit = Omit<SavedOutfit, 'id' | 'createdAt'>;
+export type NewWearLogEntry = Omit<WearLogEntry, 'id' | 'createdAt'>;
+export type NewOutfitFeedback = Omit<OutfitFeedback, 'id' | 'createdAt'>;
+
+export interface WardrobeRepository {
+  /** Adds an item, or replaces the user's item with the same id. */
+  saveItem(item: NewClosetItem): Promise<StoredClosetItem>;
+  getItem(userId: string, itemId: string): Promise<StoredClosetItem | undefined>;
+  listItems(userId: string): Promise<StoredClosetItem[]>;
+  deleteItem(userId: string, itemId: string): Promise<boolean>;
+
+  saveColorAnalysis(userId: string, analysis: PerformColorAnalysisOutput): Promise<StoredColorAnalysis>;
+  getLatestColorAnalysis(userId: string): Promise<StoredColorAnalysis | undefined>;
+
+  saveOutfit(outfit: NewSavedOutfit): Promise<SavedOutfit>;
+  getOutfit(userId: string, outfitId: string): Promise<SavedOutfit | undefined>;
+  listOutfits(userId: string): Promise<SavedOutfit[]>;
+  deleteOutfit(userId: string, outfitId: string): Promise<boolean>;
+
+  logWear(entry: NewWearLogEntry): Promise<WearLogEntry>;
+  listWearLog(userId: string): Promise<WearLogEntry[]>;
+
+  saveFeedback(feedback: NewOutfitFeedback): Promise<OutfitFeedback>;
+  listFeedback(userId: string): Promise<OutfitFeedback[]>;
+
+  /** Replaces the user's avatar. */
+  saveAvatar(userId: string, avatar: Avatar): Promise<StoredAvatar>;
+  getAvatar(userId: string): Promise<StoredAvatar | undefined>;
+}
+
+interface UserWardrobe {
+  items: StoredClosetItem[];
+  colorAnalyses: StoredColorAnalysis[];
+  outfits: SavedOutfit[];
+  wearLog: WearLogEntry[];
+  feedback: OutfitFeedback[];
+  avatar?: StoredAvatar;
+}
+
+// Files written by older versions lack the newer collections.
+function withDefaults(wardrobe: Partial<UserWardrobe> = {}): UserWardrobe {
+  return {items: [], colorAnalyses: [], outfits: [], wearLog: [], feedback: [], ...wardrobe};
+}
+
+interface WardrobeFile {
+  version: 2;
+  users: Record<string, UserWardrobe>;
+}
+
+/**
+ * Version 1 stored item types, styles and season types as the (Dutch) words of the model; version 2
+ * stores their language-neutral codes. Words that match no code fall back to a category default,
+ * 'casual' or 'undetermined'.
+ */
+function migrateWardrobeFile(file: {version: number; users: Record<string, Partial<UserWardrobe>>}): WardrobeFile {
+  if (file.version >= 2) {
+    return file as WardrobeFile;
+  }
+  const users = Object.fromEntries(Object.entries(file.users).map(([userId, stored]) => {
+    const wardrobe = withDefaults(stored);
+    return [userId, {
+      ...wardrobe,
+      items: wardrobe.items.map(item => ({
+        ...item,
+        itemType: normalizeItemType(item.itemType),
+        itemStyle: normalizeItemStyle(item.itemStyle),
+      })),
+      colorAnalyses: wardrobe.colorAnalyses.map(record => ({
+        ...record,
+        analysis: {...record.analysis, seasonType: normalizeSeasonType(record.analysis.seasonType)},
+      })),
+    }];
+  }));
+  return {version: 2, users};
+}
+
+/**
+ * Keeps all users' wardrobes in one JSON file, loaded on first use. Every change rewrites the file
+ * via a temporary file and a rename, and changes are applied one at a time so none get lost.
+ * Meant for local use by a single process.
+ */
+export class JsonFileWardrobeRepository implements WardrobeRepository {
+  private data?: Promise<WardrobeFile>;
+  private pendingWrite: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async saveItem({id = crypto.randomUUID(), ...item}: NewClosetItem): Promise<StoredClosetItem> {
+    const stored: StoredClosetItem = {...item, id, createdAt: new Date().toISOString()};
+    await this.update(item.userId, wardrobe => {
+      const index = wardrobe.items.findIndex(existing => existing.id === id);
+      if (index === -1) {
+        wardrobe.items.push(stored);
+      } else {
+        stored.createdAt = wardrobe.items[index].createdAt;
+        wardrobe.items[index] = stored;
+      }
+    });
+    return stored;
+  }
+
+  async getItem(userId: string, itemId: string): Promise<StoredClosetItem | undefined> {
+    return (await this.read(userId)).items.find(item => item.id === itemId);
+  }
+
+  async listItems(userId: string): Promise<StoredClosetItem[]> {
+    return [...(await this.read(userId)).items];
+  }
+
+  async deleteItem(userId: string, itemId: string): Promise<boolean> {
+    return this.update(userId, wardrobe => removeById(wardrobe.items, itemId));
+  }
+
+  async saveColorAnalysis(userId: string, analysis: PerformColorAnalysisOutput): Promise<StoredColorAnalysis> {
+    const stored: StoredColorAnalysis = {id: crypto.randomUUID(), userId, analysis, createdAt: new Date().toISOString()};
+    await this.update(userId, wardrobe => wardrobe.colorAnalyses.push(stored));
+    return stored;
+  }
+
+  async getLatestColorAnalysis(userId: string): Promise<StoredColorAnalysis | undefined> {
+    return (await this.read(userId)).colorAnalyses.at(-1);
+  }
+
+  async saveOutfit(outfit: NewSavedOutfit): Promise<SavedOutfit> {
+    const stored: SavedOutfit = {...outfit, id: crypto.randomUUID(), createdAt: new Date().toISOString()};
+    await this.update(outfit.userId, wardrobe => wardrobe.outfits.push(stored));
+    return stored;
+  }
+
+  async getOutfit(userId: string, outfitId: string): Promise<SavedOutfit | undefined> {
+    return (await this.read(userId)).outfits.find(outfit => outfit.id === outfitId);
+  }
+
+  async listOutfits(userId: string): Promise<SavedOutfit[]> {
+    return [...(await this.read(userId)).outfits];
+  }
+
+  async deleteOutfit(userId: string, outfitId: string): Promise<boolean> {
+    return this.update(userId, wardrobe => removeById(wardrobe.outfits, outfitId));
+  }
+
+  async logWear(entry: NewWearLogEntry): Promise<WearLogEntry> {
+    const stored: WearLogEntry = {...entry, id: crypto.randomUUID(), createdAt: new Date().toISOString()};
+    await this.update(entry.userId, wardrobe => wardrobe.wearLog.push(stored));
+    return stored;
+  }
+
+  async listWearLog(userId: string): Promise<WearLogEntry[]> {
+    return [...(await this.read(userId)).wearLog];
+  }
+
+  async saveFeedback(feedback: NewOutfitFeedback): Promise<OutfitFeedback> {
+    const stored: OutfitFeedback = {...feedback, id: crypto.randomUUID(), createdAt: new Date().toISOString()};
+    await this.update(feedback.userId, wardrobe => wardrobe.feedback.push(stored));
+    return stored;
+  }
+
+  async listFeedback(userId: string): Promise<OutfitFeedback[]> {
+    return [...(await this.read(userId)).feedback];
+  }
+
+  async saveAvatar(userId: string, avatar: Avatar): Promise<StoredAvatar> {
+    const stored: StoredAvatar = {userId, avatar, updatedAt: new Date().toISOString()};
+    await this.update(userId, wardrobe => {
+      wardrobe.avatar = stored;
+    });
+    return stored;
+  }
+
+  async getAvatar(userId: string): Promise<StoredAvatar | undefined> {
+    return (await this.read(userId)).avatar;
+  }
+
+  private load(): Promise<WardrobeFile> {
+    this.data ??= readFile(this.filePath, 'utf8').then(
+      contents => migrateWardrobeFile(JSON.parse(contents)),
+      error => {
+        if (error?.code === 'ENOENT') {
+          return {version: 2, users: {}};
+        }
+        this.data = undefined;
+        throw error;
+      }
+    );
+    return this.data;
+  }
+
+  private async read(userId: string): Promise<UserWardrobe> {
+    const data = await this.load();
+    return withDefaults(data.users[userId]);
+  }
+
+  private update<T>(userId: string, change: (wardrobe: UserWardrobe) => T): Promise<T> {
+    const result = this.pendingWrite.then(async () => {
+      const data = await this.load();
+      data.users[userId] = withDefaults(data.users[userId]);
+      const value = change(data.users[userId]);
+      await mkdir(dirname(this.filePath), {recursive: true});
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+      await rename(tempPath, this.filePath);
+      return value;
+    });
+    this.pendingWrite = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function removeById(records: Array<{id: string}>, id: string): boolean {
+  const index = records.findIndex(record => record.id === id);
+  if (index === -1) {
+    return false;
+  }
+  records.splice(index, 1);
+  return true;
+}
+
+let wardrobeRepository: WardrobeRepository | undefined;
+
+export function setWardrobeRepository(repository: WardrobeRepository): void {
+  wardrobeRepository = repository;
+}
+
+export function getWardrobeRepository(): WardrobeRepository {
+  wardrobeRepository ??= new JsonFileWardrobeRepository(process.env.WARDROBE_STORE_PATH ?? 'wardrobe.json');
+  return wardrobeRepository;
+}
+
+export const ClosetSelectionSchema = z.object({
+  userId: z.string().min(1).optional().describe('The user whose stored closet should be used when closetItems is not sent.'),
+  itemIds: z.array(z.string()).optional().describe("Only with userId: the stored items to use. Defaults to all of the user's items."),
+});
+export type ClosetSelection = z.infer<typeof ClosetSelectionSchema>;
+
+function toClosetItem({userId, photoRef, photoDataUri, photoFile, photoHash, createdAt, ...item}: StoredClosetItem): ClosetItem {
+  return item;
+}
+
+/**
+ * Returns the closet items sent with a flow input, or loads them from the store by userId
+ * (optionally restricted to itemIds). Unknown item ids and an empty closet are rejected.
+ */
+export async function resolveClosetItems(
+  source: string,
+  input: ClosetSelection & {closetItems?: ClosetItem[]},
+  closetField = 'closetItems'
+): Promise<ClosetItem[]> {
+  if (input.closetItems?.length) {
+    return input.closetItems;
+  }
+  if (!input.userId) {
+    throw new InvalidInputError(source, closetField, {
+      nl: 'stuur de kledingstukken mee of geef een userId op van een opgeslagen kast.',
+      en: 'send the clothing items or provide the userId of a stored closet.',
+      de: 'sende die Kleidungsstücke mit oder gib die userId eines gespeicherten Kleiderschranks an.',
+    });
+  }
+  const stored = await getWardrobeRepository().listItems(input.userId);
+  const items = input.itemIds
+    ? input.itemIds.map(itemId => {
+        const item = stored.find(candidate => candidate.id === itemId);
+        if (!item) {
+          throw new RecordNotFoundError(source, 'item', itemId);
+        }
+        return item;
+      })
+    : stored;
+  if (items.length === 0) {
+    throw new InvalidInputError(source, 'userId', {
+      nl: 'de opgeslagen kast van deze gebruiker is leeg.',
+      en: "this user's stored closet is empty.",
+      de: 'der gespeicherte Kleiderschrank dieses Benutzers ist leer.',
+    });
+  }
+  return items.map(toClosetItem);
+}
+
+const PHOTO_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.heic': 'image/heic',
+};
+
+/** Returns the photo of a stored item as a data URI, reading it from the image asset store or photoFile if needed. */
+export async function resolveItemPhoto(item: StoredClosetItem): Promise<string | undefined> {
+  if (item.photoRef) {
+    return loadImageAsDataUri(item.photoRef);
+  }
+  if (item.photoDataUri) {
+    return item.photoDataUri;
+  }
+  if (!item.photoFile) {
+    return undefined;
+  }
+  const mimeType = PHOTO_MIME_TYPES[extname(item.photoFile).toLowerCase()] ?? 'image/jpeg';
+  return `data:${mimeType};base64,${(await readFile(item.photoFile)).toString('base64')}`;
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileOverview Wear log: records which closet items the user actually wore, and on which day.
+ *
+ * - markOutfitWorn - Logs all items of a saved outfit as worn on a date.
+ * - markItemsWorn - Logs individual closet items as worn on a date.
+ * - summarizeWearLog - Wear count and last worn date per item.
+ * - WearStats - The per-item result of summarizeWearLog.
+ */
+
+import {InvalidInputError, RecordNotFoundError} from '@/ai/errors';
+import {getWardrobeRepository, WearLogEntry} from '@/ai/wardrobe-store';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Whether `date` is a YYYY-MM-DD calendar day; the round trip rejects days that roll over, such as '2024-02-30'. */
+function isCalendarDate(date: string): boolean {
+  const parsed = new Date(date);
+  return DATE_PATTERN.test(date) && !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+function assertDate(date: string): void {
+  if (!isCalendarDate(date)) {
+    throw new InvalidInputError('wearLog', 'date', {
+      nl: 'gebruik een geldige datum in het formaat JJJJ-MM-DD.',
+      en: 'use a valid date in the format YYYY-MM-DD.',
+      de: 'verwende ein gültiges Datum im Format JJJJ-MM-TT.',
+    });
+  }
+}
+
+export async function markOutfitWorn(userId: string, outfitId: string, date: string): Promise<WearLogEntry> {
+  assertDate(date);
+  const repository = getWardrobeRepository();
+  const outfit = await repository.getOutfit(userId, outfitId);
+  if (!outfit) {
+    throw new RecordNotFoundError('wearLog', 'outfit', outfitId);
+  }
+  return repository.logWear({userId, date, itemIds: outfit.itemIds, outfitId});
+}
+
+export async function markItemsWorn(userId: string, itemIds: string[], date: string): Promise<WearLogEntry> {
+  assertDate(date);
+  if (itemIds.length === 0) {
+    throw new InvalidInputError('wearLog', 'itemIds', {
+      nl: 'geef minstens één kledingstuk op.',
+      en: 'provide at least one clothing item.',
+      de: 'gib mindestens ein Kleidungsstück an.',
+    });
+  }
+  const repository = getWardrobeRepository();
+  const knownIds = new Set((await repository.listItems(userId)).map(item => item.id));
+  const unknownId = itemIds.find(itemId => !knownIds.has(itemId));
+  if (unknownId) {
+    throw new RecordNotFoundError('wearLog', 'item', unknownId);
+  }
+  return repository.logWear({userId, date, itemIds: Array.from(new Set(itemIds))});
+}
+
+export interface WearStats {
+  /** The number of distinct days the item was worn. */
+  wearCount: number;
+  lastWornOn?: string;
+}
+
+/**
+ * Counts per item on how many distinct days it was worn. Logging an outfit and one of its items
+ * separately on the same day counts as one wear.
+ */
+export function summarizeWearLog(entries: WearLogEntry[]): Map<string, WearStats> {
+  const datesPerItem = new Map<string, Set<string>>();
+  for (const entry of entries) {
+    for (const itemId of entry.itemIds) {
+      const dates = datesPerItem.get(itemId) ?? new Set<string>();
+      dates.add(entry.date);
+      datesPerItem.set(itemId, dates);
+    }
+  }
+  return new Map(Array.from(datesPerItem, ([itemId, dates]) => [
+    itemId,
+    {wearCount: dates.size, lastWornOn: Array.from(dates).sort().at(-1)},
+  ]));
+}
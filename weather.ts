@@ -0,0 +1,143 @@
+/**
+ * @fileOverview Structured weather input and pluggable forecast providers for the outfit flows.
+ *
+ * - WeatherSchema - A structured forecast: temperature range, precipitation probability, wind and UV.
+ * - WeatherInputSchema - Either a structured forecast or a location plus date to look up.
+ * - WeatherProvider - The interface forecast sources implement.
+ * - FixtureWeatherProvider - Reads forecasts from a local JSON file, for offline use and tests.
+ * - setWeatherProvider / getWeatherProvider - Configure the provider used by the flows.
+ * - resolveWeather - Turns a WeatherInput into a structured forecast.
+ * - describeWeatherForPrompt - An English description of the forecast plus layering hints, for prompts.
+ */
+
+import {readFile} from 'node:fs/promises';
+import {z} from 'genkit';
+import {InvalidInputError, WeatherUnavailableError} from '@/ai/errors';
+
+export const WeatherSchema = z
+  .object({
+    temperatureMinC: z.number().describe('The lowest temperature of the day in degrees Celsius.'),
+    temperatureMaxC: z.number().describe('The highest temperature of the day in degrees Celsius.'),
+    precipitationProbability: z.number().min(0).max(100).describe('The chance of rain or snow, in percent.'),
+    windSpeedKmh: z.number().min(0).describe('The average wind speed in km/h.'),
+    uvIndex: z.number().min(0).max(15).describe('The maximum UV index of the day.'),
+    summary: z.string().optional().describe("Optional short description, e.g. 'Bewolkt met af en toe een bui'."),
+  })
+  .refine(weather => weather.temperatureMinC <= weather.temperatureMaxC, {
+    message: 'temperatureMinC mag niet hoger zijn dan temperatureMaxC.',
+    path: ['temperatureMinC'],
+  });
+export type Weather = z.infer<typeof WeatherSchema>;
+
+export const WeatherLocationRequestSchema = z.object({
+  location: z.string().min(1).describe("The place to get the forecast for, e.g. 'Utrecht'."),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Gebruik het formaat JJJJ-MM-DD.').describe('The day to get the forecast for (YYYY-MM-DD).'),
+});
+export type WeatherLocationRequest = z.infer<typeof WeatherLocationRequestSchema>;
+
+export const WeatherInputSchema = z
+  .union([WeatherSchema, WeatherLocationRequestSchema])
+  .describe('Either a structured forecast, or a location plus date for which the configured weather provider looks up the forecast.');
+export type WeatherInput = z.infer<typeof WeatherInputSchema>;
+
+export interface WeatherProvider {
+  getForecast(location: string, date: string): Promise<Weather>;
+}
+
+/**
+ * Reads forecasts from a JSON file shaped as `{"<location>": {"<YYYY-MM-DD>": Weather}}`.
+ * Location names are matched case-insensitively.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  private fixtures?: Promise<Record<string, Record<string, unknown>>>;
+
+  constructor(private readonly fixturePath: string) {}
+
+  async getForecast(location: string, date: string): Promise<Weather> {
+    this.fixtures ??= readFile(this.fixturePath, 'utf8').then(contents => JSON.parse(contents));
+    const fixtures = await this.fixtures.catch(error => {
+      this.fixtures = undefined;
+      throw new WeatherUnavailableError(location, date, error);
+    });
+    const locationKey = Object.keys(fixtures).find(key => key.toLowerCase() === location.trim().toLowerCase());
+    const forecast = locationKey ? fixtures[locationKey][date] : undefined;
+    if (!forecast) {
+      throw new WeatherUnavailableError(location, date);
+    }
+    const parsed = WeatherSchema.safeParse(forecast);
+    if (!parsed.success) {
+      throw new WeatherUnavailableError(location, date, parsed.error);
+    }
+    return parsed.data;
+  }
+}
+
+let weatherProvider: WeatherProvider | undefined;
+
+export function setWeatherProvider(provider: WeatherProvider): void {
+  weatherProvider = provider;
+}
+
+export function getWeatherProvider(): WeatherProvider {
+  weatherProvider ??= new FixtureWeatherProvider(process.env.WEATHER_FIXTURE_PATH ?? 'weather-fixtures.json');
+  return weatherProvider;
+}
+
+export async function resolveWeather(input: WeatherInput): Promise<Weather> {
+  if ('location' in input) {
+    return getWeatherProvider().getForecast(input.location, input.date);
+  }
+  // The flows validate their input with the JSON schema, which leaves out the refinement.
+  if (input.temperatureMinC > input.temperatureMaxC) {
+    throw new InvalidInputError('weather', 'temperatureMinC', {
+      nl: `de minimumtemperatuur (${input.temperatureMinC} °C) is hoger dan de maximumtemperatuur (${input.temperatureMaxC} °C).`,
+      en: `the minimum temperature (${input.temperatureMinC} °C) is higher than the maximum temperature (${input.temperatureMaxC} °C).`,
+      de: `die Mindesttemperatur (${input.temperatureMinC} °C) ist höher als die Höchsttemperatur (${input.temperatureMaxC} °C).`,
+    });
+  }
+  return input;
+}
+
+function layeringHints(weather: Weather): string[] {
+  const hints: string[] = [];
+  const {temperatureMinC: min, temperatureMaxC: max} = weather;
+  if (max < 5) {
+    hints.push('Cold: several warm layers and a thick, insulating coat.');
+  } else if (max < 12) {
+    hints.push('Chilly: a warm mid layer (jumper or cardigan) under a coat.');
+  } else if (max < 18) {
+    hints.push('Mild: a light outer layer such as a denim jacket, blazer or cardigan.');
+  } else if (max < 25) {
+    hints.push('Pleasant: one layer is enough, possibly with a thin extra layer for the morning or evening.');
+  } else {
+    hints.push('Warm: airy, breathable fabrics such as linen and cotton; no extra layers.');
+  }
+  if (max - min >= 8) {
+    hints.push(`Large temperature range (${min}–${max} °C): choose layers that are easy to take off and put on.`);
+  }
+  if (weather.precipitationProbability >= 60) {
+    hints.push('Rain likely: a water-repellent outer layer and closed, water-resistant shoes; no suede or open shoes.');
+  } else if (weather.precipitationProbability >= 30) {
+    hints.push('Chance of rain: bring an outer layer that can handle a shower.');
+  }
+  if (weather.windSpeedKmh >= 30) {
+    hints.push('Windy: a windproof outer layer; avoid wide, light skirts and dresses.');
+  }
+  if (weather.uvIndex >= 6) {
+    hints.push('High UV index: light, covering fabrics and possibly a cap or sun hat.');
+  }
+  return hints;
+}
+
+export function describeWeatherForPrompt(weather: Weather): string {
+  const lines = [
+    `Temperature: ${weather.temperatureMinC} to ${weather.temperatureMaxC} °C`,
+    `Chance of precipitation: ${weather.precipitationProbability}%`,
+    `Wind: ${weather.windSpeedKmh} km/h`,
+    `UV index: ${weather.uvIndex}`,
+  ];
+  if (weather.summary) {
+    lines.unshift(weather.summary);
+  }
+  return [...lines, 'Points of attention for layers, fabrics and shoes:', ...layeringHints(weather).map(hint => `- ${hint}`)].join('\n');
+}